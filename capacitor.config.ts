@@ -0,0 +1,21 @@
+import type { CapacitorConfig } from '@capacitor/cli';
+
+const config: CapacitorConfig = {
+  appId: 'com.herlaw.familycourt',
+  appName: 'Her Law',
+  webDir: 'build',
+  plugins: {
+    CapacitorSQLite: {
+      iosDatabaseLocation: 'Library/CapacitorDatabase',
+      iosIsEncryption: true,
+      iosKeychainPrefix: 'herlaw',
+      // The passphrase is removed on every lock, so there is nothing here for biometrics to guard.
+      // Biometric unlock keeps the PIN in its own biometry-bound Keychain / Keystore item instead.
+      iosBiometric: { biometricAuth: false },
+      androidIsEncryption: true,
+      androidBiometric: { biometricAuth: false },
+    },
+  },
+};
+
+export default config;
@@ -0,0 +1,34 @@
+/**
+ * Copy OCR Assets
+ * Copies the Tesseract worker, WASM core and English language data into
+ * public/ocr so on-device OCR works offline without any CDN requests.
+ * Runs automatically after `npm install`.
+ */
+
+import { copyFileSync, existsSync, mkdirSync } from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+
+const require = createRequire(import.meta.url);
+const outDir = path.resolve('public', 'ocr');
+
+const packageDir = (name) => path.dirname(require.resolve(`${name}/package.json`));
+
+const assets = [
+  [path.join(packageDir('tesseract.js'), 'dist', 'worker.min.js'), 'worker.min.js'],
+  [path.join(packageDir('tesseract.js-core'), 'tesseract-core-lstm.wasm.js'), 'tesseract-core-lstm.wasm.js'],
+  [path.join(packageDir('tesseract.js-core'), 'tesseract-core-simd-lstm.wasm.js'), 'tesseract-core-simd-lstm.wasm.js'],
+  [path.join(packageDir('@tesseract.js-data/eng'), '4.0.0_best_int', 'eng.traineddata.gz'), 'eng.traineddata.gz'],
+];
+
+mkdirSync(outDir, { recursive: true });
+
+for (const [source, name] of assets) {
+  if (!existsSync(source)) {
+    console.warn(`OCR asset not found, skipping: ${source}`);
+    continue;
+  }
+  copyFileSync(source, path.join(outDir, name));
+}
+
+console.log(`OCR assets copied to ${outDir}`);
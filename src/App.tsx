@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Home, Plus, FileText, Settings } from 'lucide-react';
 import { Dashboard } from './components/Dashboard';
 import { AddRecord } from './components/AddRecord';
@@ -6,18 +6,46 @@ import { RecordsList } from './components/RecordsList';
 import { SettingsScreen } from './components/SettingsScreen';
 import { WelcomeScreen } from './components/WelcomeScreen';
 import { SignInScreen } from './components/SignInScreen';
-import { indexedDBStorage } from './lib/storage/indexedDBStorage';
+import { indexedDBStorage, MigrationStatus } from './lib/storage/indexedDBStorage';
+import { recordStorage, migrateToEncryptedStorage, lockStorage } from './lib/storage/recordStorage';
+import { recordChangeTracker } from './lib/storage/recordChangeTracker';
+import { decoyStore } from './lib/storage/decoyStore';
+import { autoSyncService } from './lib/cloud/autoSyncService';
+import { cloudSyncService } from './lib/cloud/cloudSyncService';
+import { scheduledBackupService } from './lib/storage/scheduledBackupService';
+import { computeContentHash } from './lib/security/recordIntegrity';
+import { appendEvent, diffRecordEvents } from './lib/security/eventLog';
+import { pinSecurity, PasscodeFormat } from './lib/security/pinSecurity';
+import { biometricUnlock } from './lib/security/biometricUnlock';
+import { autoLockService } from './lib/security/autoLockService';
+import { privacyScreen } from './lib/security/privacyScreen';
 
 export type AttachmentType = {
   id: string;
   name: string;
-  url: string;
+  url?: string; // Only set transiently; binary content lives in the attachments store
   type: 'image' | 'pdf' | 'audio' | 'video' | 'document';
+  mimeType?: string;
+  size?: number;
   source: 'scanner' | 'camera' | 'files';
   fileHash?: string;
   ocrText?: string;
 };
 
+export type FieldChange = {
+  field: string;
+  from: unknown;
+  to: unknown;
+};
+
+export type RecordEvent = {
+  timestamp: string;
+  action: 'created' | 'edited' | 'tags_changed' | 'attachment_added' | 'attachment_removed' | 'exported';
+  changes?: FieldChange[];
+  prevHash?: string;
+  hash?: string;
+};
+
 export type RecordType = {
   id: string;
   dateTime: string;
@@ -26,70 +54,167 @@ export type RecordType = {
   people?: string[];
   location?: string;
   severity?: number; // 1-5
+  caseLabel?: string; // Groups the records of one legal matter; filing metadata, not part of the content hash
   files?: AttachmentType[];
   createdAt: string;
   editedAt?: string;
   contentHash?: string;
-  eventLog?: { timestamp: string; action: string }[];
+  eventLog?: RecordEvent[];
 };
 
 type TabType = 'home' | 'add' | 'records' | 'settings';
 
+const SAVE_RETRY_MS = 10 * 1000;
+
 export default function App() {
   const [activeTab, setActiveTab] = useState<TabType>('home');
   const [records, setRecords] = useState<RecordType[]>([]);
+  // Latest records for background sync, which runs outside React's render cycle
+  const recordsRef = useRef<RecordType[]>([]);
+  recordsRef.current = records;
   const [isLocked, setIsLocked] = useState(false);
   const [isDecoyMode, setIsDecoyMode] = useState(false);
-  const [pin, setPin] = useState<string | null>(null);
-  const [decoyPin, setDecoyPin] = useState<string | null>(null);
+  // Set once the decoy journal is loaded, so it is never overwritten with an empty list
+  const decoyLoadedRef = useRef(false);
+  const [hasPin, setHasPin] = useState(false);
+  const [hasDecoyPin, setHasDecoyPin] = useState(false);
+  const [passcodeFormat, setPasscodeFormat] = useState<PasscodeFormat>('pin4');
+  const [biometricLabel, setBiometricLabel] = useState<string | null>(null);
   const [hasCompletedWelcome, setHasCompletedWelcome] = useState(() => {
     return localStorage.getItem('recordKeeper_welcomeCompleted') === 'true';
   });
   const [userName, setUserName] = useState<string | null>(null);
+  const [migrationStatus, setMigrationStatus] = useState<MigrationStatus>(() => indexedDBStorage.getMigrationStatus());
+  // Shown while record changes fail to save; they are retried until they do
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const saveRetryRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Surface schema upgrades so the user knows not to close the app mid-migration
+  useEffect(() => {
+    return indexedDBStorage.onMigrationStatusChange(setMigrationStatus);
+  }, []);
+
+  /**
+   * Unlock encrypted storage, then load records and start background work that reads them
+   */
+  const openStorage = async (unlockPin?: string) => {
+    await indexedDBStorage.unlock(unlockPin);
+
+    // One-time import of data saved before IndexedDB was introduced
+    await indexedDBStorage.migrateFromLocalStorage();
+
+    // On native, records move once from IndexedDB into the encrypted database
+    await recordStorage.initialize();
+    await migrateToEncryptedStorage();
+    await biometricUnlock.removeLegacyPin();
+
+    // Load records from the platform's record store
+    const savedRecords = await recordStorage.getRecords();
+    recordChangeTracker.prime(savedRecords);
+    if (savedRecords.length > 0) {
+      setRecords(savedRecords);
+    }
+
+    // Background sync must only see the fully loaded record list
+    recordsRef.current = savedRecords;
+    autoSyncService.start({
+      getRecords: () => recordsRef.current,
+      applyRecords: setRecords,
+    }).catch((error) => console.error('Failed to start background sync:', error));
+    scheduledBackupService.start()
+      .catch((error) => console.error('Failed to start scheduled backups:', error));
+
+    // Earlier versions could fall back to keeping the name in plain localStorage
+    const strayUserName = localStorage.getItem('recordKeeper_userName');
+    if (strayUserName !== null) {
+      if (!(await indexedDBStorage.getSetting('recordKeeper_userName'))) {
+        await indexedDBStorage.saveSetting('recordKeeper_userName', strayUserName);
+      }
+      localStorage.removeItem('recordKeeper_userName');
+    }
+
+    const savedUserName = await indexedDBStorage.getSetting('recordKeeper_userName');
+    if (savedUserName) {
+      setUserName(savedUserName);
+    }
+  };
+
+  /**
+   * Offer biometrics on the lock screen only when they can stand in for the main PIN
+   */
+  const refreshBiometricLabel = async () => {
+    const available = await pinSecurity.hasPin('main') &&
+      await biometricUnlock.isEnabled() &&
+      await biometricUnlock.isSupported();
+    setBiometricLabel(available ? await biometricUnlock.getLabel() : null);
+  };
+
+  /**
+   * Return to the lock screen: stop background work, wait for pending saves,
+   * then drop records and storage keys from memory
+   */
+  const lockApp = async () => {
+    autoLockService.stop();
+    clearSaveRetry();
+
+    // Storage closes on lock, so unsaved changes get one last attempt while it is open
+    const unsaved = await persistRecords(recordsRef.current);
+    if (unsaved) {
+      alert(`Some changes could not be saved before locking and were lost: ${unsaved}`);
+    }
+    setSaveError(null);
+
+    autoSyncService.stop();
+    scheduledBackupService.stop();
+    await recordChangeTracker.reset();
+    decoyLoadedRef.current = false;
+    recordsRef.current = [];
+    setRecords([]);
+    setUserName(null);
+    setActiveTab('home');
+    setIsDecoyMode(false);
+    setIsLocked(true);
+    await lockStorage();
+    await refreshBiometricLabel();
+  };
+
+  const startAutoLock = () => {
+    autoLockService.start(lockApp)
+      .catch((error) => console.error('Failed to start auto-lock:', error));
+  };
 
   // Load data from IndexedDB on mount
   useEffect(() => {
     const loadData = async () => {
       try {
+        // Keep evidence out of the app switcher and screenshots
+        privacyScreen.enable().catch((error) => console.error('Failed to enable privacy screen:', error));
+
         // Initialize IndexedDB
         await indexedDBStorage.initialize();
 
-        // Migrate from localStorage if this is first time
-        const hasLocalStorageData = localStorage.getItem('recordKeeper_records');
-        if (hasLocalStorageData) {
-          console.log('Migrating data from localStorage to IndexedDB...');
-          await indexedDBStorage.migrateFromLocalStorage();
-        }
-
-        // Load records from IndexedDB
-        const savedRecords = await indexedDBStorage.getRecords();
-        if (savedRecords.length > 0) {
-          setRecords(savedRecords);
-        }
-
-        // Load settings from IndexedDB
+        // Lock settings are stored unencrypted so they can be read before unlocking
         const savedPin = await indexedDBStorage.getSetting('recordKeeper_pin');
         const savedDecoyPin = await indexedDBStorage.getSetting('recordKeeper_decoyPin');
         const lockEnabled = await indexedDBStorage.getSetting('recordKeeper_lockEnabled');
         const welcomeCompleted = await indexedDBStorage.getSetting('recordKeeper_welcomeCompleted');
-        const savedUserName = await indexedDBStorage.getSetting('recordKeeper_userName');
 
-        if (savedPin) {
-          setPin(savedPin);
-        }
-        if (savedDecoyPin) {
-          setDecoyPin(savedDecoyPin);
-        }
-        if (lockEnabled === 'true' && savedPin) {
-          setIsLocked(true);
-        }
+        setHasPin(!!savedPin);
+        setHasDecoyPin(!!savedDecoyPin);
+        setPasscodeFormat(await pinSecurity.getFormat());
         if (welcomeCompleted === 'true') {
           setHasCompletedWelcome(true);
         }
-        if (savedUserName) {
-          setUserName(savedUserName);
+
+        // Records stay encrypted until the PIN is entered on the lock screen
+        if ((lockEnabled === 'true' && savedPin) || await indexedDBStorage.requiresPin()) {
+          // Biometrics stand in for the main PIN only, never for a decoy PIN on its own
+          await refreshBiometricLabel();
+          setIsLocked(true);
+          return;
         }
 
+        await openStorage();
         console.log('Data loaded from IndexedDB successfully');
       } catch (error) {
         console.error('Failed to load data from IndexedDB:', error);
@@ -102,138 +227,304 @@ export default function App() {
     };
 
     loadData();
+
+    return () => {
+      autoLockService.stop();
+      autoSyncService.stop();
+      scheduledBackupService.stop();
+    };
   }, []);
 
-  // Save records to IndexedDB whenever they change
+  const clearSaveRetry = () => {
+    if (saveRetryRef.current) {
+      clearTimeout(saveRetryRef.current);
+      saveRetryRef.current = null;
+    }
+  };
+
+  /**
+   * Write record changes and queue what was written for the next background
+   * sync, even when a later write fails. Resolves with the save error, if any.
+   */
+  const persistRecords = async (latest: RecordType[]): Promise<string | null> => {
+    const { written, error } = await recordChangeTracker.flush(latest);
+    try {
+      await autoSyncService.queueChanges(written);
+    } catch (queueError) {
+      console.error('Failed to queue record changes for sync:', queueError);
+    }
+    if (!error) return null;
+    console.error('Failed to save record changes:', error);
+    return error instanceof Error ? error.message : 'Storage error';
+  };
+
+  // Persist only the records that changed since the last save
   useEffect(() => {
-    const saveRecords = async () => {
-      try {
-        await indexedDBStorage.saveRecords(records);
-        console.log('Records saved to IndexedDB');
-      } catch (error) {
-        console.error('Failed to save records to IndexedDB:', error);
-        // Fallback to localStorage
-        localStorage.setItem('recordKeeper_records', JSON.stringify(records));
+    if (isDecoyMode) {
+      if (decoyLoadedRef.current) {
+        decoyStore.saveRecords(records)
+          .catch((error) => console.error('Failed to save journal:', error));
+      }
+      return;
+    }
+    if (!recordChangeTracker.isPrimed()) return;
+
+    // No plaintext fallback: unsaved changes are retried until they are written
+    const save = async () => {
+      clearSaveRetry();
+      const error = await persistRecords(recordsRef.current);
+      setSaveError(error);
+      if (error && recordChangeTracker.isPrimed()) {
+        saveRetryRef.current = setTimeout(save, SAVE_RETRY_MS);
       }
     };
+    save();
+  }, [records]);
+
+  const addRecord = async (
+    record: Omit<RecordType, 'id' | 'createdAt' | 'contentHash' | 'eventLog'>,
+    attachmentBlobs: Record<string, Blob> = {}
+  ) => {
+    // The decoy journal keeps attachments inside its entries and must not write to the real store
+    const content = isDecoyMode && record.files
+      ? { ...record, files: await decoyStore.inlineAttachments(record.files, attachmentBlobs) }
+      : record;
 
-    if (records.length > 0) {
-      saveRecords();
+    // Store attachment content first so the record never references missing blobs
+    if (!isDecoyMode) {
+      for (const [id, blob] of Object.entries(attachmentBlobs)) {
+        await recordStorage.saveAttachment(id, blob);
+      }
     }
-  }, [records]);
 
-  const addRecord = (record: Omit<RecordType, 'id' | 'createdAt' | 'contentHash' | 'eventLog'>) => {
     const timestamp = new Date().toISOString();
+    const contentHash = await computeContentHash(content);
     const newRecord: RecordType = {
-      ...record,
+      ...content,
       id: crypto.randomUUID(),
       createdAt: timestamp,
-      eventLog: [{ timestamp, action: 'created' }],
+      contentHash,
+      eventLog: await appendEvent([], 'created', undefined, timestamp),
     };
-    setRecords([newRecord, ...records]);
+    setRecords(prev => [newRecord, ...prev]);
     setActiveTab('home');
   };
 
   const deleteRecord = (id: string) => {
-    setRecords(records.filter(r => r.id !== id));
+    setRecords(prev => prev.filter(r => r.id !== id));
+  };
+
+  /**
+   * A copy of the record with the edit applied, re-hashed and logged, or null if nothing changed
+   */
+  const buildEdit = async (existing: RecordType, updates: Partial<RecordType>, timestamp: string) => {
+    // Identity, hash and history are managed here and can never be overwritten by an edit
+    const { id: _id, createdAt: _createdAt, contentHash: _contentHash, eventLog: _eventLog, ...editableUpdates } = updates;
+    const edited: RecordType = { ...existing, ...editableUpdates, editedAt: timestamp };
+
+    let eventLog = existing.eventLog;
+    for (const event of diffRecordEvents(existing, edited)) {
+      eventLog = await appendEvent(eventLog, event.action, event.changes, timestamp);
+    }
+    if (eventLog === existing.eventLog) return null;
+
+    // Re-hash the edited content so the stored hash always reflects the current entry
+    edited.contentHash = await computeContentHash(edited);
+    edited.eventLog = eventLog;
+    return edited;
   };
 
-  const updateRecord = (id: string, updates: Partial<RecordType>) => {
-    setRecords(records.map(r => r.id === id ? { ...r, ...updates } : r));
+  const updateRecord = async (id: string, updates: Partial<RecordType>) => {
+    const existing = records.find(r => r.id === id);
+    if (!existing) return;
+
+    const edited = await buildEdit(existing, updates, new Date().toISOString());
+    if (!edited) return; // Nothing actually changed
+
+    setRecords(prev => prev.map(r => r.id === id ? edited : r));
+  };
+
+  // Records brought back from an old cloud version; existing ones are restored as ordinary edits
+  const recoverRecords = async (recovered: RecordType[]) => {
+    const current = new Map(recordsRef.current.map(r => [r.id, r]));
+    const timestamp = new Date().toISOString();
+    const restored: RecordType[] = [];
+
+    for (const old of recovered) {
+      // Attachments whose content is gone from this device would only show as broken files
+      const files: AttachmentType[] = [];
+      for (const file of old.files ?? []) {
+        if (file.url || await recordStorage.getAttachment(file.id)) files.push(file);
+      }
+
+      const existing = current.get(old.id);
+      const edited = await buildEdit(existing ?? old, { ...old, files: files.length > 0 ? files : undefined }, timestamp);
+      if (existing && !edited) continue;
+      restored.push(edited ?? old);
+    }
+
+    // Deleted records come back as they were, replacing their deletion on every device
+    await cloudSyncService.supersedeTombstones(recovered.filter(old => !current.has(old.id)).map(old => old.id));
+
+    const restoredById = new Map(restored.map(r => [r.id, r]));
+    setRecords(prev => [
+      ...restored.filter(r => !prev.some(p => p.id === r.id)),
+      ...prev.map(r => restoredById.get(r.id) ?? r),
+    ]);
+  };
+
+  const caseLabels = Array.from(new Set(records.flatMap(r => r.caseLabel ? [r.caseLabel] : []))).sort();
+
+  const logExport = async (ids: string[]) => {
+    const timestamp = new Date().toISOString();
+    const exported = new Map<string, RecordType>();
+    for (const record of records.filter(r => ids.includes(r.id))) {
+      exported.set(record.id, {
+        ...record,
+        eventLog: await appendEvent(record.eventLog, 'exported', undefined, timestamp),
+      });
+    }
+    setRecords(prev => prev.map(r => exported.get(r.id) ?? r));
   };
 
   const handleWelcomeComplete = async (name?: string) => {
     try {
-      await indexedDBStorage.saveSetting('recordKeeper_welcomeCompleted', 'true');
+      // The name is encrypted, so it is saved before welcome is marked complete
       if (name) {
         await indexedDBStorage.saveSetting('recordKeeper_userName', name);
         setUserName(name);
       }
+      await indexedDBStorage.saveSetting('recordKeeper_welcomeCompleted', 'true');
       setHasCompletedWelcome(true);
     } catch (error) {
+      // No plaintext fallback: the name must only ever be stored encrypted
       console.error('Failed to save welcome completion:', error);
-      // Fallback to localStorage
-      localStorage.setItem('recordKeeper_welcomeCompleted', 'true');
-      if (name) {
-        localStorage.setItem('recordKeeper_userName', name);
-        setUserName(name);
-      }
-      setHasCompletedWelcome(true);
+      alert('Failed to save your details. Please try again.');
     }
   };
 
   console.log('hasCompletedWelcome:', hasCompletedWelcome);
   
-  if (!hasCompletedWelcome) {
-    return <WelcomeScreen onComplete={handleWelcomeComplete} />;
-  }
+  const migrationNotice = <MigrationNotice status={migrationStatus} />;
 
+  // Storage that needs the PIN is unlocked before welcome can save anything to it
   if (isLocked) {
     return (
-      <SignInScreen
-        onComplete={(enteredPin, onError) => {
-          if (enteredPin === pin) {
+      <>
+        {migrationNotice}
+        <SignInScreen
+          format={passcodeFormat}
+          onUnlock={async (enteredPin) => {
+            const result = await pinSecurity.attemptUnlock(enteredPin);
+            if (result.outcome === 'main') {
+              await openStorage(enteredPin);
+              setIsLocked(false);
+              setIsDecoyMode(false);
+              startAutoLock();
+            } else if (result.outcome === 'decoy') {
+              // The decoy journal is a separate store; real storage stays locked
+              setRecords(await decoyStore.getRecords());
+              decoyLoadedRef.current = true;
+              setIsLocked(false);
+              setIsDecoyMode(true);
+              startAutoLock();
+            } else if (result.outcome === 'wiped') {
+              window.location.reload();
+            }
+            return result;
+          }}
+          biometricLabel={biometricLabel}
+          onBiometricUnlock={async () => {
+            const mainPin = await biometricUnlock.unlock();
+            if (!mainPin) return false;
+            await openStorage(mainPin);
             setIsLocked(false);
             setIsDecoyMode(false);
-          } else if (decoyPin && enteredPin === decoyPin) {
-            setIsLocked(false);
-            setIsDecoyMode(true);
-          } else {
-            // Show error animation
-            onError();
-          }
-        }}
-      />
+            startAutoLock();
+            return true;
+          }}
+        />
+      </>
+    );
+  }
+
+  // The decoy journal has no welcome of its own, and real storage stays locked behind it
+  if (!hasCompletedWelcome && !isDecoyMode) {
+    return (
+      <>
+        {migrationNotice}
+        <WelcomeScreen onComplete={handleWelcomeComplete} />
+      </>
     );
   }
 
   return (
     <div className="min-h-screen bg-slate-50 pb-20">
+      {migrationNotice}
+      {saveError && (
+        <div className="fixed top-0 left-0 right-0 z-40 bg-red-600 text-white px-4 py-3 text-sm">
+          <div className="max-w-md mx-auto">
+            <p className="font-medium">Some changes are not saved yet</p>
+            <p className="text-red-100">{saveError} Retrying automatically; keep the app open.</p>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="max-w-md mx-auto">
-        {activeTab === 'home' && <Dashboard records={isDecoyMode ? [] : records} userName={userName} isDecoyMode={isDecoyMode} />}
-        {activeTab === 'add' && <AddRecord onSave={addRecord} isDecoyMode={isDecoyMode} />}
+        {activeTab === 'home' && <Dashboard records={records} userName={userName} isDecoyMode={isDecoyMode} />}
+        {activeTab === 'add' && <AddRecord onSave={addRecord} isDecoyMode={isDecoyMode} caseLabels={caseLabels} />}
         {activeTab === 'records' && (
           <RecordsList
-            records={isDecoyMode ? [] : records}
+            records={records}
             onDelete={deleteRecord}
             onUpdate={updateRecord}
+            onExport={logExport}
             isDecoyMode={isDecoyMode}
           />
         )}
         {activeTab === 'settings' && (
           <SettingsScreen
             records={records}
-            pin={pin}
-            decoyPin={decoyPin}
+            onExport={logExport}
+            onRecoverRecords={recoverRecords}
+            hasPin={hasPin}
+            hasDecoyPin={hasDecoyPin}
+            passcodeFormat={passcodeFormat}
             userName={userName}
-            onPinChange={async (newPin) => {
-              setPin(newPin);
-              try {
-                await indexedDBStorage.saveSetting('recordKeeper_pin', newPin);
-              } catch (error) {
-                console.error('Failed to save PIN to IndexedDB:', error);
-                localStorage.setItem('recordKeeper_pin', newPin);
+            onPinChange={async (newPin, format) => {
+              await pinSecurity.setPin('main', newPin, format);
+              // The decoy PIN is entered on the same lock screen, so it must share the format
+              if (hasDecoyPin && format !== passcodeFormat) {
+                await pinSecurity.clearPin('decoy');
+                setHasDecoyPin(false);
               }
+              setHasPin(true);
+              setPasscodeFormat(format);
+              if ((await indexedDBStorage.getSetting('recordKeeper_lockEnabled')) === 'true') {
+                await indexedDBStorage.setUnlockPin(newPin);
+              }
+              await biometricUnlock.updatePin(newPin);
             }}
             onDecoyPinChange={async (newDecoyPin) => {
-              setDecoyPin(newDecoyPin);
-              try {
-                await indexedDBStorage.saveSetting('recordKeeper_decoyPin', newDecoyPin);
-              } catch (error) {
-                console.error('Failed to save decoy PIN to IndexedDB:', error);
-                localStorage.setItem('recordKeeper_decoyPin', newDecoyPin);
-              }
+              await pinSecurity.setPin('decoy', newDecoyPin, passcodeFormat);
+              setHasDecoyPin(true);
             }}
-            onLockToggle={async (enabled) => {
+            onLockToggle={async (enabled, currentPin) => {
               try {
                 await indexedDBStorage.saveSetting('recordKeeper_lockEnabled', enabled.toString());
+                // With the lock on, the PIN is needed to decrypt stored data
+                await indexedDBStorage.setUnlockPin(enabled ? currentPin ?? null : null);
               } catch (error) {
                 console.error('Failed to save lock setting to IndexedDB:', error);
                 localStorage.setItem('recordKeeper_lockEnabled', enabled.toString());
               }
-              if (!enabled) {
+              if (enabled) {
+                startAutoLock();
+              } else {
+                autoLockService.stop();
                 setIsLocked(false);
+                await biometricUnlock.disable();
               }
             }}
             isDecoyMode={isDecoyMode}
@@ -295,4 +586,36 @@ function TabButton({ icon, label, active, onClick }: {
   );
 }
 
+function MigrationNotice({ status }: { status: MigrationStatus }) {
+  if (status.state === 'failed') {
+    return (
+      <div className="fixed top-0 left-0 right-0 z-50 bg-red-600 text-white px-4 py-3 text-sm">
+        <div className="max-w-md mx-auto">
+          <p className="font-medium">Storage upgrade failed</p>
+          <p className="text-red-100">{status.error} Your existing records have not been changed.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (status.state !== 'snapshotting' && status.state !== 'migrating' && status.state !== 'blocked') {
+    return null;
+  }
+
+  const message = {
+    snapshotting: 'Backing up your records before upgrading storage...',
+    migrating: `Upgrading storage to version ${status.toVersion}...`,
+    blocked: 'Close other open copies of the app to finish upgrading storage.',
+  }[status.state];
 
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 flex items-center justify-center px-6">
+      <div className="bg-white rounded-xl p-6 max-w-sm w-full text-center shadow-lg">
+        <div className="w-8 h-8 mx-auto mb-4 border-4 border-blue-200 border-t-blue-600 rounded-full animate-spin" />
+        <p className="text-slate-900 mb-1">Updating secure storage</p>
+        <p className="text-sm text-slate-600">{message}</p>
+        <p className="text-xs text-slate-500 mt-3">Please keep the app open.</p>
+      </div>
+    </div>
+  );
+}
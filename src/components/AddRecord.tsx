@@ -1,12 +1,14 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { RecordType, AttachmentType } from '../App';
-import { Calendar, Tag, MapPin, Paperclip, X, Mic, Users, AlertCircle } from 'lucide-react';
+import { Calendar, Tag, MapPin, Paperclip, X, Mic, Users, AlertCircle, Briefcase } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Textarea } from './ui/textarea';
 import { Label } from './ui/label';
 import { Badge } from './ui/badge';
 import { DEFAULT_TAXONOMY, HashtagCategory } from '../lib/hashtagTaxonomy';
+import { hashFileBytes } from '../lib/security/recordIntegrity';
+import { ocrService } from '../lib/ocr/ocrService';
 
 const TAG_KEYWORDS: Record<string, string[]> = {
   'PhysicalAbuse': ['hit', 'punch', 'slap', 'push', 'shove', 'kick', 'beat', 'struck', 'physical', 'grabbed', 'choked', 'assault', 'bruise', 'injury'],
@@ -37,7 +39,7 @@ const TAG_KEYWORDS: Record<string, string[]> = {
   'SchoolNote': ['school note', 'teacher email', 'principal letter'],
 };
 
-export function AddRecord({ onSave, isDecoyMode }: { onSave: (record: Omit<RecordType, 'id' | 'createdAt' | 'contentHash' | 'eventLog'>) => void; isDecoyMode: boolean }) {
+export function AddRecord({ onSave, isDecoyMode, caseLabels = [] }: { onSave: (record: Omit<RecordType, 'id' | 'createdAt' | 'contentHash' | 'eventLog'>, attachmentBlobs: Record<string, Blob>) => void; isDecoyMode: boolean; caseLabels?: string[] }) {
   const [dateTime, setDateTime] = useState(() => {
     const now = new Date();
     const offset = now.getTimezoneOffset() * 60000;
@@ -50,14 +52,22 @@ export function AddRecord({ onSave, isDecoyMode }: { onSave: (record: Omit<Recor
   const [people, setPeople] = useState<string[]>([]);
   const [personInput, setPersonInput] = useState('');
   const [location, setLocation] = useState('');
+  const [caseLabel, setCaseLabel] = useState('');
   const [severity, setSeverity] = useState<number>(3);
   const [files, setFiles] = useState<AttachmentType[]>([]);
   const [isRecording, setIsRecording] = useState(false);
   const [suggestedTags, setSuggestedTags] = useState<string[]>([]);
   const [taxonomy, setTaxonomy] = useState<HashtagCategory[]>(DEFAULT_TAXONOMY);
+  const [ocrPending, setOcrPending] = useState<string[]>([]);
+  // Raw file content for each pending attachment, handed to storage on save
+  const fileBlobs = useRef<Record<string, Blob>>({});
 
-  // Load custom taxonomy from localStorage
+  // Text recognized in attachments feeds tag suggestions alongside the description
+  const ocrCorpus = files.map(f => f.ocrText || '').join('\n').trim();
+
+  // Load custom taxonomy from localStorage; decoy mode keeps the defaults so real categories stay hidden
   useEffect(() => {
+    if (isDecoyMode) return;
     const saved = localStorage.getItem('recordKeeper_taxonomy');
     if (saved) {
       try {
@@ -68,9 +78,16 @@ export function AddRecord({ onSave, isDecoyMode }: { onSave: (record: Omit<Recor
     }
   }, []);
 
-  // Smart tag suggestions based on description
+  // Re-run suggestions as OCR results arrive
+  useEffect(() => {
+    if (ocrCorpus) {
+      analyzeDescription(description);
+    }
+  }, [ocrCorpus]);
+
+  // Smart tag suggestions based on description and attachment text
   const analyzeDescription = (text: string) => {
-    const lowerText = text.toLowerCase();
+    const lowerText = `${text}\n${ocrCorpus}`.toLowerCase();
     const suggestions: string[] = [];
     
     Object.entries(TAG_KEYWORDS).forEach(([tag, keywords]) => {
@@ -86,7 +103,7 @@ export function AddRecord({ onSave, isDecoyMode }: { onSave: (record: Omit<Recor
 
   const handleDescriptionChange = (value: string) => {
     setDescription(value);
-    if (value.length > 10) {
+    if (value.length > 10 || ocrCorpus) {
       analyzeDescription(value);
     } else {
       setSuggestedTags([]);
@@ -126,37 +143,61 @@ export function AddRecord({ onSave, isDecoyMode }: { onSave: (record: Omit<Recor
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const fileList = e.target.files;
     if (fileList) {
-      const filePromises = Array.from(fileList).map(async (file) => {
+      const filePromises = Array.from(fileList).map(async (file): Promise<AttachmentType> => {
         let type: AttachmentType['type'] = 'document';
         if (file.type.startsWith('image/')) type = 'image';
         else if (file.type === 'application/pdf') type = 'pdf';
         else if (file.type.startsWith('audio/')) type = 'audio';
         else if (file.type.startsWith('video/')) type = 'video';
 
-        // Convert file to data URL for persistent storage
-        const dataUrl = await new Promise<string>((resolve) => {
-          const reader = new FileReader();
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.onerror = () => resolve(URL.createObjectURL(file)); // Fallback to blob URL
-          reader.readAsDataURL(file);
-        });
+        // Fingerprint the original bytes before any conversion
+        const fileHash = await hashFileBytes(file);
+
+        // Keep the raw file as a Blob; it is stored separately from the record
+        const id = crypto.randomUUID();
+        fileBlobs.current[id] = file;
 
         return {
-          id: crypto.randomUUID(),
+          id,
           name: file.name,
-          url: dataUrl, // Now using data URL instead of blob URL
           type,
           source: 'files',
+          fileHash,
+          mimeType: file.type || undefined,
+          size: file.size,
         };
       });
 
       const newFiles = await Promise.all(filePromises);
       setFiles([...files, ...newFiles]);
+
+      // Extract text on-device in the background; the entry can be saved meanwhile
+      Array.from(fileList).forEach((file, index) => {
+        const attachment = newFiles[index];
+        if (ocrService.canExtract(attachment.type)) {
+          runOcr(attachment.id, file, attachment.type);
+        }
+      });
+    }
+  };
+
+  const runOcr = async (id: string, file: File, type: AttachmentType['type']) => {
+    setOcrPending(prev => [...prev, id]);
+    try {
+      const ocrText = await ocrService.extractText(file, type);
+      if (ocrText) {
+        setFiles(prev => prev.map(f => f.id === id ? { ...f, ocrText } : f));
+      }
+    } catch (error) {
+      console.error('OCR failed for attachment:', file.name, error);
+    } finally {
+      setOcrPending(prev => prev.filter(pendingId => pendingId !== id));
     }
   };
 
   const handleRemoveFile = (id: string) => {
     setFiles(files.filter(f => f.id !== id));
+    delete fileBlobs.current[id];
   };
 
   const handleVoiceInput = async () => {
@@ -183,13 +224,10 @@ export function AddRecord({ onSave, isDecoyMode }: { onSave: (record: Omit<Recor
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (isDecoyMode) {
-      // In decoy mode, just show success and reset
-      alert('Entry saved');
-      resetForm();
-      return;
-    }
-    
+
+    // OCR text is saved with its attachment, so wait until every file has been read
+    if (ocrPending.length > 0) return;
+
     if (!description.trim() || selectedTags.length === 0) {
       alert('Please provide a description and at least one tag');
       return;
@@ -202,8 +240,9 @@ export function AddRecord({ onSave, isDecoyMode }: { onSave: (record: Omit<Recor
       people: people.length > 0 ? people : undefined,
       location: location.trim() || undefined,
       severity,
+      caseLabel: caseLabel.trim() || undefined,
       files: files.length > 0 ? files : undefined,
-    });
+    }, { ...fileBlobs.current });
 
     resetForm();
   };
@@ -216,6 +255,7 @@ export function AddRecord({ onSave, isDecoyMode }: { onSave: (record: Omit<Recor
     setLocation('');
     setSeverity(3);
     setFiles([]);
+    fileBlobs.current = {};
     const now = new Date();
     const offset = now.getTimezoneOffset() * 60000;
     const localISOTime = new Date(now.getTime() - offset).toISOString().slice(0, 16);
@@ -471,6 +511,25 @@ export function AddRecord({ onSave, isDecoyMode }: { onSave: (record: Omit<Recor
           />
         </div>
 
+        {/* Case */}
+        <div>
+          <Label className="flex items-center gap-2 mb-2 text-slate-700">
+            <Briefcase className="w-4 h-4" />
+            Case <span className="text-slate-500">(optional)</span>
+          </Label>
+          <Input
+            type="text"
+            value={caseLabel}
+            onChange={(e) => setCaseLabel(e.target.value)}
+            placeholder="e.g. Custody 2024"
+            list="case-labels"
+            className="w-full"
+          />
+          <datalist id="case-labels">
+            {caseLabels.map(label => <option key={label} value={label} />)}
+          </datalist>
+        </div>
+
         {/* File Upload */}
         <div>
           <Label className="flex items-center gap-2 mb-2 text-slate-700">
@@ -499,9 +558,17 @@ export function AddRecord({ onSave, isDecoyMode }: { onSave: (record: Omit<Recor
                   key={file.id}
                   className="flex items-center justify-between bg-purple-50 rounded-lg px-3 py-2 border border-purple-100"
                 >
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm text-slate-700 truncate">{file.name}</span>
-                    <Badge variant="outline" className="text-xs">{file.type}</Badge>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-slate-700 truncate">{file.name}</span>
+                      <Badge variant="outline" className="text-xs">{file.type}</Badge>
+                    </div>
+                    {ocrPending.includes(file.id) && (
+                      <p className="text-xs text-slate-500 mt-0.5">Reading text...</p>
+                    )}
+                    {file.ocrText && (
+                      <p className="text-xs text-slate-500 mt-0.5 truncate">Text found: {file.ocrText.slice(0, 60)}</p>
+                    )}
                   </div>
                   <button
                     type="button"
@@ -517,8 +584,14 @@ export function AddRecord({ onSave, isDecoyMode }: { onSave: (record: Omit<Recor
         </div>
 
         {/* Submit Button */}
-        <Button type="submit" className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white">
-          Save Entry (Time-stamped & Hashed)
+        <Button
+          type="submit"
+          disabled={ocrPending.length > 0}
+          className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white"
+        >
+          {ocrPending.length > 0
+            ? 'Reading attachment text...'
+            : 'Save Entry (Time-stamped & Hashed)'}
         </Button>
 
         <div className="bg-purple-50 rounded-xl p-3 border border-purple-100">
@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import { CloudDownload, KeyRound, FileText, Paperclip, Calendar, Tags } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { cloudSyncService, CloudRestorePreview, SyncProgress, describeRejectedAttachments } from '../lib/cloud/cloudSyncService';
+import { syncKeyManager, SyncKeyEnvelope } from '../lib/cloud/syncKeyManager';
+import { autoSyncService } from '../lib/cloud/autoSyncService';
+
+interface CloudRestoreDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called once the cloud data has been written to this device */
+  onRestored: () => void;
+}
+
+type RestoreStep = 'loading' | 'unlock' | 'preview' | 'restoring';
+
+const PHASE_LABELS: Record<SyncProgress['phase'], string> = {
+  downloading: 'Downloading records',
+  uploading: 'Uploading records',
+  attachments: 'Downloading attachments',
+};
+
+function formatDate(iso?: string) {
+  return iso ? new Date(iso).toLocaleDateString() : '—';
+}
+
+/**
+ * Restores a whole cloud account onto this device: unlocks the sync key,
+ * previews what the account holds, then restores settings and records.
+ * Expects the user to be signed in already.
+ */
+export function CloudRestoreDialog({ open, onOpenChange, onRestored }: CloudRestoreDialogProps) {
+  const [step, setStep] = useState<RestoreStep>('loading');
+  const [envelope, setEnvelope] = useState<SyncKeyEnvelope | null>(null);
+  const [secret, setSecret] = useState('');
+  const [preview, setPreview] = useState<CloudRestorePreview | null>(null);
+  const [progress, setProgress] = useState<SyncProgress | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPreview = async () => {
+    setStep('loading');
+    const { preview: loaded, error: previewError } = await cloudSyncService.previewRestore(setProgress);
+    setProgress(null);
+    if (!loaded) {
+      setError(previewError || 'Failed to read cloud data');
+      setStep('unlock');
+      return;
+    }
+    setPreview(loaded);
+    setStep('preview');
+  };
+
+  useEffect(() => {
+    if (!open) return;
+
+    const start = async () => {
+      setError(null);
+      setStep('loading');
+      const { envelope: remote, error: envelopeError } = await cloudSyncService.downloadKeyEnvelope();
+      if (envelopeError || !remote) {
+        setError(envelopeError || 'No cloud data found for this account');
+        setStep('unlock');
+        return;
+      }
+      setEnvelope(remote);
+
+      // Already unlocked on this device with the account's current key
+      const local = await syncKeyManager.getEnvelope();
+      if (local?.keyId === remote.keyId && (await syncKeyManager.getKey())) {
+        await loadPreview();
+      } else {
+        setStep('unlock');
+      }
+    };
+
+    start();
+  }, [open]);
+
+  const handleClose = () => {
+    if (step === 'restoring') return;
+    setSecret('');
+    setPreview(null);
+    setError(null);
+    onOpenChange(false);
+  };
+
+  const handleUnlock = async () => {
+    if (!envelope) return;
+    setError(null);
+    setIsProcessing(true);
+    try {
+      await syncKeyManager.unlock(envelope, secret.trim());
+      setSecret('');
+      await loadPreview();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock cloud data');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!preview) return;
+    setError(null);
+    setStep('restoring');
+
+    // The page reloads after restoring; a background sync must not race the restore
+    autoSyncService.stop();
+
+    const { success, error: restoreError, rejectedAttachments } = await cloudSyncService.restoreFromCloud(preview, setProgress);
+    setProgress(null);
+    if (!success) {
+      setError(restoreError || 'Failed to restore from cloud');
+      setStep('preview');
+      return;
+    }
+    if (rejectedAttachments?.length) {
+      alert(`Your data was restored, but ${describeRejectedAttachments(rejectedAttachments)}`);
+    }
+    onRestored();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CloudDownload className="w-5 h-5 text-blue-600" />
+            Restore from Cloud
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'unlock'
+              ? 'Enter your sync passphrase, or your recovery key, to decrypt your cloud data on this device.'
+              : 'Bring your records, settings and hashtags onto this device.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-sm text-red-900">{error}</p>
+            </div>
+          )}
+
+          {(step === 'loading' || step === 'restoring') && (
+            <p className="text-sm text-slate-600 text-center py-4">
+              {progress && progress.total > 0
+                ? `${PHASE_LABELS[progress.phase]} (${progress.done}/${progress.total})...`
+                : step === 'loading' ? 'Reading your cloud data...' : 'Restoring...'}
+            </p>
+          )}
+
+          {step === 'unlock' && envelope && (
+            <div>
+              <Label className="flex items-center gap-2">
+                <KeyRound className="w-4 h-4" />
+                Sync Passphrase or Recovery Key
+              </Label>
+              <Input
+                type="password"
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                className="border-blue-200 focus:border-blue-400"
+                disabled={isProcessing}
+              />
+            </div>
+          )}
+
+          {step === 'preview' && preview && (
+            <>
+              <div className="bg-slate-50 rounded-lg p-4 border border-slate-200 space-y-2 text-sm text-slate-700">
+                <div className="flex items-center gap-2">
+                  <FileText className="w-4 h-4 text-slate-500" />
+                  {preview.recordCount} {preview.recordCount === 1 ? 'record' : 'records'}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Paperclip className="w-4 h-4 text-slate-500" />
+                  {preview.attachmentCount} {preview.attachmentCount === 1 ? 'attachment' : 'attachments'}
+                </div>
+                {preview.recordCount > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Calendar className="w-4 h-4 text-slate-500" />
+                    {formatDate(preview.earliestDate)} – {formatDate(preview.latestDate)}
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <Tags className="w-4 h-4 text-slate-500" />
+                  {preview.hasCustomTaxonomy ? 'Custom hashtags included' : 'Default hashtags'}
+                </div>
+                {preview.lastSynced && (
+                  <p className="text-xs text-slate-500 pt-1">Last synced {new Date(preview.lastSynced).toLocaleString()}</p>
+                )}
+              </div>
+              {preview.settings.lockEnabled === 'true' && preview.settings.pin && (
+                <div className="bg-amber-50 rounded-lg p-3 border border-amber-200">
+                  <p className="text-sm text-amber-900">
+                    Your PIN lock will be restored. You will need the same PIN you used on your other device.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isProcessing || step === 'restoring'}>
+            Cancel
+          </Button>
+          {step === 'unlock' && envelope && (
+            <Button
+              onClick={handleUnlock}
+              disabled={isProcessing || !secret.trim()}
+              className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600"
+            >
+              {isProcessing ? 'Unlocking...' : 'Unlock'}
+            </Button>
+          )}
+          {(step === 'preview' || step === 'restoring') && (
+            <Button
+              onClick={handleRestore}
+              disabled={step === 'restoring'}
+              className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600"
+            >
+              {step === 'restoring' ? 'Restoring...' : 'Restore'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
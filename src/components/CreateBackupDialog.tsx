@@ -0,0 +1,254 @@
+import { useState, useEffect } from 'react';
+import { Key } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { RecordType } from '../App';
+import { encryptedBackup, BackupHistoryEntry } from '../lib/storage/encryptedBackup';
+import { BackupScope, describeScope, selectBackupRecords } from '../lib/storage/backupScope';
+
+interface CreateBackupDialogProps {
+  open: boolean;
+  records: RecordType[];
+  onOpenChange: (open: boolean) => void;
+}
+
+const ALL_CASES = 'all';
+
+function describeBackup(entry: BackupHistoryEntry): string {
+  const kind = entry.kind === 'incremental' ? 'Incremental' : 'Full';
+  return `${new Date(entry.createdAt).toLocaleString()} · ${kind} · ${describeScope(entry.scope)}`;
+}
+
+/**
+ * Create a full backup of all or some records, or an incremental backup
+ * of what changed since an earlier backup
+ */
+export function CreateBackupDialog({ open, records, onOpenChange }: CreateBackupDialogProps) {
+  const [mode, setMode] = useState<'full' | 'incremental'>('full');
+  const [history, setHistory] = useState<BackupHistoryEntry[]>([]);
+  const [baseId, setBaseId] = useState('');
+  const [caseLabel, setCaseLabel] = useState(ALL_CASES);
+  const [tags, setTags] = useState<string[]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setMode('full');
+    setCaseLabel(ALL_CASES);
+    setTags([]);
+    setFrom('');
+    setTo('');
+    setPassword('');
+    setConfirmPassword('');
+    encryptedBackup.getBackupHistory().then(entries => {
+      setHistory(entries);
+      setBaseId(entries[0]?.id ?? '');
+    });
+  }, [open]);
+
+  const caseLabels = Array.from(new Set(records.flatMap(r => r.caseLabel ? [r.caseLabel] : []))).sort();
+  const usedTags = Array.from(new Set(records.flatMap(r => r.tags))).sort();
+
+  const scope: BackupScope = {
+    from: from || undefined,
+    to: to || undefined,
+    tags,
+    caseLabel: caseLabel === ALL_CASES ? undefined : caseLabel,
+  };
+  const base = mode === 'incremental' ? history.find(entry => entry.id === baseId) : undefined;
+  const selection = selectBackupRecords(records, base ? base.scope : scope, base);
+
+  const toggleTag = (tag: string) => {
+    setTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  const handleCreate = async () => {
+    if (password.length < 6) {
+      alert('Password must be at least 6 characters');
+      return;
+    }
+    if (password !== confirmPassword) {
+      alert('Passwords do not match');
+      return;
+    }
+    if (mode === 'incremental' && !base) {
+      alert('Choose the earlier backup to build on');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      await encryptedBackup.downloadBackup(password, records, base ? { baseBackupId: base.id } : { scope });
+      alert(base
+        ? 'Incremental backup downloaded. Keep it together with the backups it builds on.'
+        : 'Encrypted backup downloaded successfully!');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Backup failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create backup. Please try again.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next: boolean) => !isProcessing && onOpenChange(next)}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Key className="w-5 h-5 text-green-600" />
+            Create Encrypted Backup
+          </DialogTitle>
+          <DialogDescription>
+            Set a strong password to encrypt your backup file
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['full', 'incremental'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                disabled={isProcessing || (option === 'incremental' && history.length === 0)}
+                className={`rounded-lg border p-2 text-sm disabled:opacity-50 ${
+                  mode === option ? 'border-green-400 bg-green-50 text-green-900' : 'border-slate-200 text-slate-700'
+                }`}
+              >
+                {option === 'full' ? 'Full backup' : 'Changes only'}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'full' ? (
+            <div className="space-y-3">
+              {caseLabels.length > 0 && (
+                <div>
+                  <Label>Case</Label>
+                  <Select value={caseLabel} onValueChange={setCaseLabel} disabled={isProcessing}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_CASES}>All cases</SelectItem>
+                      {caseLabels.map(label => (
+                        <SelectItem key={label} value={label}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>From</Label>
+                  <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} disabled={isProcessing} />
+                </div>
+                <div>
+                  <Label>To</Label>
+                  <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} disabled={isProcessing} />
+                </div>
+              </div>
+              {usedTags.length > 0 && (
+                <div>
+                  <Label>Tags <span className="text-slate-500">(any of)</span></Label>
+                  <div className="flex flex-wrap gap-1.5 mt-1">
+                    {usedTags.map(tag => (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => toggleTag(tag)}
+                        disabled={isProcessing}
+                        className={`text-xs px-2 py-1 rounded-full border ${
+                          tags.includes(tag) ? 'border-green-400 bg-green-50 text-green-900' : 'border-slate-200 text-slate-600'
+                        }`}
+                      >
+                        #{tag}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div>
+              <Label>Changes Since</Label>
+              <Select value={baseId} onValueChange={setBaseId} disabled={isProcessing}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose an earlier backup" />
+                </SelectTrigger>
+                <SelectContent>
+                  {history.map(entry => (
+                    <SelectItem key={entry.id} value={entry.id}>{describeBackup(entry)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-500 mt-1">
+                Covers the same records as that backup. To restore, you will need it and every backup in between.
+              </p>
+            </div>
+          )}
+
+          <p className="text-sm text-slate-600">
+            {selection.records.length} record{selection.records.length === 1 ? '' : 's'} will be included
+            {selection.deletedRecordIds.length > 0 && `, ${selection.deletedRecordIds.length} marked as deleted`}
+          </p>
+
+          <div className="bg-green-50 rounded-lg p-3 border border-green-100">
+            <p className="text-sm text-green-900 leading-relaxed">
+              <strong>Important:</strong> Remember this password! You'll need it to restore your backup.
+              This password encrypts your data with AES-256 encryption.
+            </p>
+          </div>
+          <div>
+            <Label>Backup Password</Label>
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="At least 6 characters"
+              className="border-green-200 focus:border-green-400"
+              disabled={isProcessing}
+            />
+          </div>
+          <div>
+            <Label>Confirm Password</Label>
+            <Input
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              placeholder="Re-enter password"
+              className="border-green-200 focus:border-green-400"
+              disabled={isProcessing}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isProcessing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
+            disabled={isProcessing || (selection.records.length === 0 && selection.deletedRecordIds.length === 0)}
+          >
+            {isProcessing ? 'Creating...' : 'Download Backup'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
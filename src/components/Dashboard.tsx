@@ -1,5 +1,6 @@
 import { RecordType } from '../App';
 import { Calendar, Tag, MapPin, TrendingUp, Users, AlertCircle } from 'lucide-react';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
 
 export function Dashboard({ records, userName, isDecoyMode }: { records: RecordType[]; userName: string | null; isDecoyMode: boolean }) {
   const currentMonth = new Date();
@@ -35,6 +36,11 @@ export function Dashboard({ records, userName, isDecoyMode }: { records: RecordT
         <p className="text-slate-600">
           {isDecoyMode ? 'Personal notes and reflections' : 'Document incidents with confidence'}
         </p>
+        {!isDecoyMode && (
+          <div className="mt-3">
+            <SyncStatusIndicator />
+          </div>
+        )}
       </div>
 
       {/* Stats Grid */}
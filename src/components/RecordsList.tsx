@@ -1,9 +1,11 @@
-import { useState } from 'react';
-import { RecordType } from '../App';
-import { Search, Filter, Calendar, Tag, MapPin, Trash2, Download, Users, AlertCircle, FileText } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { RecordType, AttachmentType } from '../App';
+import { Search, Filter, Calendar, Tag, MapPin, Trash2, Download, Users, AlertCircle, FileText, ShieldCheck, ShieldAlert, Briefcase } from 'lucide-react';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
 import { pdfExport } from '../lib/pdfExport';
+import { verifyAllRecords, verifyAttachmentIntegrity, IntegrityStatus } from '../lib/security/recordIntegrity';
+import { resolveAttachmentUrls, releaseAttachmentUrls } from '../lib/storage/recordStorage';
 import {
   Dialog,
   DialogContent,
@@ -52,11 +54,13 @@ export function RecordsList({
   records,
   onDelete,
   onUpdate,
+  onExport,
   isDecoyMode,
 }: {
   records: RecordType[];
   onDelete: (id: string) => void;
   onUpdate: (id: string, updates: Partial<RecordType>) => void;
+  onExport: (ids: string[]) => void;
   isDecoyMode: boolean;
 }) {
   const [searchQuery, setSearchQuery] = useState('');
@@ -67,6 +71,59 @@ export function RecordsList({
   const [selectedRecord, setSelectedRecord] = useState<RecordType | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [recordToDelete, setRecordToDelete] = useState<string | null>(null);
+  const [integrityStatus, setIntegrityStatus] = useState<Record<string, IntegrityStatus> | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [attachmentStatus, setAttachmentStatus] = useState<Record<string, IntegrityStatus | 'checking' | 'error'>>({});
+  const [loadedFiles, setLoadedFiles] = useState<AttachmentType[]>([]);
+
+  // Lazily load attachment content when a record is opened, then re-check fingerprints
+  useEffect(() => {
+    if (!selectedRecord?.files || selectedRecord.files.length === 0) {
+      setAttachmentStatus({});
+      setLoadedFiles([]);
+      return;
+    }
+
+    let cancelled = false;
+    let resolved: AttachmentType[] = [];
+    const files = selectedRecord.files;
+    setLoadedFiles(files);
+    setAttachmentStatus(Object.fromEntries(files.map(file => [file.id, 'checking' as const])));
+
+    const loadAndVerify = async () => {
+      try {
+        resolved = await resolveAttachmentUrls(files);
+      } catch (error) {
+        console.error('Failed to load attachments:', error);
+        resolved = files;
+      }
+      if (cancelled) {
+        releaseAttachmentUrls(resolved);
+        return;
+      }
+      setLoadedFiles(resolved);
+
+      resolved.forEach(async (file) => {
+        let status: IntegrityStatus | 'error';
+        try {
+          status = await verifyAttachmentIntegrity(file);
+        } catch (error) {
+          console.error('Failed to verify attachment:', file.name, error);
+          status = 'error';
+        }
+        if (!cancelled) {
+          setAttachmentStatus(prev => ({ ...prev, [file.id]: status }));
+        }
+      });
+    };
+
+    loadAndVerify();
+
+    return () => {
+      cancelled = true;
+      releaseAttachmentUrls(resolved);
+    };
+  }, [selectedRecord]);
 
   // Get all unique tags
   const allTags = Array.from(
@@ -81,7 +138,8 @@ export function RecordsList({
         record.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
         record.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase())) ||
         (record.people && record.people.some(p => p.toLowerCase().includes(searchQuery.toLowerCase()))) ||
-        (record.location && record.location.toLowerCase().includes(searchQuery.toLowerCase()));
+        (record.location && record.location.toLowerCase().includes(searchQuery.toLowerCase())) ||
+        (record.files && record.files.some(f => f.ocrText?.toLowerCase().includes(searchQuery.toLowerCase())));
       
       const matchesTag = selectedTag === 'all' || record.tags.includes(selectedTag);
       const matchesSeverity = selectedSeverity === 'all' || record.severity?.toString() === selectedSeverity;
@@ -107,6 +165,30 @@ export function RecordsList({
     setShowDeleteDialog(true);
   };
 
+  const handleVerifyIntegrity = async () => {
+    setIsVerifying(true);
+    try {
+      const results = await verifyAllRecords(records);
+      const statusById: Record<string, IntegrityStatus> = {};
+      results.forEach(result => {
+        statusById[result.recordId] = result.status;
+      });
+      setIntegrityStatus(statusById);
+    } catch (error) {
+      console.error('Integrity verification failed:', error);
+      alert('Failed to verify record integrity. Check console for details.');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const mismatchCount = integrityStatus
+    ? Object.values(integrityStatus).filter(status => status === 'mismatch').length
+    : 0;
+  const missingCount = integrityStatus
+    ? Object.values(integrityStatus).filter(status => status === 'missing').length
+    : 0;
+
   const confirmDelete = () => {
     if (recordToDelete) {
       onDelete(recordToDelete);
@@ -125,45 +207,95 @@ export function RecordsList({
             <p className="text-slate-600">{filteredRecords.length} records found</p>
           </div>
           {!isDecoyMode && filteredRecords.length > 0 && (
-            <Button
-              onClick={async () => {
-                try {
-                  const today = new Date();
-                  const dateStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
-                  const filename = `evidence-report-${dateStr}.pdf`;
-
-                  // Convert records to PDF format
-                  const convertedRecords = filteredRecords.map(record => ({
-                    timestamp: new Date(record.dateTime).getTime(),
-                    type: record.severity ? `Severity ${record.severity}` : 'Incident',
-                    content: record.description,
-                    tags: record.tags.join(','),
-                    hash: record.contentHash || 'N/A',
-                    files: record.files || [],
-                    people: record.people,
-                    location: record.location,
-                  }));
-
-                  await pdfExport.downloadReport(convertedRecords as any, filename, {
-                    title: 'Evidence Report',
-                    includeIntegrityHash: true
-                  });
-                } catch (error) {
-                  console.error('Failed to generate PDF:', error);
-                  alert('Failed to generate PDF report. Check console for details.');
-                }
-              }}
-              size="sm"
-              variant="outline"
-              className="border-purple-200 text-purple-700 hover:bg-purple-50"
-            >
-              <Download className="w-4 h-4 mr-1" />
-              Export PDF
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                onClick={handleVerifyIntegrity}
+                size="sm"
+                variant="outline"
+                disabled={isVerifying}
+                className="border-slate-200 text-slate-700 hover:bg-slate-50"
+              >
+                <ShieldCheck className="w-4 h-4 mr-1" />
+                {isVerifying ? 'Verifying...' : 'Verify'}
+              </Button>
+              <Button
+                onClick={async () => {
+                  try {
+                    const today = new Date();
+                    const dateStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+                    const filename = `evidence-report-${dateStr}.pdf`;
+
+                    // Convert records to PDF format, loading attachment content for embedding
+                    const convertedRecords = await Promise.all(filteredRecords.map(async record => ({
+                      timestamp: new Date(record.dateTime).getTime(),
+                      type: record.severity ? `Severity ${record.severity}` : 'Incident',
+                      content: record.description,
+                      tags: record.tags.join(','),
+                      hash: record.contentHash || 'N/A',
+                      files: await resolveAttachmentUrls(record.files || []),
+                      people: record.people,
+                      location: record.location,
+                    })));
+
+                    try {
+                      await pdfExport.downloadReport(convertedRecords as any, filename, {
+                        title: 'Evidence Report',
+                        includeIntegrityHash: true
+                      });
+                    } finally {
+                      convertedRecords.forEach(record => releaseAttachmentUrls(record.files));
+                    }
+                    onExport(filteredRecords.map(record => record.id));
+                  } catch (error) {
+                    console.error('Failed to generate PDF:', error);
+                    alert('Failed to generate PDF report. Check console for details.');
+                  }
+                }}
+                size="sm"
+                variant="outline"
+                className="border-purple-200 text-purple-700 hover:bg-purple-50"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                Export PDF
+              </Button>
+            </div>
           )}
         </div>
       </div>
 
+      {/* Integrity Verification Summary */}
+      {integrityStatus && (
+        <div className={`rounded-xl p-3 mb-4 border ${
+          mismatchCount > 0 ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'
+        }`}>
+          <div className="flex items-start gap-2">
+            {mismatchCount > 0 ? (
+              <ShieldAlert className="w-4 h-4 text-red-600 mt-0.5" />
+            ) : (
+              <ShieldCheck className="w-4 h-4 text-green-600 mt-0.5" />
+            )}
+            <div className="flex-1 text-sm">
+              <p className={mismatchCount > 0 ? 'text-red-900' : 'text-green-900'}>
+                {mismatchCount > 0
+                  ? `${mismatchCount} record${mismatchCount !== 1 ? 's' : ''} failed verification: content no longer matches the stored hash`
+                  : 'All hashed records match their stored content'}
+              </p>
+              {missingCount > 0 && (
+                <p className="text-xs text-slate-600 mt-1">
+                  {missingCount} older record{missingCount !== 1 ? 's were' : ' was'} saved before hashing and cannot be verified
+                </p>
+              )}
+            </div>
+            <button
+              onClick={() => setIntegrityStatus(null)}
+              className="text-xs text-slate-500 hover:text-slate-700"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Search */}
       <div className="mb-4">
         <div className="relative">
@@ -283,6 +415,12 @@ export function RecordsList({
                       {record.severity}
                     </div>
                   )}
+                  {integrityStatus?.[record.id] === 'mismatch' && (
+                    <div className="flex items-center gap-1 text-xs px-2 py-0.5 rounded bg-red-100 text-red-700">
+                      <ShieldAlert className="w-3 h-3" />
+                      Hash mismatch
+                    </div>
+                  )}
                 </div>
                 <div className="flex gap-2">
                   <button
@@ -291,14 +429,12 @@ export function RecordsList({
                   >
                     View
                   </button>
-                  {!isDecoyMode && (
-                    <button
-                      onClick={() => handleDeleteClick(record.id)}
-                      className="text-red-600 hover:text-red-700"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                  )}
+                  <button
+                    onClick={() => handleDeleteClick(record.id)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
                 </div>
               </div>
               
@@ -412,26 +548,64 @@ export function RecordsList({
                   </div>
                 )}
 
-                {selectedRecord.files && selectedRecord.files.length > 0 && (
+                {selectedRecord.caseLabel && (
+                  <div>
+                    <h4 className="text-sm text-slate-600 mb-1">Case</h4>
+                    <div className="flex items-center gap-1 text-slate-900">
+                      <Briefcase className="w-4 h-4" />
+                      {selectedRecord.caseLabel}
+                    </div>
+                  </div>
+                )}
+
+                {loadedFiles.length > 0 && (
                   <div>
                     <h4 className="text-sm text-slate-600 mb-2">Evidence Attachments</h4>
                     <div className="space-y-2">
-                      {selectedRecord.files.map((file) => (
+                      {loadedFiles.map((file) => (
                         <div
                           key={file.id}
                           className="flex items-center justify-between bg-purple-50 rounded-lg px-3 py-2 border border-purple-100"
                         >
-                          <div className="flex items-center gap-2">
-                            <span className="text-sm text-slate-700">{file.name}</span>
-                            <span className="text-xs text-slate-500">({file.type})</span>
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm text-slate-700">{file.name}</span>
+                              <span className="text-xs text-slate-500">({file.type})</span>
+                            </div>
+                            {attachmentStatus[file.id] === 'valid' && (
+                              <div className="flex items-center gap-1 text-xs text-green-700 mt-0.5">
+                                <ShieldCheck className="w-3 h-3" />
+                                Unaltered since capture
+                              </div>
+                            )}
+                            {attachmentStatus[file.id] === 'mismatch' && (
+                              <div className="flex items-center gap-1 text-xs text-red-600 mt-0.5">
+                                <ShieldAlert className="w-3 h-3" />
+                                File does not match its original fingerprint
+                              </div>
+                            )}
+                            {attachmentStatus[file.id] === 'checking' && (
+                              <div className="text-xs text-slate-500 mt-0.5">Checking fingerprint...</div>
+                            )}
+                            {attachmentStatus[file.id] === 'missing' && (
+                              <div className="text-xs text-slate-500 mt-0.5">No fingerprint recorded</div>
+                            )}
+                            {attachmentStatus[file.id] === 'error' && (
+                              <div className="text-xs text-slate-500 mt-0.5">Could not read file to verify</div>
+                            )}
+                            {file.fileHash && (
+                              <div className="font-mono text-xs text-slate-400 mt-0.5">SHA-256: {file.fileHash.slice(0, 16)}...</div>
+                            )}
                           </div>
-                          <a
-                            href={file.url}
-                            download={file.name}
-                            className="text-purple-600 hover:text-purple-700 text-sm"
-                          >
-                            <Download className="w-4 h-4" />
-                          </a>
+                          {file.url && (
+                            <a
+                              href={file.url}
+                              download={file.name}
+                              className="text-purple-600 hover:text-purple-700 text-sm"
+                            >
+                              <Download className="w-4 h-4" />
+                            </a>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -446,6 +620,12 @@ export function RecordsList({
                   {selectedRecord.contentHash && (
                     <div className="font-mono text-xs">Hash: {selectedRecord.contentHash.slice(0, 16)}...</div>
                   )}
+                  {integrityStatus?.[selectedRecord.id] === 'mismatch' && (
+                    <div className="flex items-center gap-1 text-red-600">
+                      <ShieldAlert className="w-3 h-3" />
+                      Content no longer matches the stored hash
+                    </div>
+                  )}
                 </div>
               </div>
 
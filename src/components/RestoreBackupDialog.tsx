@@ -0,0 +1,277 @@
+import { useState, useEffect, useRef } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { RecordType } from '../App';
+import { encryptedBackup, BackupData } from '../lib/storage/encryptedBackup';
+import { RestoreMode, RestorePlan, SKIP_REASON_LABELS, planRestore } from '../lib/storage/backupRestore';
+import { recordStorage } from '../lib/storage/recordStorage';
+
+interface RestoreBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = 'select' | 'preview';
+
+const MODES: { mode: RestoreMode; title: string; description: string }[] = [
+  {
+    mode: 'merge',
+    title: 'Merge',
+    description: 'Add records from the backup and update older copies. Nothing on this device is deleted.',
+  },
+  {
+    mode: 'importAsNew',
+    title: 'Import as new',
+    description: 'Add every backup record as a separate new record, except exact duplicates.',
+  },
+  {
+    mode: 'replace',
+    title: 'Replace',
+    description: 'Make this device match the backup exactly. Records not in the backup are deleted.',
+  },
+];
+
+function summarize(record: RecordType): string {
+  const date = new Date(record.dateTime).toLocaleDateString();
+  const text = record.description.length > 60 ? `${record.description.slice(0, 60)}…` : record.description;
+  return `${date} · ${text || '(no description)'}`;
+}
+
+function planRows(plan: RestorePlan): { key: string; record: RecordType; status: string; tone: string }[] {
+  return [
+    ...plan.added.map(record => ({ key: `a-${record.id}`, record, status: 'Added', tone: 'text-green-700' })),
+    ...plan.overwritten.map(({ restored }) => ({ key: `o-${restored.id}`, record: restored, status: 'Overwrites', tone: 'text-amber-700' })),
+    ...plan.removed.map(record => ({ key: `r-${record.id}`, record, status: 'Deleted', tone: 'text-red-700' })),
+    ...plan.skipped.map(({ record, reason }) => ({ key: `s-${record.id}`, record, status: SKIP_REASON_LABELS[reason], tone: 'text-slate-500' })),
+  ];
+}
+
+/**
+ * Restore an encrypted backup, choosing how it combines with the records
+ * already on this device after previewing the outcome
+ */
+export function RestoreBackupDialog({ open, onOpenChange }: RestoreBackupDialogProps) {
+  const [step, setStep] = useState<Step>('select');
+  const [files, setFiles] = useState<File[]>([]);
+  const [password, setPassword] = useState('');
+  const [backupData, setBackupData] = useState<BackupData | null>(null);
+  const [plans, setPlans] = useState<Record<RestoreMode, RestorePlan> | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setStep('select');
+    setFiles([]);
+    setPassword('');
+    setBackupData(null);
+    setPlans(null);
+    setMode('merge');
+  }, [open]);
+
+  const handleUnlock = async () => {
+    if (files.length === 0) {
+      alert('Please select a backup file');
+      return;
+    }
+    if (!password) {
+      alert('Please enter backup password');
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const data = await encryptedBackup.restoreChain(password, files);
+      const localRecords = await recordStorage.getRecords();
+      setBackupData(data);
+      setPlans({
+        merge: planRestore(data.records, localRecords, 'merge'),
+        importAsNew: planRestore(data.records, localRecords, 'importAsNew'),
+        replace: planRestore(data.records, localRecords, 'replace'),
+      });
+      setStep('preview');
+    } catch (error) {
+      console.error('Restore failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to restore backup. Please check your password and try again.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backupData || !plans) return;
+    const plan = plans[mode];
+    if (mode === 'replace' && plan.removed.length > 0
+      && !confirm(`${plan.removed.length} record${plan.removed.length === 1 ? '' : 's'} on this device will be permanently deleted. Continue?`)) {
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      await encryptedBackup.applyBackup(backupData, plan);
+      alert(`Backup restored: ${plan.added.length} added, ${plan.overwritten.length} updated, ${plan.skipped.length} skipped.`);
+      window.location.reload();
+    } catch (error) {
+      console.error('Restore failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to restore backup.');
+      setIsProcessing(false);
+    }
+  };
+
+  const plan = plans?.[mode];
+  const rows = plan ? planRows(plan) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={(next: boolean) => !isProcessing && onOpenChange(next)}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="w-5 h-5 text-blue-600" />
+            Restore from Backup
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'select'
+              ? 'Select your encrypted backup file and enter the password. To restore incremental backups, select them together with the full backup they build on.'
+              : `Backup from ${new Date(backupData!.exportDate).toLocaleString()} with ${backupData!.records.length} records and ${backupData!.attachments?.length ?? 0} attachments. Choose how to restore it.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'select' ? (
+          <div className="space-y-4">
+            <div>
+              <Label>Backup File</Label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".encrypted,.json"
+                multiple
+                onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+                className="hidden"
+                disabled={isProcessing}
+              />
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                variant="outline"
+                className="w-full"
+                disabled={isProcessing}
+              >
+                {files.length === 0
+                  ? 'Choose Backup Files'
+                  : files.length === 1 ? files[0].name : `${files.length} files selected`}
+              </Button>
+            </div>
+            <div>
+              <Label>Backup Password</Label>
+              <Input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Enter backup password"
+                className="border-blue-200 focus:border-blue-400"
+                disabled={isProcessing}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {MODES.map(option => (
+              <button
+                key={option.mode}
+                type="button"
+                onClick={() => setMode(option.mode)}
+                disabled={isProcessing}
+                className={`w-full text-left border rounded-lg p-3 ${
+                  mode === option.mode ? 'border-blue-400 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                <p className="text-sm text-slate-900">{option.title}</p>
+                <p className="text-xs text-slate-500">{option.description}</p>
+              </button>
+            ))}
+
+            {plan && (
+              <>
+                <div className="grid grid-cols-4 gap-2 text-center">
+                  <div className="bg-green-50 rounded-lg p-2">
+                    <p className="text-lg text-green-700">{plan.added.length}</p>
+                    <p className="text-xs text-slate-600">Added</p>
+                  </div>
+                  <div className="bg-amber-50 rounded-lg p-2">
+                    <p className="text-lg text-amber-700">{plan.overwritten.length}</p>
+                    <p className="text-xs text-slate-600">Overwritten</p>
+                  </div>
+                  <div className="bg-slate-50 rounded-lg p-2">
+                    <p className="text-lg text-slate-700">{plan.skipped.length}</p>
+                    <p className="text-xs text-slate-600">Skipped</p>
+                  </div>
+                  <div className="bg-red-50 rounded-lg p-2">
+                    <p className="text-lg text-red-700">{plan.removed.length}</p>
+                    <p className="text-xs text-slate-600">Deleted</p>
+                  </div>
+                </div>
+
+                {rows.length > 0 && (
+                  <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-56 overflow-y-auto">
+                    {rows.map(row => (
+                      <div key={row.key} className="px-3 py-2 flex items-center justify-between gap-3">
+                        <p className="text-xs text-slate-700 truncate">{summarize(row.record)}</p>
+                        <span className={`text-xs flex-shrink-0 ${row.tone}`}>{row.status}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {mode === 'replace' && plan.removed.length > 0 && (
+                  <div className="bg-yellow-50 rounded-lg p-3 border border-yellow-200">
+                    <p className="text-sm text-yellow-900 leading-relaxed">
+                      <strong>Warning:</strong> Records created since this backup will be deleted.
+                      Consider creating a backup of your current data first.
+                    </p>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => step === 'preview' ? setStep('select') : onOpenChange(false)}
+            disabled={isProcessing}
+          >
+            {step === 'preview' ? 'Back' : 'Cancel'}
+          </Button>
+          {step === 'select' ? (
+            <Button
+              onClick={handleUnlock}
+              className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600"
+              disabled={isProcessing || files.length === 0}
+            >
+              {isProcessing ? 'Decrypting...' : 'Continue'}
+            </Button>
+          ) : (
+            <Button
+              onClick={handleRestore}
+              className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600"
+              disabled={isProcessing || !plan}
+            >
+              {isProcessing ? 'Restoring...' : 'Restore Backup'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
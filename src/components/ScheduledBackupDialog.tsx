@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react';
+import { CalendarClock, Download } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  scheduledBackupService,
+  BackupFrequency,
+  ScheduledBackupStatus,
+  StoredBackupFile,
+} from '../lib/storage/scheduledBackupService';
+
+interface ScheduledBackupDialogProps {
+  open: boolean;
+  status: ScheduledBackupStatus | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const KEEP_OPTIONS = [3, 5, 7, 10, 14];
+
+const DESTINATION_NOTES = {
+  device: 'Backups are saved to Documents/RecordKeeper Backups on this device. Copy them elsewhere to protect against losing the device.',
+  browser: 'Backups are kept in this browser\'s private storage. Save copies elsewhere to protect against clearing browser data or losing the device.',
+  download: 'This browser cannot store files privately, so each backup is downloaded when it runs.',
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Turn automatic encrypted backups on or off and manage the kept files
+ */
+export function ScheduledBackupDialog({ open, status, onOpenChange }: ScheduledBackupDialogProps) {
+  const [frequency, setFrequency] = useState<BackupFrequency>('daily');
+  const [keep, setKeep] = useState(7);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [files, setFiles] = useState<StoredBackupFile[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const enabled = !!status?.enabled;
+
+  useEffect(() => {
+    if (!open) return;
+    setFrequency(status?.config?.frequency ?? 'daily');
+    setKeep(status?.config?.keep ?? 7);
+    setPassword('');
+    setConfirmPassword('');
+    scheduledBackupService.listBackups().then(setFiles).catch(() => setFiles([]));
+  }, [open, status?.enabled, status?.lastSuccessAt]);
+
+  const handleSave = async () => {
+    // The password is only required to turn backups on or to change it
+    if (!enabled || password) {
+      if (password.length < 6) {
+        alert('Password must be at least 6 characters');
+        return;
+      }
+      if (password !== confirmPassword) {
+        alert('Passwords do not match');
+        return;
+      }
+    }
+
+    setIsProcessing(true);
+    try {
+      if (!enabled || password) {
+        await scheduledBackupService.enable(password, { frequency, keep });
+        alert('Automatic backups are on. The first backup has been saved.');
+      } else {
+        await scheduledBackupService.updateSchedule({ frequency, keep });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save backup schedule:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save backup schedule');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleBackUpNow = async () => {
+    setIsProcessing(true);
+    try {
+      await scheduledBackupService.runNow();
+      setFiles(await scheduledBackupService.listBackups());
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Backup failed');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleTurnOff = async () => {
+    if (!confirm('Turn off automatic backups? Backups already saved are kept.')) return;
+    await scheduledBackupService.disable();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next: boolean) => !isProcessing && onOpenChange(next)}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-green-600" />
+            Automatic Backups
+          </DialogTitle>
+          <DialogDescription>
+            {DESTINATION_NOTES[status?.destination ?? 'download']}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>How Often</Label>
+              <Select value={frequency} onValueChange={(v: string) => setFrequency(v as BackupFrequency)} disabled={isProcessing}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Keep</Label>
+              <Select value={String(keep)} onValueChange={(v: string) => setKeep(Number(v))} disabled={isProcessing}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {KEEP_OPTIONS.map(count => (
+                    <SelectItem key={count} value={String(count)}>Last {count}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label>{enabled ? 'New Backup Password (optional)' : 'Backup Password'}</Label>
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={enabled ? 'Leave empty to keep the current password' : 'At least 6 characters'}
+              className="border-green-200 focus:border-green-400"
+              disabled={isProcessing}
+            />
+          </div>
+          {(!enabled || password) && (
+            <div>
+              <Label>Confirm Password</Label>
+              <Input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="Re-enter password"
+                className="border-green-200 focus:border-green-400"
+                disabled={isProcessing}
+              />
+            </div>
+          )}
+          <p className="text-xs text-slate-500">
+            The password itself is not stored. You will need it to restore any of these backups.
+          </p>
+
+          {enabled && files.length > 0 && (
+            <div>
+              <Label>Saved Backups</Label>
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 mt-1">
+                {files.map(file => (
+                  <div key={file.name} className="px-3 py-2 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-xs text-slate-700 truncate">{file.name}</p>
+                      <p className="text-xs text-slate-400">{formatSize(file.size)}</p>
+                    </div>
+                    {status?.destination === 'browser' && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => scheduledBackupService.exportBackup(file.name)}
+                        disabled={isProcessing}
+                      >
+                        <Download className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {enabled && (
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={handleBackUpNow} disabled={isProcessing}>
+                {status?.running ? 'Backing Up...' : 'Back Up Now'}
+              </Button>
+              <Button variant="outline" className="flex-1 text-red-600" onClick={handleTurnOff} disabled={isProcessing}>
+                Turn Off
+              </Button>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isProcessing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
+            disabled={isProcessing}
+          >
+            {isProcessing ? 'Saving...' : enabled ? 'Save' : 'Turn On'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
 import { RecordType } from '../App';
-import { Lock, Download, Trash2, Shield, FileText, Upload, Key, Cloud, RefreshCw } from 'lucide-react';
+import { Lock, Download, Trash2, Shield, FileText, Upload, Key, Cloud, RefreshCw, History, Server, KeyRound, CalendarClock } from 'lucide-react';
 import { Button } from './ui/button';
 import { Switch } from './ui/switch';
 import { Label } from './ui/label';
@@ -13,15 +13,40 @@ import {
   DialogHeader,
   DialogTitle,
 } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { DEFAULT_TAXONOMY } from '../lib/hashtagTaxonomy';
 import { generateLawyerReadyReport } from '../lib/reportGenerator';
 import { pdfExport } from '../lib/pdfExport';
 import { indexedDBStorage } from '../lib/storage/indexedDBStorage';
+import { recordStorage, resolveAttachmentUrls, releaseAttachmentUrls } from '../lib/storage/recordStorage';
 import { encryptedBackup } from '../lib/storage/encryptedBackup';
 import { authService } from '../lib/cloud/authService';
-import { cloudSyncService } from '../lib/cloud/cloudSyncService';
+import { cloudSyncService, SyncProgress, describeRejectedAttachments } from '../lib/cloud/cloudSyncService';
+import { autoSyncService } from '../lib/cloud/autoSyncService';
 import { isSupabaseConfigured } from '../lib/cloud/supabaseClient';
 import { CloudAuthDialog } from './CloudAuthDialog';
+import { SyncConflictDialog } from './SyncConflictDialog';
+import { SyncConflict, ConflictResolutions } from '../lib/cloud/syncMerge';
+import { SyncPassphraseDialog, SyncPassphraseMode } from './SyncPassphraseDialog';
+import { SyncHistoryDialog } from './SyncHistoryDialog';
+import { SyncProviderDialog } from './SyncProviderDialog';
+import { CreateBackupDialog } from './CreateBackupDialog';
+import { RestoreBackupDialog } from './RestoreBackupDialog';
+import { ScheduledBackupDialog } from './ScheduledBackupDialog';
+import { scheduledBackupService, ScheduledBackupStatus } from '../lib/storage/scheduledBackupService';
+import { decoyStore } from '../lib/storage/decoyStore';
+import { syncProviderManager } from '../lib/cloud/syncProviderManager';
+import { SyncProvider, SyncProviderConfig } from '../lib/cloud/syncProvider';
+import { syncKeyManager, SyncKeyEnvelope } from '../lib/cloud/syncKeyManager';
+import { pinSecurity, PasscodeFormat, PASSCODE_FORMAT_LABELS, WIPE_THRESHOLD_OPTIONS } from '../lib/security/pinSecurity';
+import { biometricUnlock } from '../lib/security/biometricUnlock';
+import { autoLockService, AutoLockConfig, AUTO_LOCK_MINUTE_OPTIONS } from '../lib/security/autoLockService';
+
+const SYNC_PHASE_LABELS: Record<SyncProgress['phase'], string> = {
+  downloading: 'Downloading',
+  uploading: 'Uploading',
+  attachments: 'Attachments',
+};
 
 function formatDate(dateString: string) {
   const date = new Date(dateString);
@@ -37,10 +62,50 @@ function formatDate(dateString: string) {
   return `${month} ${day}, ${year} • ${hours}:${minutesStr} ${ampm}`;
 }
 
+const PASSCODE_PLACEHOLDERS: Record<PasscodeFormat, string> = {
+  pin4: 'Enter 4-digit PIN',
+  numeric: 'At least 6 digits',
+  alphanumeric: 'At least 6 characters',
+};
+
+/**
+ * Password field that only accepts what the passcode format allows
+ */
+function PasscodeInput({
+  format,
+  value,
+  onChange,
+  placeholder,
+  className,
+}: {
+  format: PasscodeFormat;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  className?: string;
+}) {
+  const numeric = format !== 'alphanumeric';
+  return (
+    <Input
+      type="password"
+      inputMode={numeric ? 'numeric' : 'text'}
+      autoComplete="off"
+      maxLength={format === 'pin4' ? 4 : undefined}
+      value={value}
+      onChange={(e) => onChange(numeric ? e.target.value.replace(/\D/g, '') : e.target.value)}
+      placeholder={placeholder}
+      className={className}
+    />
+  );
+}
+
 export function SettingsScreen({
   records,
-  pin,
-  decoyPin,
+  onExport,
+  onRecoverRecords,
+  hasPin,
+  hasDecoyPin,
+  passcodeFormat,
   userName,
   onPinChange,
   onDecoyPinChange,
@@ -48,35 +113,64 @@ export function SettingsScreen({
   isDecoyMode,
 }: {
   records: RecordType[];
-  pin: string | null;
-  decoyPin: string | null;
+  onExport: (ids: string[]) => void;
+  onRecoverRecords: (records: RecordType[]) => void;
+  hasPin: boolean;
+  hasDecoyPin: boolean;
+  passcodeFormat: PasscodeFormat;
   userName: string | null;
-  onPinChange: (pin: string) => void;
-  onDecoyPinChange: (pin: string) => void;
-  onLockToggle: (enabled: boolean) => void;
+  onPinChange: (pin: string, format: PasscodeFormat) => Promise<void>;
+  onDecoyPinChange: (pin: string) => Promise<void>;
+  /** currentPin is required when turning the lock on */
+  onLockToggle: (enabled: boolean, currentPin?: string) => Promise<void>;
   isDecoyMode: boolean;
 }) {
   const [showPinDialog, setShowPinDialog] = useState(false);
   const [showDecoyPinDialog, setShowDecoyPinDialog] = useState(false);
   const [newPin, setNewPin] = useState('');
   const [confirmPin, setConfirmPin] = useState('');
+  const [newPinFormat, setNewPinFormat] = useState<PasscodeFormat>(passcodeFormat);
   const [lockEnabled, setLockEnabled] = useState(false);
+  /** What the main PIN is being confirmed for */
+  const [pinPrompt, setPinPrompt] = useState<'lock' | 'biometric' | null>(null);
+  const [promptPin, setPromptPin] = useState('');
+  const [biometricSupported, setBiometricSupported] = useState(false);
+  const [biometricEnabled, setBiometricEnabled] = useState(false);
+  const [biometricLabel, setBiometricLabel] = useState('Biometric');
+  const [autoLock, setAutoLock] = useState<AutoLockConfig | null>(null);
+  /** What the decoy Security rows show; never saved */
+  const [decoySecurity, setDecoySecurity] = useState({ lockEnabled: true, idleMinutes: 5 as number | null, lockOnBackground: true });
+  const [decoyEntryCount, setDecoyEntryCount] = useState<number | null>(null);
+  const [wipeThreshold, setWipeThreshold] = useState<number | null>(null);
   const [showClearDialog, setShowClearDialog] = useState(false);
   const [showExportDialog, setShowExportDialog] = useState(false);
   const [caseLabel, setCaseLabel] = useState('');
   const [taxonomy, setTaxonomy] = useState(DEFAULT_TAXONOMY);
   const [showBackupDialog, setShowBackupDialog] = useState(false);
   const [showRestoreDialog, setShowRestoreDialog] = useState(false);
-  const [backupPassword, setBackupPassword] = useState('');
-  const [confirmBackupPassword, setConfirmBackupPassword] = useState('');
-  const [restorePassword, setRestorePassword] = useState('');
-  const [restoreFile, setRestoreFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showRekeyDialog, setShowRekeyDialog] = useState(false);
+  const [rekeyFile, setRekeyFile] = useState<File | null>(null);
+  const [rekeyCurrentPassword, setRekeyCurrentPassword] = useState('');
+  const [rekeyNewPassword, setRekeyNewPassword] = useState('');
+  const [rekeyConfirmPassword, setRekeyConfirmPassword] = useState('');
+  const rekeyFileInputRef = useRef<HTMLInputElement>(null);
+  const [showScheduleDialog, setShowScheduleDialog] = useState(false);
+  const [backupSchedule, setBackupSchedule] = useState<ScheduledBackupStatus | null>(null);
   const [showCloudAuthDialog, setShowCloudAuthDialog] = useState(false);
   const [cloudUser, setCloudUser] = useState<string | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [lastSyncTime, setLastSyncTime] = useState<string | null>(null);
+  const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(null);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[] | null>(null);
+  const conflictResolverRef = useRef<((resolutions: ConflictResolutions | null) => void) | null>(null);
+  const [showPassphraseDialog, setShowPassphraseDialog] = useState(false);
+  const [passphraseMode, setPassphraseMode] = useState<SyncPassphraseMode>('create');
+  const [keyEnvelope, setKeyEnvelope] = useState<SyncKeyEnvelope | null>(null);
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
+  const [showProviderDialog, setShowProviderDialog] = useState(false);
+  const [syncProvider, setSyncProvider] = useState<SyncProvider | null>(null);
+  const [syncProviderConfig, setSyncProviderConfig] = useState<SyncProviderConfig | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState(() => autoSyncService.getStatus().lastSyncedAt);
 
   useEffect(() => {
     const loadSettings = async () => {
@@ -105,6 +199,21 @@ export function SettingsScreen({
         }
       }
 
+      // Sync settings are encrypted and stay unreadable in decoy mode
+      if (isDecoyMode) return;
+
+      setWipeThreshold(await pinSecurity.getWipeThreshold());
+      setAutoLock(await autoLockService.getConfig());
+      setDecoyEntryCount(await decoyStore.count());
+      if (await biometricUnlock.isSupported()) {
+        setBiometricSupported(true);
+        setBiometricEnabled(await biometricUnlock.isEnabled());
+        setBiometricLabel(await biometricUnlock.getLabel());
+      }
+
+      setSyncProviderConfig(await syncProviderManager.getConfig());
+      setSyncProvider(await syncProviderManager.getProvider());
+
       // Check for cloud user
       if (isSupabaseConfigured) {
         const user = await authService.getCurrentUser();
@@ -115,55 +224,168 @@ export function SettingsScreen({
     };
 
     loadSettings();
+
+    return autoSyncService.subscribe(status => setLastSyncedAt(status.lastSyncedAt));
+  }, []);
+
+  useEffect(() => {
+    if (isDecoyMode) return;
+    scheduledBackupService.getStatus().then(setBackupSchedule);
+    return scheduledBackupService.subscribe(setBackupSchedule);
   }, []);
 
-  const handleSetPin = () => {
-    if (newPin.length !== 4 || !/^\d+$/.test(newPin)) {
-      alert('PIN must be 4 digits');
+  const resetPinDialogs = () => {
+    setShowPinDialog(false);
+    setShowDecoyPinDialog(false);
+    setNewPin('');
+    setConfirmPin('');
+  };
+
+  const handleSetPin = async () => {
+    const invalid = pinSecurity.validate(newPin, newPinFormat);
+    if (invalid) {
+      alert(invalid);
       return;
     }
     if (newPin !== confirmPin) {
       alert('PINs do not match');
       return;
     }
-    if (decoyPin && newPin === decoyPin) {
+    if (hasDecoyPin && await pinSecurity.matches('decoy', newPin)) {
       alert('Main PIN cannot be the same as decoy PIN');
       return;
     }
-    onPinChange(newPin);
-    setShowPinDialog(false);
-    setNewPin('');
-    setConfirmPin('');
-    alert('Main PIN set successfully');
+    if (hasDecoyPin && newPinFormat !== passcodeFormat &&
+        !confirm('Changing the PIN type removes your decoy PIN. You can set up a new one afterwards. Continue?')) {
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      await onPinChange(newPin, newPinFormat);
+      resetPinDialogs();
+      alert('Main PIN set successfully');
+    } catch (error) {
+      console.error('Failed to save PIN:', error);
+      alert('Failed to save PIN. Please try again.');
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
-  const handleSetDecoyPin = () => {
-    if (newPin.length !== 4 || !/^\d+$/.test(newPin)) {
-      alert('PIN must be 4 digits');
+  const handleSetDecoyPin = async () => {
+    const invalid = pinSecurity.validate(newPin, passcodeFormat);
+    if (invalid) {
+      alert(invalid);
       return;
     }
     if (newPin !== confirmPin) {
       alert('PINs do not match');
       return;
     }
-    if (pin && newPin === pin) {
+    if (await pinSecurity.matches('main', newPin)) {
       alert('Decoy PIN cannot be the same as main PIN');
       return;
     }
-    onDecoyPinChange(newPin);
-    setShowDecoyPinDialog(false);
-    setNewPin('');
-    setConfirmPin('');
-    alert('Decoy PIN set successfully. This PIN will show a blank journal for safety.');
+
+    setIsProcessing(true);
+    try {
+      await onDecoyPinChange(newPin);
+      resetPinDialogs();
+      alert('Decoy PIN set successfully. This PIN will open an everyday journal instead of your records.');
+    } catch (error) {
+      console.error('Failed to save decoy PIN:', error);
+      alert('Failed to save decoy PIN. Please try again.');
+    } finally {
+      setIsProcessing(false);
+    }
   };
 
-  const handleLockToggle = (enabled: boolean) => {
-    if (enabled && !pin) {
+  const handleLockToggle = async (enabled: boolean) => {
+    if (enabled && !hasPin) {
       alert('Please set a PIN first');
       return;
     }
-    setLockEnabled(enabled);
-    onLockToggle(enabled);
+    // Turning the lock on encrypts storage under the PIN, so ask for it
+    if (enabled) {
+      setPromptPin('');
+      setPinPrompt('lock');
+      return;
+    }
+    setLockEnabled(false);
+    setBiometricEnabled(false);
+    await onLockToggle(false);
+  };
+
+  const handleBiometricToggle = async (enabled: boolean) => {
+    if (enabled) {
+      setPromptPin('');
+      setPinPrompt('biometric');
+      return;
+    }
+    await biometricUnlock.disable();
+    setBiometricEnabled(false);
+  };
+
+  const handleConfirmPromptPin = async () => {
+    setIsProcessing(true);
+    try {
+      if (!(await pinSecurity.matches('main', promptPin))) {
+        alert('Incorrect PIN');
+        return;
+      }
+      if (pinPrompt === 'lock') {
+        await onLockToggle(true, promptPin);
+        setLockEnabled(true);
+      } else {
+        await biometricUnlock.enable(promptPin);
+        setBiometricEnabled(true);
+      }
+      setPinPrompt(null);
+      setPromptPin('');
+    } catch (error) {
+      console.error('Failed to confirm PIN:', error);
+      alert(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleAutoLockChange = async (change: Partial<AutoLockConfig>) => {
+    if (!autoLock) return;
+    const next = { ...autoLock, ...change };
+    setAutoLock(next);
+    try {
+      await autoLockService.setConfig(next);
+    } catch (error) {
+      console.error('Failed to save auto-lock setting:', error);
+      alert('Failed to save auto-lock setting');
+    }
+  };
+
+  const handleResetDecoyJournal = async () => {
+    if (decoyEntryCount && !confirm('Replace the decoy journal, including entries added with the decoy PIN, with new sample entries?')) {
+      return;
+    }
+    setIsProcessing(true);
+    try {
+      await decoyStore.reset();
+      setDecoyEntryCount(await decoyStore.count());
+    } catch (error) {
+      console.error('Failed to reset decoy journal:', error);
+      alert('Failed to create sample entries');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleWipeThresholdChange = async (value: string) => {
+    const threshold = value === 'off' ? null : Number(value);
+    if (threshold && !confirm(`After ${threshold} wrong PINs in a row, every record, attachment and setting on this device will be erased. Backups are not affected. Turn this on?`)) {
+      return;
+    }
+    await pinSecurity.setWipeThreshold(threshold);
+    setWipeThreshold(threshold);
   };
 
   const handleExportPDF = () => {
@@ -179,23 +401,28 @@ export function SettingsScreen({
     const filename = `${caseLabelSlug || 'evidence-report'}-${dateStr}.pdf`;
 
     try {
-      // Convert RecordType to format expected by PDF export
-      const convertedRecords = records.map(record => ({
+      // Convert RecordType to format expected by PDF export, loading attachment content
+      const convertedRecords = await Promise.all(records.map(async record => ({
         timestamp: new Date(record.dateTime).getTime(),
         type: record.severity ? `Severity ${record.severity}` : 'Incident',
         content: record.description,
         tags: record.tags.join(','),
         hash: record.contentHash || 'N/A',
-        files: record.files || [],
+        files: await resolveAttachmentUrls(record.files || []),
         people: record.people,
         location: record.location,
-      }));
+      })));
 
       // Use PDF export service with images embedded
-      await pdfExport.downloadReport(convertedRecords as any, filename, {
-        title: label,
-        includeIntegrityHash: true
-      });
+      try {
+        await pdfExport.downloadReport(convertedRecords as any, filename, {
+          title: label,
+          includeIntegrityHash: true
+        });
+      } finally {
+        convertedRecords.forEach(record => releaseAttachmentUrls(record.files));
+      }
+      onExport(records.map(record => record.id));
 
       setShowExportDialog(false);
       setCaseLabel('');
@@ -222,14 +449,29 @@ export function SettingsScreen({
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
+    onExport(records.map(record => record.id));
   };
 
   const handleClearData = async () => {
+    // Someone using the decoy PIN can only ever clear the decoy journal
+    if (isDecoyMode) {
+      try {
+        await decoyStore.saveRecords([]);
+      } catch (error) {
+        console.error('Failed to clear data:', error);
+      }
+      setShowClearDialog(false);
+      window.location.reload();
+      return;
+    }
+
     try {
-      // Clear IndexedDB
-      await indexedDBStorage.clearRecords();
-      await indexedDBStorage.saveSetting('recordKeeper_pin', null);
+      // Clear stored records and settings
+      await recordStorage.clearRecords();
+      await pinSecurity.clearPin('main');
+      await biometricUnlock.disable();
       await indexedDBStorage.saveSetting('recordKeeper_lockEnabled', 'false');
+      await indexedDBStorage.setUnlockPin(null);
 
       // Also clear localStorage as fallback
       localStorage.removeItem('recordKeeper_records');
@@ -250,6 +492,9 @@ export function SettingsScreen({
   };
 
   const handleResetWelcome = async () => {
+    // The welcome flag belongs to the real app, so a decoy session never touches it
+    if (isDecoyMode) return;
+
     try {
       // Clear welcome settings from IndexedDB
       await indexedDBStorage.saveSetting('recordKeeper_welcomeCompleted', null);
@@ -269,57 +514,36 @@ export function SettingsScreen({
     }
   };
 
-  const handleCreateBackup = async () => {
-    if (backupPassword.length < 6) {
-      alert('Password must be at least 6 characters');
-      return;
-    }
-    if (backupPassword !== confirmBackupPassword) {
-      alert('Passwords do not match');
-      return;
-    }
-
-    setIsProcessing(true);
-    try {
-      await encryptedBackup.downloadBackup(backupPassword, records);
-      alert('Encrypted backup downloaded successfully!');
-      setShowBackupDialog(false);
-      setBackupPassword('');
-      setConfirmBackupPassword('');
-    } catch (error) {
-      console.error('Backup failed:', error);
-      alert('Failed to create backup. Please try again.');
-    } finally {
-      setIsProcessing(false);
-    }
+  const closeRekeyDialog = () => {
+    setShowRekeyDialog(false);
+    setRekeyFile(null);
+    setRekeyCurrentPassword('');
+    setRekeyNewPassword('');
+    setRekeyConfirmPassword('');
   };
 
-  const handleRestoreBackup = async () => {
-    if (!restoreFile) {
+  const handleChangeBackupPassword = async () => {
+    if (!rekeyFile) {
       alert('Please select a backup file');
       return;
     }
-    if (!restorePassword) {
-      alert('Please enter backup password');
+    if (rekeyNewPassword.length < 6) {
+      alert('Password must be at least 6 characters');
+      return;
+    }
+    if (rekeyNewPassword !== rekeyConfirmPassword) {
+      alert('Passwords do not match');
       return;
     }
 
     setIsProcessing(true);
     try {
-      const backupData = await encryptedBackup.restoreFromFile(restorePassword, restoreFile);
-      await encryptedBackup.applyBackup(backupData);
-      alert(`Successfully restored ${backupData.records.length} records from backup!`);
-      setShowRestoreDialog(false);
-      setRestorePassword('');
-      setRestoreFile(null);
-      window.location.reload();
+      await encryptedBackup.downloadRekeyedBackup(rekeyFile, rekeyCurrentPassword, rekeyNewPassword);
+      alert('Backup re-encrypted with the new password and downloaded. You can delete the old file.');
+      closeRekeyDialog();
     } catch (error) {
-      console.error('Restore failed:', error);
-      if (error instanceof Error) {
-        alert(error.message);
-      } else {
-        alert('Failed to restore backup. Please check your password and try again.');
-      }
+      console.error('Changing backup password failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to change backup password. Please try again.');
     } finally {
       setIsProcessing(false);
     }
@@ -332,31 +556,80 @@ export function SettingsScreen({
     handleCloudSync();
   };
 
+  const handleConflictsResolved = (resolutions: ConflictResolutions | null) => {
+    setSyncConflicts(null);
+    conflictResolverRef.current?.(resolutions);
+    conflictResolverRef.current = null;
+  };
+
+  const handleProviderSaved = async (config: SyncProviderConfig) => {
+    setSyncProviderConfig(config);
+    setSyncProvider(await syncProviderManager.getProvider());
+    // Continue straight into setting up or unlocking sync with the new destination
+    if (config.type === 'supabase' && !cloudUser) {
+      setShowCloudAuthDialog(true);
+    } else {
+      handleCloudSync();
+    }
+  };
+
+  const handleStopSyncing = async () => {
+    await cloudSyncService.switchProvider(null);
+    await syncKeyManager.clear();
+    setSyncProviderConfig(null);
+    setSyncProvider(null);
+    alert('This device no longer syncs. Your data on the sync destination was not deleted.');
+  };
+
   const handleCloudSignOut = async () => {
     const { error } = await authService.signOut();
     if (error) {
       alert('Failed to sign out');
     } else {
+      await syncKeyManager.clear();
       setCloudUser(null);
-      setLastSyncTime(null);
       alert('Signed out successfully');
     }
   };
 
   const handleCloudSync = async () => {
-    if (!cloudUser) {
+    const provider = await syncProviderManager.getProvider();
+    if (!provider) {
+      setShowProviderDialog(true);
+      return;
+    }
+    if (provider.type === 'supabase' && !cloudUser) {
       setShowCloudAuthDialog(true);
       return;
     }
 
+    // The end-to-end sync key must be set up or unlocked on this device first
+    if (!(await syncKeyManager.getKey())) {
+      const { envelope, error } = await cloudSyncService.downloadKeyEnvelope();
+      if (error) {
+        alert(error);
+        return;
+      }
+      setKeyEnvelope(envelope);
+      setPassphraseMode(envelope ? 'unlock' : 'create');
+      setShowPassphraseDialog(true);
+      return;
+    }
+
     setIsSyncing(true);
     try {
-      const { success, error } = await cloudSyncService.sync(records);
-      if (success) {
-        const now = new Date().toLocaleString();
-        setLastSyncTime(now);
+      const { success, error, cancelled, rejectedAttachments } = await autoSyncService.syncNow(
+        (conflicts) => new Promise((resolve) => {
+          conflictResolverRef.current = resolve;
+          setSyncConflicts(conflicts);
+        }),
+        setSyncProgress
+      );
+      if (success && rejectedAttachments?.length) {
+        alert(`Data synced to cloud, but ${describeRejectedAttachments(rejectedAttachments)}`);
+      } else if (success) {
         alert('Data synced to cloud successfully!');
-      } else {
+      } else if (!cancelled) {
         alert(error || 'Failed to sync to cloud');
       }
     } catch (error) {
@@ -364,6 +637,7 @@ export function SettingsScreen({
       alert('Failed to sync to cloud');
     } finally {
       setIsSyncing(false);
+      setSyncProgress(null);
     }
   };
 
@@ -382,65 +656,242 @@ export function SettingsScreen({
           Security
         </h3>
 
-        <div className="bg-white rounded-xl shadow-sm border border-slate-100 divide-y divide-slate-100">
-          <div className="p-4 flex items-center justify-between">
-            <div>
-              <Label className="text-slate-900">Main PIN</Label>
-              <p className="text-sm text-slate-500 mt-1">
-                {pin ? 'PIN is set ✓' : 'No PIN set'}
-              </p>
+        {isDecoyMode ? (
+          // The real PIN and lock options are never shown to someone who unlocked with the decoy PIN.
+          // These rows look the same but only change local state, so nothing here reaches storage.
+          <div className="bg-white rounded-xl shadow-sm border border-slate-100 divide-y divide-slate-100">
+            <div className="p-4 flex items-center justify-between">
+              <div>
+                <Label className="text-slate-900">Main PIN</Label>
+                <p className="text-sm text-slate-500 mt-1">
+                  {PASSCODE_FORMAT_LABELS[passcodeFormat]} is set ✓
+                </p>
+              </div>
+              <Button
+                disabled
+                variant="outline"
+                size="sm"
+                className="border-purple-200 text-purple-700 hover:bg-purple-50"
+              >
+                Change
+              </Button>
             </div>
-            <Button
-              onClick={() => setShowPinDialog(true)}
-              variant="outline"
-              size="sm"
-              className="border-purple-200 text-purple-700 hover:bg-purple-50"
-            >
-              {pin ? 'Change' : 'Set PIN'}
-            </Button>
-          </div>
 
-          <div className="p-4 flex items-center justify-between">
-            <div>
-              <Label className="text-slate-900">Lock App</Label>
-              <p className="text-sm text-slate-500 mt-1">
-                Require PIN to open app
-              </p>
+            <div className="p-4 flex items-center justify-between">
+              <div>
+                <Label className="text-slate-900">Lock App</Label>
+                <p className="text-sm text-slate-500 mt-1">
+                  Require PIN to open app
+                </p>
+              </div>
+              <Switch
+                checked={decoySecurity.lockEnabled}
+                onCheckedChange={(checked: boolean) => setDecoySecurity(prev => ({ ...prev, lockEnabled: checked }))}
+              />
             </div>
-            <Switch
-              checked={lockEnabled}
-              onCheckedChange={handleLockToggle}
-              disabled={!pin}
-            />
-          </div>
 
-          <div className="p-4">
-            <div className="flex items-center justify-between mb-2">
-              <div className="flex-1">
-                <Label className="text-slate-900 flex items-center gap-2">
-                  Decoy PIN 
-                  <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded">Safety Feature</span>
-                </Label>
+            {decoySecurity.lockEnabled && (
+              <>
+                <div className="p-4 flex items-center justify-between gap-3">
+                  <div>
+                    <Label className="text-slate-900">Auto-Lock</Label>
+                    <p className="text-sm text-slate-500 mt-1">
+                      Lock after a period without use
+                    </p>
+                  </div>
+                  <Select
+                    value={decoySecurity.idleMinutes ? String(decoySecurity.idleMinutes) : 'off'}
+                    onValueChange={(v: string) => setDecoySecurity(prev => ({ ...prev, idleMinutes: v === 'off' ? null : Number(v) }))}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="off">Never</SelectItem>
+                      {AUTO_LOCK_MINUTE_OPTIONS.map(minutes => (
+                        <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="p-4 flex items-center justify-between">
+                  <div>
+                    <Label className="text-slate-900">Lock When Leaving App</Label>
+                    <p className="text-sm text-slate-500 mt-1">
+                      Lock as soon as you switch away
+                    </p>
+                  </div>
+                  <Switch
+                    checked={decoySecurity.lockOnBackground}
+                    onCheckedChange={(checked: boolean) => setDecoySecurity(prev => ({ ...prev, lockOnBackground: checked }))}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-100 divide-y divide-slate-100">
+            <div className="p-4 flex items-center justify-between">
+              <div>
+                <Label className="text-slate-900">Main PIN</Label>
                 <p className="text-sm text-slate-500 mt-1">
-                  {decoyPin ? 'Decoy PIN is set ✓' : 'Optional second PIN'}
+                  {hasPin ? `${PASSCODE_FORMAT_LABELS[passcodeFormat]} is set ✓` : 'No PIN set'}
                 </p>
               </div>
               <Button
-                onClick={() => setShowDecoyPinDialog(true)}
+                onClick={() => {
+                  setNewPinFormat(passcodeFormat);
+                  setShowPinDialog(true);
+                }}
                 variant="outline"
                 size="sm"
-                className="border-pink-200 text-pink-700 hover:bg-pink-50"
+                className="border-purple-200 text-purple-700 hover:bg-purple-50"
               >
-                {decoyPin ? 'Change' : 'Set Up'}
+                {hasPin ? 'Change' : 'Set PIN'}
               </Button>
             </div>
-            <div className="bg-pink-50 rounded-lg p-3 border border-pink-100 mt-3">
-              <p className="text-xs text-pink-900 leading-relaxed">
-                💡 <strong>How it works:</strong> If you enter this PIN, the app opens with a blank journal for your safety. Your real records remain hidden.
-              </p>
+
+            <div className="p-4 flex items-center justify-between">
+              <div>
+                <Label className="text-slate-900">Lock App</Label>
+                <p className="text-sm text-slate-500 mt-1">
+                  Require PIN to open app
+                </p>
+              </div>
+              <Switch
+                checked={lockEnabled}
+                onCheckedChange={handleLockToggle}
+                disabled={!hasPin}
+              />
+            </div>
+
+            {lockEnabled && autoLock && (
+              <>
+                <div className="p-4 flex items-center justify-between gap-3">
+                  <div>
+                    <Label className="text-slate-900">Auto-Lock</Label>
+                    <p className="text-sm text-slate-500 mt-1">
+                      Lock after a period without use
+                    </p>
+                  </div>
+                  <Select
+                    value={autoLock.idleMinutes ? String(autoLock.idleMinutes) : 'off'}
+                    onValueChange={(v: string) => handleAutoLockChange({ idleMinutes: v === 'off' ? null : Number(v) })}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="off">Never</SelectItem>
+                      {AUTO_LOCK_MINUTE_OPTIONS.map(minutes => (
+                        <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="p-4 flex items-center justify-between">
+                  <div>
+                    <Label className="text-slate-900">Lock When Leaving App</Label>
+                    <p className="text-sm text-slate-500 mt-1">
+                      Lock as soon as you switch away
+                    </p>
+                  </div>
+                  <Switch
+                    checked={autoLock.lockOnBackground}
+                    onCheckedChange={(checked: boolean) => handleAutoLockChange({ lockOnBackground: checked })}
+                  />
+                </div>
+              </>
+            )}
+
+            {biometricSupported && lockEnabled && (
+              <div className="p-4 flex items-center justify-between">
+                <div>
+                  <Label className="text-slate-900">Unlock with {biometricLabel}</Label>
+                  <p className="text-sm text-slate-500 mt-1">
+                    Your PIN still works if {biometricLabel} fails
+                  </p>
+                </div>
+                <Switch
+                  checked={biometricEnabled}
+                  onCheckedChange={handleBiometricToggle}
+                />
+              </div>
+            )}
+
+            <div className="p-4 flex items-center justify-between gap-3">
+              <div>
+                <Label className="text-slate-900">Erase After Failed Attempts</Label>
+                <p className="text-sm text-slate-500 mt-1">
+                  Wipe this device after too many wrong PINs
+                </p>
+              </div>
+              <Select
+                value={wipeThreshold ? String(wipeThreshold) : 'off'}
+                onValueChange={handleWipeThresholdChange}
+                disabled={!hasPin}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  {WIPE_THRESHOLD_OPTIONS.map(count => (
+                    <SelectItem key={count} value={String(count)}>{count} tries</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="p-4">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex-1">
+                  <Label className="text-slate-900 flex items-center gap-2">
+                    Decoy PIN 
+                    <span className="text-xs bg-purple-100 text-purple-700 px-2 py-0.5 rounded">Safety Feature</span>
+                  </Label>
+                  <p className="text-sm text-slate-500 mt-1">
+                    {hasDecoyPin ? 'Decoy PIN is set ✓' : 'Optional second PIN'}
+                  </p>
+                </div>
+                <Button
+                  onClick={() => setShowDecoyPinDialog(true)}
+                  disabled={!hasPin}
+                  variant="outline"
+                  size="sm"
+                  className="border-pink-200 text-pink-700 hover:bg-pink-50"
+                >
+                  {hasDecoyPin ? 'Change' : 'Set Up'}
+                </Button>
+              </div>
+              <div className="bg-pink-50 rounded-lg p-3 border border-pink-100 mt-3">
+                <p className="text-xs text-pink-900 leading-relaxed">
+                  💡 <strong>How it works:</strong> If you enter this PIN, the app opens a separate journal of everyday entries. Your real records remain hidden. Entries you add there are kept in that journal only.
+                </p>
+              </div>
+              {hasDecoyPin && decoyEntryCount !== null && (
+                <div className="flex items-center justify-between mt-3">
+                  <p className="text-sm text-slate-500">
+                    {decoyEntryCount > 0
+                      ? `Decoy journal: ${decoyEntryCount} entr${decoyEntryCount === 1 ? 'y' : 'ies'}`
+                      : 'Decoy journal is filled with sample entries on first use'}
+                  </p>
+                  <Button
+                    onClick={handleResetDecoyJournal}
+                    variant="ghost"
+                    size="sm"
+                    className="text-pink-700 hover:bg-pink-50"
+                    disabled={isProcessing}
+                  >
+                    New Sample Entries
+                  </Button>
+                </div>
+              )}
             </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Data Export Section */}
@@ -488,127 +939,232 @@ export function SettingsScreen({
         </div>
       </div>
 
-      {/* Encrypted Backups */}
-      <div className="mb-6">
-        <h3 className="text-slate-900 mb-3 flex items-center gap-2">
-          <Key className="w-5 h-5" />
-          Encrypted Backups
-        </h3>
+      {/* Backups and sync only ever touch the real records */}
+      {!isDecoyMode && (
+        <>
+          {/* Encrypted Backups */}
+          <div className="mb-6">
+            <h3 className="text-slate-900 mb-3 flex items-center gap-2">
+              <Key className="w-5 h-5" />
+              Encrypted Backups
+            </h3>
 
-        <div className="bg-white rounded-xl shadow-sm border border-slate-100 divide-y divide-slate-100">
-          <div className="p-4">
-            <div className="flex items-center justify-between mb-2">
-              <Label className="text-slate-900">Download Encrypted Backup</Label>
-              <Download className="w-4 h-4 text-green-600" />
-            </div>
-            <p className="text-sm text-slate-500 mb-3">
-              Create a password-protected backup of all your records and settings
-            </p>
-            <Button
-              onClick={() => setShowBackupDialog(true)}
-              className="w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white"
-              disabled={records.length === 0}
-            >
-              Create Encrypted Backup
-            </Button>
-          </div>
+            <div className="bg-white rounded-xl shadow-sm border border-slate-100 divide-y divide-slate-100">
+              <div className="p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <Label className="text-slate-900">Download Encrypted Backup</Label>
+                  <Download className="w-4 h-4 text-green-600" />
+                </div>
+                <p className="text-sm text-slate-500 mb-3">
+                  Create a password-protected backup of all your records and settings, a single case or date range, or only what changed since your last backup
+                </p>
+                <Button
+                  onClick={() => setShowBackupDialog(true)}
+                  className="w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white"
+                  disabled={records.length === 0}
+                >
+                  Create Encrypted Backup
+                </Button>
+              </div>
 
-          <div className="p-4">
-            <div className="flex items-center justify-between mb-2">
-              <Label className="text-slate-900">Restore from Backup</Label>
-              <Upload className="w-4 h-4 text-blue-600" />
+              <div className="p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <Label className="text-slate-900">Restore from Backup</Label>
+                  <Upload className="w-4 h-4 text-blue-600" />
+                </div>
+                <p className="text-sm text-slate-500 mb-3">
+                  Restore your data from a previously saved encrypted backup file, merging it with or replacing what is on this device
+                </p>
+                <Button
+                  onClick={() => setShowRestoreDialog(true)}
+                  className="w-full"
+                  variant="outline"
+                >
+                  Restore Backup
+                </Button>
+              </div>
+
+              <div className="p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <Label className="text-slate-900">Automatic Backups</Label>
+                  <CalendarClock className="w-4 h-4 text-green-600" />
+                </div>
+                <p className="text-sm text-slate-500 mb-1">
+                  {backupSchedule?.enabled
+                    ? `${backupSchedule.config?.frequency === 'weekly' ? 'Weekly' : 'Daily'}, keeping the last ${backupSchedule.config?.keep}`
+                    : 'Off. Save an encrypted backup on this device every day or week.'}
+                </p>
+                {backupSchedule?.enabled && (
+                  <p className={`text-xs mb-3 ${backupSchedule.lastError ? 'text-red-600' : 'text-slate-500'}`}>
+                    {backupSchedule.running
+                      ? 'Backing up...'
+                      : backupSchedule.lastError
+                        ? `Last backup failed: ${backupSchedule.lastError}`
+                        : backupSchedule.lastSuccessAt
+                          ? `Last backup: ${new Date(backupSchedule.lastSuccessAt).toLocaleString()}`
+                          : 'No backup yet'}
+                  </p>
+                )}
+                <Button
+                  onClick={() => setShowScheduleDialog(true)}
+                  className="w-full mt-2"
+                  variant="outline"
+                >
+                  {backupSchedule?.enabled ? 'Manage Automatic Backups' : 'Set Up Automatic Backups'}
+                </Button>
+              </div>
+
+              <div className="p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <Label className="text-slate-900">Change Backup Password</Label>
+                  <KeyRound className="w-4 h-4 text-slate-400" />
+                </div>
+                <p className="text-sm text-slate-500 mb-3">
+                  Re-encrypt an existing backup file with a new password. Your records are never decrypted to disk.
+                </p>
+                <Button
+                  onClick={() => setShowRekeyDialog(true)}
+                  className="w-full"
+                  variant="outline"
+                >
+                  Change Backup Password
+                </Button>
+              </div>
             </div>
-            <p className="text-sm text-slate-500 mb-3">
-              Restore your data from a previously saved encrypted backup file
-            </p>
-            <Button
-              onClick={() => setShowRestoreDialog(true)}
-              className="w-full"
-              variant="outline"
-            >
-              Restore Backup
-            </Button>
           </div>
-        </div>
-      </div>
 
-      {/* Cloud Sync */}
-      {isSupabaseConfigured && (
-        <div className="mb-6">
-          <h3 className="text-slate-900 mb-3 flex items-center gap-2">
-            <Cloud className="w-5 h-5" />
-            Cloud Sync <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded ml-2">Optional</span>
-          </h3>
+          {/* Cloud Sync */}
+          <div className="mb-6">
+            <h3 className="text-slate-900 mb-3 flex items-center gap-2">
+              <Cloud className="w-5 h-5" />
+              Cloud Sync <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded ml-2">Optional</span>
+            </h3>
 
-          <div className="bg-white rounded-xl shadow-sm border border-slate-100 divide-y divide-slate-100">
-            {cloudUser ? (
-              <>
-                <div className="p-4">
-                  <div className="flex items-center justify-between mb-2">
-                    <Label className="text-slate-900">Account</Label>
-                    <Cloud className="w-4 h-4 text-blue-600" />
-                  </div>
-                  <p className="text-sm text-slate-600 mb-3">
-                    Signed in as: <strong>{cloudUser}</strong>
-                  </p>
-                  {lastSyncTime && (
-                    <p className="text-xs text-slate-500 mb-3">
-                      Last synced: {lastSyncTime}
-                    </p>
-                  )}
-                  <div className="flex gap-2">
+            <div className="bg-white rounded-xl shadow-sm border border-slate-100 divide-y divide-slate-100">
+              <div className="p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <Label className="text-slate-900">Sync Destination</Label>
+                  <Server className="w-4 h-4 text-slate-400" />
+                </div>
+                <p className="text-sm text-slate-500 mb-3">
+                  {syncProvider ? `Syncing to ${syncProvider.label}` : 'Choose where to keep an encrypted copy of your data'}
+                </p>
+                <Button
+                  onClick={() => setShowProviderDialog(true)}
+                  variant="outline"
+                  className="w-full"
+                  disabled={isSyncing}
+                >
+                  {syncProvider ? 'Change Destination' : 'Set Up Sync'}
+                </Button>
+              </div>
+
+              {syncProvider && (syncProvider.type !== 'supabase' || cloudUser) && (
+                <>
+                  <div className="p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <Label className="text-slate-900">{syncProvider.type === 'supabase' ? 'Account' : 'Sync'}</Label>
+                      <Cloud className="w-4 h-4 text-blue-600" />
+                    </div>
+                    {syncProvider.type === 'supabase' && (
+                      <p className="text-sm text-slate-600 mb-3">
+                        Signed in as: <strong>{cloudUser}</strong>
+                      </p>
+                    )}
+                    {lastSyncedAt && (
+                      <p className="text-xs text-slate-500 mb-3">
+                        Last synced: {new Date(lastSyncedAt).toLocaleString()}
+                      </p>
+                    )}
+                    <div className="flex gap-2">
+                      <Button
+                        onClick={handleCloudSync}
+                        className="flex-1 bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600 text-white"
+                        disabled={isSyncing}
+                      >
+                        {isSyncing ? (
+                          <>
+                            <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                            {syncProgress && syncProgress.total > 0
+                              ? `${SYNC_PHASE_LABELS[syncProgress.phase]} ${syncProgress.done}/${syncProgress.total}`
+                              : 'Syncing...'}
+                          </>
+                        ) : (
+                          <>
+                            <RefreshCw className="w-4 h-4 mr-2" />
+                            Sync Now
+                          </>
+                        )}
+                      </Button>
+                      <Button
+                        onClick={syncProvider.type === 'supabase' ? handleCloudSignOut : handleStopSyncing}
+                        variant="outline"
+                        disabled={isSyncing}
+                      >
+                        {syncProvider.type === 'supabase' ? 'Sign Out' : 'Stop Syncing'}
+                      </Button>
+                    </div>
                     <Button
-                      onClick={handleCloudSync}
-                      className="flex-1 bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600 text-white"
-                      disabled={isSyncing || records.length === 0}
+                      onClick={async () => {
+                        if (!(await syncKeyManager.getKey())) {
+                          alert('Sync has not been set up on this device yet. Tap Sync Now first.');
+                          return;
+                        }
+                        setPassphraseMode('change');
+                        setShowPassphraseDialog(true);
+                      }}
+                      variant="outline"
+                      className="w-full mt-2"
+                      disabled={isSyncing}
                     >
-                      {isSyncing ? (
-                        <>
-                          <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-                          Syncing...
-                        </>
-                      ) : (
-                        <>
-                          <RefreshCw className="w-4 h-4 mr-2" />
-                          Sync Now
-                        </>
-                      )}
+                      <Key className="w-4 h-4 mr-2" />
+                      Change Sync Passphrase
                     </Button>
                     <Button
-                      onClick={handleCloudSignOut}
+                      onClick={async () => {
+                        if (!(await syncKeyManager.getKey())) {
+                          alert('Sync has not been set up on this device yet. Tap Sync Now first.');
+                          return;
+                        }
+                        setShowHistoryDialog(true);
+                      }}
                       variant="outline"
+                      className="w-full mt-2"
                       disabled={isSyncing}
                     >
-                      Sign Out
+                      <History className="w-4 h-4 mr-2" />
+                      Version History
                     </Button>
                   </div>
-                </div>
-                <div className="p-4 bg-blue-50">
-                  <p className="text-xs text-blue-900 leading-relaxed">
-                    🔒 <strong>End-to-End Encrypted:</strong> Your data is encrypted on your device before upload. The server never sees your unencrypted data.
+                  <div className="p-4 bg-blue-50">
+                    <p className="text-xs text-blue-900 leading-relaxed">
+                      🔒 <strong>End-to-End Encrypted:</strong> Your data is encrypted on your device with your sync passphrase before upload. The server never sees your passphrase or your unencrypted data.
+                    </p>
+                  </div>
+                </>
+              )}
+
+              {syncProvider?.type === 'supabase' && !cloudUser && (
+                <div className="p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <Label className="text-slate-900">Sign in to sync</Label>
+                    <Cloud className="w-4 h-4 text-slate-400" />
+                  </div>
+                  <p className="text-sm text-slate-500 mb-3">
+                    Create an account to automatically sync your data across devices
                   </p>
+                  <Button
+                    onClick={() => setShowCloudAuthDialog(true)}
+                    className="w-full"
+                    variant="outline"
+                  >
+                    Sign In / Create Account
+                  </Button>
                 </div>
-              </>
-            ) : (
-              <div className="p-4">
-                <div className="flex items-center justify-between mb-2">
-                  <Label className="text-slate-900">Sign in to sync</Label>
-                  <Cloud className="w-4 h-4 text-slate-400" />
-                </div>
-                <p className="text-sm text-slate-500 mb-3">
-                  Create an account to automatically sync your data across devices
-                </p>
-                <Button
-                  onClick={() => setShowCloudAuthDialog(true)}
-                  className="w-full"
-                  variant="outline"
-                >
-                  Sign In / Create Account
-                </Button>
-              </div>
-            )}
+              )}
+            </div>
           </div>
-        </div>
+        </>
       )}
 
       {/* Data Management */}
@@ -619,22 +1175,24 @@ export function SettingsScreen({
         </h3>
 
         <div className="bg-white rounded-xl shadow-sm border border-slate-100 divide-y divide-slate-100">
-          <div className="p-4">
-            <div className="flex items-center justify-between mb-2">
-              <Label className="text-slate-900">Reset Welcome Screen</Label>
+          {!isDecoyMode && (
+            <div className="p-4">
+              <div className="flex items-center justify-between mb-2">
+                <Label className="text-slate-900">Reset Welcome Screen</Label>
+              </div>
+              <p className="text-sm text-slate-500 mb-3">
+                View the welcome screen again
+              </p>
+              <Button
+                onClick={handleResetWelcome}
+                variant="outline"
+                className="w-full"
+              >
+                Reset Welcome
+              </Button>
             </div>
-            <p className="text-sm text-slate-500 mb-3">
-              View the welcome screen again
-            </p>
-            <Button
-              onClick={handleResetWelcome}
-              variant="outline"
-              className="w-full"
-            >
-              Reset Welcome
-            </Button>
-          </div>
-          
+          )}
+
           <div className="p-4">
             <div className="flex items-center justify-between mb-2">
               <Label className="text-slate-900">Clear All Data</Label>
@@ -669,48 +1227,61 @@ export function SettingsScreen({
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Lock className="w-5 h-5 text-purple-600" />
-              {pin ? 'Change Main PIN' : 'Set Main PIN'}
+              {hasPin ? 'Change Main PIN' : 'Set Main PIN'}
             </DialogTitle>
             <DialogDescription>
-              Enter a 4-digit PIN to protect your records
+              Choose a PIN or password to protect your records
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
+            <div>
+              <Label>Type</Label>
+              <Select
+                value={newPinFormat}
+                onValueChange={(v: string) => {
+                  setNewPinFormat(v as PasscodeFormat);
+                  setNewPin('');
+                  setConfirmPin('');
+                }}
+                disabled={isProcessing}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PASSCODE_FORMAT_LABELS) as PasscodeFormat[]).map(format => (
+                    <SelectItem key={format} value={format}>{PASSCODE_FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div>
               <Label>New PIN</Label>
-              <Input
-                type="password"
-                inputMode="numeric"
-                maxLength={4}
+              <PasscodeInput
+                format={newPinFormat}
                 value={newPin}
-                onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
-                placeholder="Enter 4-digit PIN"
+                onChange={setNewPin}
+                placeholder={PASSCODE_PLACEHOLDERS[newPinFormat]}
                 className="border-purple-200 focus:border-purple-400"
               />
             </div>
             <div>
               <Label>Confirm PIN</Label>
-              <Input
-                type="password"
-                inputMode="numeric"
-                maxLength={4}
+              <PasscodeInput
+                format={newPinFormat}
                 value={confirmPin}
-                onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                onChange={setConfirmPin}
                 placeholder="Re-enter PIN"
                 className="border-purple-200 focus:border-purple-400"
               />
             </div>
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => {
-              setShowPinDialog(false);
-              setNewPin('');
-              setConfirmPin('');
-            }}>
+            <Button variant="outline" onClick={resetPinDialogs} disabled={isProcessing}>
               Cancel
             </Button>
-            <Button onClick={handleSetPin} className="bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600">
-              Set Main PIN
+            <Button onClick={handleSetPin} disabled={isProcessing} className="bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600">
+              {isProcessing ? 'Saving...' : 'Set Main PIN'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -722,53 +1293,80 @@ export function SettingsScreen({
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Shield className="w-5 h-5 text-pink-600" />
-              {decoyPin ? 'Change Decoy PIN' : 'Set Decoy PIN'}
+              {hasDecoyPin ? 'Change Decoy PIN' : 'Set Decoy PIN'}
             </DialogTitle>
             <DialogDescription>
-              Create a safety PIN that opens a blank journal
+              Create a safety PIN that opens an everyday journal
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
             <div className="bg-pink-50 rounded-lg p-3 border border-pink-100">
               <p className="text-sm text-pink-900 leading-relaxed">
-                <strong>Safety Feature:</strong> If someone asks you to unlock the app, you can enter this PIN instead. The app will open with no records visible, keeping your evidence safe.
+                <strong>Safety Feature:</strong> If someone asks you to unlock the app, you can enter this PIN instead. The app will open a journal of ordinary entries, keeping your evidence hidden.
               </p>
             </div>
             <div>
               <Label>Decoy PIN</Label>
-              <Input
-                type="password"
-                inputMode="numeric"
-                maxLength={4}
+              <PasscodeInput
+                format={passcodeFormat}
                 value={newPin}
-                onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
-                placeholder="Enter 4-digit PIN"
+                onChange={setNewPin}
+                placeholder={PASSCODE_PLACEHOLDERS[passcodeFormat]}
                 className="border-pink-200 focus:border-pink-400"
               />
+              <p className="text-xs text-slate-500 mt-1">
+                Uses the same type as your main PIN ({PASSCODE_FORMAT_LABELS[passcodeFormat]})
+              </p>
             </div>
             <div>
               <Label>Confirm Decoy PIN</Label>
-              <Input
-                type="password"
-                inputMode="numeric"
-                maxLength={4}
+              <PasscodeInput
+                format={passcodeFormat}
                 value={confirmPin}
-                onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                onChange={setConfirmPin}
                 placeholder="Re-enter PIN"
                 className="border-pink-200 focus:border-pink-400"
               />
             </div>
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => {
-              setShowDecoyPinDialog(false);
-              setNewPin('');
-              setConfirmPin('');
-            }}>
+            <Button variant="outline" onClick={resetPinDialogs} disabled={isProcessing}>
               Cancel
             </Button>
-            <Button onClick={handleSetDecoyPin} className="bg-gradient-to-r from-pink-500 to-rose-500 hover:from-pink-600 hover:to-rose-600">
-              Set Decoy PIN
+            <Button onClick={handleSetDecoyPin} disabled={isProcessing} className="bg-gradient-to-r from-pink-500 to-rose-500 hover:from-pink-600 hover:to-rose-600">
+              {isProcessing ? 'Saving...' : 'Set Decoy PIN'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Main PIN Dialog */}
+      <Dialog open={pinPrompt !== null} onOpenChange={(open: boolean) => !isProcessing && !open && setPinPrompt(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Lock className="w-5 h-5 text-purple-600" />
+              {pinPrompt === 'lock' ? 'Lock App' : `Unlock with ${biometricLabel}`}
+            </DialogTitle>
+            <DialogDescription>
+              {pinPrompt === 'lock'
+                ? 'Enter your main PIN. Your records will be encrypted with it and cannot be opened without it.'
+                : `Enter your main PIN. ${biometricLabel} will open your real records; your decoy PIN still works as before.`}
+            </DialogDescription>
+          </DialogHeader>
+          <PasscodeInput
+            format={passcodeFormat}
+            value={promptPin}
+            onChange={setPromptPin}
+            placeholder="Main PIN"
+            className="border-purple-200 focus:border-purple-400"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPinPrompt(null)} disabled={isProcessing}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmPromptPin} disabled={isProcessing || !promptPin} className="bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600">
+              {pinPrompt === 'lock' ? (isProcessing ? 'Encrypting...' : 'Turn On Lock') : (isProcessing ? 'Checking...' : 'Turn On')}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -849,138 +1447,101 @@ export function SettingsScreen({
       </Dialog>
 
       {/* Create Backup Dialog */}
-      <Dialog open={showBackupDialog} onOpenChange={setShowBackupDialog}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <Key className="w-5 h-5 text-green-600" />
-              Create Encrypted Backup
-            </DialogTitle>
-            <DialogDescription>
-              Set a strong password to encrypt your backup file
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div className="bg-green-50 rounded-lg p-3 border border-green-100">
-              <p className="text-sm text-green-900 leading-relaxed">
-                <strong>Important:</strong> Remember this password! You'll need it to restore your backup.
-                This password encrypts your data with AES-256 encryption.
-              </p>
-            </div>
-            <div>
-              <Label>Backup Password</Label>
-              <Input
-                type="password"
-                value={backupPassword}
-                onChange={(e) => setBackupPassword(e.target.value)}
-                placeholder="At least 6 characters"
-                className="border-green-200 focus:border-green-400"
-                disabled={isProcessing}
-              />
-            </div>
-            <div>
-              <Label>Confirm Password</Label>
-              <Input
-                type="password"
-                value={confirmBackupPassword}
-                onChange={(e) => setConfirmBackupPassword(e.target.value)}
-                placeholder="Re-enter password"
-                className="border-green-200 focus:border-green-400"
-                disabled={isProcessing}
-              />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => {
-                setShowBackupDialog(false);
-                setBackupPassword('');
-                setConfirmBackupPassword('');
-              }}
-              disabled={isProcessing}
-            >
-              Cancel
-            </Button>
-            <Button
-              onClick={handleCreateBackup}
-              className="bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600"
-              disabled={isProcessing}
-            >
-              {isProcessing ? 'Creating...' : 'Download Backup'}
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <CreateBackupDialog
+        open={showBackupDialog}
+        records={records}
+        onOpenChange={setShowBackupDialog}
+      />
+
+      {/* Automatic Backups Dialog */}
+      <ScheduledBackupDialog
+        open={showScheduleDialog}
+        status={backupSchedule}
+        onOpenChange={setShowScheduleDialog}
+      />
 
       {/* Restore Backup Dialog */}
-      <Dialog open={showRestoreDialog} onOpenChange={setShowRestoreDialog}>
+      <RestoreBackupDialog
+        open={showRestoreDialog}
+        onOpenChange={setShowRestoreDialog}
+      />
+
+      {/* Change Backup Password Dialog */}
+      <Dialog open={showRekeyDialog} onOpenChange={(open: boolean) => !open && !isProcessing && closeRekeyDialog()}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
-              <Upload className="w-5 h-5 text-blue-600" />
-              Restore from Backup
+              <KeyRound className="w-5 h-5 text-blue-600" />
+              Change Backup Password
             </DialogTitle>
             <DialogDescription>
-              Select your encrypted backup file and enter the password
+              A re-encrypted copy of the backup is downloaded. The original file is left unchanged.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
-            <div className="bg-yellow-50 rounded-lg p-3 border border-yellow-200">
-              <p className="text-sm text-yellow-900 leading-relaxed">
-                <strong>Warning:</strong> Restoring a backup will replace all current data.
-                Consider creating a backup of your current data first.
-              </p>
-            </div>
             <div>
               <Label>Backup File</Label>
               <input
-                ref={fileInputRef}
+                ref={rekeyFileInputRef}
                 type="file"
-                accept=".encrypted"
-                onChange={(e) => setRestoreFile(e.target.files?.[0] || null)}
+                accept=".encrypted,.json"
+                onChange={(e) => setRekeyFile(e.target.files?.[0] || null)}
                 className="hidden"
                 disabled={isProcessing}
               />
               <Button
-                onClick={() => fileInputRef.current?.click()}
+                onClick={() => rekeyFileInputRef.current?.click()}
                 variant="outline"
                 className="w-full"
                 disabled={isProcessing}
               >
-                {restoreFile ? restoreFile.name : 'Choose Backup File'}
+                {rekeyFile ? rekeyFile.name : 'Choose Backup File'}
               </Button>
             </div>
             <div>
-              <Label>Backup Password</Label>
+              <Label>Current Password</Label>
+              <Input
+                type="password"
+                value={rekeyCurrentPassword}
+                onChange={(e) => setRekeyCurrentPassword(e.target.value)}
+                placeholder="Password the backup was created with"
+                className="border-blue-200 focus:border-blue-400"
+                disabled={isProcessing}
+              />
+            </div>
+            <div>
+              <Label>New Password</Label>
               <Input
                 type="password"
-                value={restorePassword}
-                onChange={(e) => setRestorePassword(e.target.value)}
-                placeholder="Enter backup password"
+                value={rekeyNewPassword}
+                onChange={(e) => setRekeyNewPassword(e.target.value)}
+                placeholder="At least 6 characters"
+                className="border-blue-200 focus:border-blue-400"
+                disabled={isProcessing}
+              />
+            </div>
+            <div>
+              <Label>Confirm New Password</Label>
+              <Input
+                type="password"
+                value={rekeyConfirmPassword}
+                onChange={(e) => setRekeyConfirmPassword(e.target.value)}
+                placeholder="Re-enter new password"
                 className="border-blue-200 focus:border-blue-400"
                 disabled={isProcessing}
               />
             </div>
           </div>
           <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => {
-                setShowRestoreDialog(false);
-                setRestorePassword('');
-                setRestoreFile(null);
-              }}
-              disabled={isProcessing}
-            >
+            <Button variant="outline" onClick={closeRekeyDialog} disabled={isProcessing}>
               Cancel
             </Button>
             <Button
-              onClick={handleRestoreBackup}
+              onClick={handleChangeBackupPassword}
               className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600"
-              disabled={isProcessing || !restoreFile}
+              disabled={isProcessing || !rekeyFile || !rekeyCurrentPassword}
             >
-              {isProcessing ? 'Restoring...' : 'Restore Backup'}
+              {isProcessing ? 'Re-encrypting...' : 'Change Password'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -992,6 +1553,42 @@ export function SettingsScreen({
         onOpenChange={setShowCloudAuthDialog}
         onSuccess={handleCloudAuthSuccess}
       />
+
+      {/* Sync Passphrase */}
+      <SyncProviderDialog
+        open={showProviderDialog}
+        current={syncProviderConfig}
+        onOpenChange={setShowProviderDialog}
+        onSaved={handleProviderSaved}
+      />
+
+      <SyncHistoryDialog
+        open={showHistoryDialog}
+        onOpenChange={setShowHistoryDialog}
+        records={records}
+        onRecoverRecords={onRecoverRecords}
+      />
+
+      <SyncPassphraseDialog
+        open={showPassphraseDialog}
+        mode={passphraseMode}
+        envelope={keyEnvelope}
+        onOpenChange={setShowPassphraseDialog}
+        onComplete={() => {
+          if (passphraseMode === 'change') {
+            alert('Sync passphrase changed');
+          } else {
+            handleCloudSync();
+          }
+        }}
+      />
+
+      {/* Sync Conflict Resolution */}
+      <SyncConflictDialog
+        conflicts={syncConflicts}
+        records={records}
+        onResolve={handleConflictsResolved}
+      />
     </div>
   );
 }
@@ -1,6 +1,8 @@
-import { useState } from 'react';
-import { Heart, Lock } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import { Heart, Lock, Check, Fingerprint } from 'lucide-react';
 import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { pinSecurity, PasscodeFormat, UnlockResult } from '../lib/security/pinSecurity';
 
 function PinDot({ filled }: { filled: boolean }) {
   return (
@@ -25,32 +27,124 @@ function NumberButton({ number, onClick }: { number: string; onClick: () => void
   );
 }
 
+function formatWait(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
 export function SignInScreen({
-  onComplete,
+  format,
+  onUnlock,
+  biometricLabel,
+  onBiometricUnlock,
 }: {
-  onComplete: (pin: string, onError: () => void) => void;
+  format: PasscodeFormat;
+  /** Check the passcode and open the app on success */
+  onUnlock: (pin: string) => Promise<UnlockResult>;
+  /** e.g. "Face ID"; set only when biometric unlock is turned on */
+  biometricLabel?: string | null;
+  /** Resolves false when the biometric check fails or is cancelled */
+  onBiometricUnlock?: () => Promise<boolean>;
 }) {
   const [pin, setPin] = useState('');
   const [error, setError] = useState(false);
+  const [message, setMessage] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const isNumeric = format !== 'alphanumeric';
+  const pinLength = format === 'pin4' ? 4 : null;
+  const waitMs = lockedUntil ? lockedUntil - now : 0;
+  const isThrottled = waitMs > 0;
 
-  const showError = () => {
+  // Keep counting down a lockout from an earlier session
+  useEffect(() => {
+    pinSecurity.getLockout().then(lockout => {
+      if (lockout.lockedUntil) setLockedUntil(new Date(lockout.lockedUntil).getTime());
+    });
+  }, []);
+
+  // Offer biometrics straight away, or once the app is back in front if it
+  // locked in the background; the PIN stays available as a fallback
+  useEffect(() => {
+    if (!biometricLabel || !onBiometricUnlock) return;
+    if (!document.hidden) {
+      unlockWithBiometrics();
+      return;
+    }
+    const handleVisible = () => {
+      if (document.hidden) return;
+      document.removeEventListener('visibilitychange', handleVisible);
+      unlockWithBiometrics();
+    };
+    document.addEventListener('visibilitychange', handleVisible);
+    return () => document.removeEventListener('visibilitychange', handleVisible);
+  }, [biometricLabel]);
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const showError = (text: string) => {
     setError(true);
+    setMessage(text);
     setPin('');
     setTimeout(() => setError(false), 600);
   };
 
-  const handleNumberClick = (num: string) => {
-    if (pin.length < 4) {
-      const newPin = pin + num;
-      setPin(newPin);
-      setError(false);
-      
-      if (newPin.length === 4) {
-        // Delay slightly to show the 4th dot before checking
-        setTimeout(() => {
-          onComplete(newPin, showError);
-        }, 200);
+  const submit = async (entered: string) => {
+    if (isChecking || isThrottled || !entered) return;
+    setIsChecking(true);
+    try {
+      const result = await onUnlock(entered);
+      if (result.outcome === 'failed' || result.outcome === 'throttled') {
+        if (result.lockout.lockedUntil) {
+          setLockedUntil(new Date(result.lockout.lockedUntil).getTime());
+          setNow(Date.now());
+        }
+        const warning = result.outcome === 'failed' && result.attemptsBeforeWipe !== undefined && result.attemptsBeforeWipe <= 3
+          ? ` ${result.attemptsBeforeWipe} attempt${result.attemptsBeforeWipe === 1 ? '' : 's'} left before all data is erased.`
+          : '';
+        showError(result.outcome === 'throttled' ? 'Too many attempts.' : `Incorrect ${isNumeric ? 'PIN' : 'password'}.${warning}`);
       }
+    } catch (unlockError) {
+      console.error('Unlock failed:', unlockError);
+      showError('Could not open your records. Please try again.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const unlockWithBiometrics = async () => {
+    if (isChecking || !onBiometricUnlock) return;
+    setIsChecking(true);
+    try {
+      if (!(await onBiometricUnlock())) {
+        setMessage(`${biometricLabel} did not unlock. Enter your ${isNumeric ? 'PIN' : 'password'} instead.`);
+      }
+    } catch (unlockError) {
+      console.error('Biometric unlock failed:', unlockError);
+      showError('Could not open your records. Please try again.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleNumberClick = (num: string) => {
+    if (isChecking || isThrottled) return;
+    if (pinLength && pin.length >= pinLength) return;
+
+    const newPin = pin + num;
+    setPin(newPin);
+    setError(false);
+    setMessage('');
+
+    if (newPin.length === pinLength) {
+      // Delay slightly to show the last dot before checking
+      setTimeout(() => submit(newPin), 200);
     }
   };
 
@@ -59,6 +153,8 @@ export function SignInScreen({
     setError(false);
   };
 
+  const dotCount = pinLength ?? Math.max(6, pin.length);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-pink-50 to-rose-50 flex items-center justify-center px-4">
       <div className="w-full max-w-sm">
@@ -71,45 +167,107 @@ export function SignInScreen({
               <Lock className="w-10 h-10 text-white" />
             </div>
             <h2 className="text-slate-900 mb-2">Welcome Back</h2>
-            <p className="text-slate-600">Enter your PIN to continue</p>
+            <p className="text-slate-600">
+              {isChecking ? 'Checking...' : `Enter your ${isNumeric ? 'PIN' : 'password'} to continue`}
+            </p>
           </div>
 
-          {/* PIN Dots */}
-          <div className="flex justify-center gap-4 mb-10">
-            <PinDot filled={pin.length >= 1} />
-            <PinDot filled={pin.length >= 2} />
-            <PinDot filled={pin.length >= 3} />
-            <PinDot filled={pin.length >= 4} />
-          </div>
+          {isNumeric && (
+            /* PIN Dots */
+            <div className="flex justify-center flex-wrap gap-4 mb-10">
+              {Array.from({ length: dotCount }, (_, i) => (
+                <PinDot key={i} filled={pin.length > i} />
+              ))}
+            </div>
+          )}
 
           {/* Error Message */}
-          {error && (
+          {(message || isThrottled) && (
             <div className="text-center mb-4">
-              <p className="text-red-500 text-sm animate-pulse">Incorrect PIN. Please try again.</p>
+              <p className="text-red-500 text-sm animate-pulse">
+                {isThrottled ? `${message || 'Too many attempts.'} Try again in ${formatWait(waitMs)}.` : message}
+              </p>
             </div>
           )}
 
-          {/* Number Pad */}
-          <div className="grid grid-cols-3 gap-4 mb-6">
-            {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map((num) => (
-              <div key={num} className="flex justify-center">
-                <NumberButton number={num} onClick={() => handleNumberClick(num)} />
+          {isNumeric ? (
+            /* Number Pad */
+            <div className="grid grid-cols-3 gap-4 mb-6">
+              {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map((num) => (
+                <div key={num} className="flex justify-center">
+                  <NumberButton number={num} onClick={() => handleNumberClick(num)} />
+                </div>
+              ))}
+              <div className="flex justify-center items-center">
+                {!pinLength && (
+                  <button
+                    onClick={() => submit(pin)}
+                    disabled={pin.length === 0 || isChecking || isThrottled}
+                    aria-label="Unlock"
+                    className="w-20 h-20 rounded-full bg-gradient-to-br from-purple-400 to-pink-400 text-white flex items-center justify-center active:scale-95 transition-all duration-150 disabled:opacity-40 disabled:cursor-not-allowed shadow-sm"
+                  >
+                    <Check className="w-7 h-7" />
+                  </button>
+                )}
+              </div>
+              <div className="flex justify-center">
+                <NumberButton number="0" onClick={() => handleNumberClick('0')} />
+              </div>
+              <div className="flex justify-center items-center">
+                <button
+                  onClick={handleBackspace}
+                  disabled={pin.length === 0}
+                  className="w-20 h-20 rounded-full bg-white border-2 border-slate-200 text-slate-600 hover:bg-slate-50 hover:border-slate-300 active:scale-95 transition-all duration-150 disabled:opacity-40 disabled:cursor-not-allowed shadow-sm"
+                >
+                  <span className="text-xl">⌫</span>
+                </button>
               </div>
-            ))}
-            <div /> {/* Empty space */}
-            <div className="flex justify-center">
-              <NumberButton number="0" onClick={() => handleNumberClick('0')} />
             </div>
-            <div className="flex justify-center items-center">
-              <button
-                onClick={handleBackspace}
-                disabled={pin.length === 0}
-                className="w-20 h-20 rounded-full bg-white border-2 border-slate-200 text-slate-600 hover:bg-slate-50 hover:border-slate-300 active:scale-95 transition-all duration-150 disabled:opacity-40 disabled:cursor-not-allowed shadow-sm"
+          ) : (
+            <form
+              className="space-y-3 mb-6"
+              onSubmit={(e) => {
+                e.preventDefault();
+                submit(pin);
+              }}
+            >
+              <Input
+                type="password"
+                autoFocus
+                autoComplete="current-password"
+                value={pin}
+                onChange={(e) => {
+                  setPin(e.target.value);
+                  setError(false);
+                  setMessage('');
+                }}
+                placeholder="Password"
+                className="border-purple-200 focus:border-purple-400"
+                disabled={isChecking || isThrottled}
+              />
+              <Button
+                type="submit"
+                className="w-full bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600"
+                disabled={!pin || isChecking || isThrottled}
+              >
+                {isChecking ? 'Checking...' : 'Unlock'}
+              </Button>
+            </form>
+          )}
+
+          {biometricLabel && onBiometricUnlock && (
+            <div className="text-center mb-4">
+              <Button
+                variant="ghost"
+                onClick={unlockWithBiometrics}
+                disabled={isChecking}
+                className="text-purple-700 hover:bg-purple-50"
               >
-                <span className="text-xl">⌫</span>
-              </button>
+                <Fingerprint className="w-5 h-5 mr-2" />
+                Use {biometricLabel}
+              </Button>
             </div>
-          </div>
+          )}
 
           {/* Bottom Info */}
           <div className="text-center">
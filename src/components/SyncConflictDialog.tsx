@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { GitMerge, Smartphone, Cloud } from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { RecordType } from '../App';
+import { SyncConflict, ConflictChoice, ConflictResolutions, conflictKey } from '../lib/cloud/syncMerge';
+
+interface SyncConflictDialogProps {
+  conflicts: SyncConflict[] | null;
+  records: RecordType[];
+  onResolve: (resolutions: ConflictResolutions | null) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  dateTime: 'Date & time',
+  description: 'Description',
+  people: 'People involved',
+  location: 'Location',
+  severity: 'Severity',
+  caseLabel: 'Case',
+};
+
+function formatValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (field === 'dateTime') return new Date(String(value)).toLocaleString();
+  return String(value);
+}
+
+/**
+ * Pre-select the side that keeps the most evidence: the newer edit for
+ * field conflicts, and keeping the record for edit-versus-delete conflicts
+ */
+function defaultChoice(conflict: SyncConflict): ConflictChoice {
+  if (conflict.kind === 'deleted') {
+    return conflict.deletedOn === 'remote' ? 'local' : 'remote';
+  }
+  return (conflict.remoteEditedAt ?? '') > (conflict.localEditedAt ?? '') ? 'remote' : 'local';
+}
+
+export function SyncConflictDialog({ conflicts, records, onResolve }: SyncConflictDialogProps) {
+  const [choices, setChoices] = useState<ConflictResolutions>({});
+
+  useEffect(() => {
+    if (conflicts) {
+      setChoices(Object.fromEntries(conflicts.map(c => [conflictKey(c), defaultChoice(c)])));
+    }
+  }, [conflicts]);
+
+  const describeRecord = (conflict: SyncConflict) => {
+    const record = conflict.kind === 'deleted' ? conflict.record : records.find(r => r.id === conflict.recordId);
+    if (!record) return 'Record';
+    const summary = record.description.length > 60 ? record.description.slice(0, 60) + '…' : record.description;
+    return `${new Date(record.dateTime).toLocaleDateString()} — ${summary}`;
+  };
+
+  const optionsFor = (conflict: SyncConflict): { choice: ConflictChoice; label: string; detail: string }[] => {
+    if (conflict.kind === 'deleted') {
+      return conflict.deletedOn === 'remote'
+        ? [
+            { choice: 'local', label: 'Keep record', detail: 'Edited on this device' },
+            { choice: 'remote', label: 'Delete record', detail: 'Deleted on another device' },
+          ]
+        : [
+            { choice: 'local', label: 'Keep deleted', detail: 'Deleted on this device' },
+            { choice: 'remote', label: 'Restore record', detail: 'Edited on another device' },
+          ];
+    }
+    return [
+      { choice: 'local', label: 'This device', detail: formatValue(conflict.field, conflict.local) },
+      { choice: 'remote', label: 'Other device', detail: formatValue(conflict.field, conflict.remote) },
+    ];
+  };
+
+  return (
+    <Dialog open={conflicts !== null} onOpenChange={(open: boolean) => !open && onResolve(null)}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="w-5 h-5 text-blue-600" />
+            Resolve Sync Conflicts
+          </DialogTitle>
+          <DialogDescription>
+            These records were changed on this device and another device since the last sync.
+            Choose which version to keep for each.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {(conflicts ?? []).map(conflict => {
+            const key = conflictKey(conflict);
+            return (
+              <div key={key} className="border border-slate-200 rounded-lg p-3">
+                <p className="text-xs text-slate-500 mb-1">{describeRecord(conflict)}</p>
+                <p className="text-sm text-slate-900 mb-2">
+                  {conflict.kind === 'field' ? FIELD_LABELS[conflict.field] : 'Edited on one device, deleted on the other'}
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {optionsFor(conflict).map(option => (
+                    <button
+                      key={option.choice}
+                      type="button"
+                      onClick={() => setChoices(prev => ({ ...prev, [key]: option.choice }))}
+                      className={`text-left rounded-lg border p-2 transition-colors ${
+                        choices[key] === option.choice
+                          ? 'border-blue-500 bg-blue-50'
+                          : 'border-slate-200 hover:border-slate-300'
+                      }`}
+                    >
+                      <span className="flex items-center gap-1 text-xs text-slate-600 mb-1">
+                        {option.choice === 'local' ? <Smartphone className="w-3 h-3" /> : <Cloud className="w-3 h-3" />}
+                        {option.label}
+                      </span>
+                      <span className="block text-sm text-slate-900 break-words line-clamp-4">{option.detail}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onResolve(null)}>
+            Cancel Sync
+          </Button>
+          <Button
+            onClick={() => onResolve(choices)}
+            className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600"
+          >
+            Apply & Sync
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
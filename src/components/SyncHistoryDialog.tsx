@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react';
+import { History, ChevronLeft, RotateCcw, ArchiveRestore } from 'lucide-react';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { RecordType } from '../App';
+import { cloudSyncService, SyncProgress, SyncSnapshotSummary, describeRejectedAttachments } from '../lib/cloud/cloudSyncService';
+import { autoSyncService } from '../lib/cloud/autoSyncService';
+
+interface SyncHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Current local records, to show how each old record differs from now */
+  records: RecordType[];
+  onRecoverRecords: (records: RecordType[]) => void;
+}
+
+type HistoryView = 'list' | 'snapshot' | 'confirmRollback';
+
+function countLabel(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Browse previous cloud versions, recover individual records from one,
+ * or roll the whole account back to it
+ */
+export function SyncHistoryDialog({ open, onOpenChange, records, onRecoverRecords }: SyncHistoryDialogProps) {
+  const [view, setView] = useState<HistoryView>('list');
+  const [snapshots, setSnapshots] = useState<SyncSnapshotSummary[] | null>(null);
+  const [selected, setSelected] = useState<SyncSnapshotSummary | null>(null);
+  const [snapshotRecords, setSnapshotRecords] = useState<RecordType[] | null>(null);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<SyncProgress | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setView('list');
+    setSnapshots(null);
+    setError(null);
+    cloudSyncService.listSnapshots().then(({ snapshots: loaded, error: listError }) => {
+      setSnapshots(loaded);
+      setError(listError);
+    });
+  }, [open]);
+
+  const close = () => {
+    setSelected(null);
+    setSnapshotRecords(null);
+    setCheckedIds(new Set());
+    onOpenChange(false);
+  };
+
+  const handleClose = () => {
+    if (!isProcessing) close();
+  };
+
+  const openSnapshot = async (snapshot: SyncSnapshotSummary) => {
+    setSelected(snapshot);
+    setSnapshotRecords(null);
+    setCheckedIds(new Set());
+    setError(null);
+    setView('snapshot');
+
+    const { records: loaded, error: loadError } = await cloudSyncService.getSnapshotRecords(snapshot.id, setProgress);
+    setProgress(null);
+    setSnapshotRecords(loadError ? [] : loaded.sort((a, b) => b.dateTime.localeCompare(a.dateTime)));
+    setError(loadError);
+  };
+
+  const toggleRecord = (id: string, checked: boolean) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const describeChange = (record: RecordType) => {
+    const current = records.find(r => r.id === record.id);
+    if (!current) return 'Deleted since';
+    if (current.contentHash !== record.contentHash) return 'Changed since';
+    return null;
+  };
+
+  const handleRecover = async () => {
+    if (!selected) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const { records: recovered, error: recoverError, rejectedAttachments } = await cloudSyncService.recoverFromSnapshot(
+        selected.id,
+        Array.from(checkedIds),
+        setProgress
+      );
+      if (recoverError) {
+        setError(recoverError);
+        return;
+      }
+      onRecoverRecords(recovered);
+      alert(
+        `Recovered ${countLabel(recovered.length, 'record')}. They will sync to your other devices.`
+        + (rejectedAttachments?.length ? `\n\n${describeRejectedAttachments(rejectedAttachments)}` : '')
+      );
+      close();
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  };
+
+  const handleRollback = async () => {
+    if (!selected) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const result = await autoSyncService.rollback(selected.id, setProgress);
+      if (!result.success) {
+        setError(result.error || 'Failed to roll back');
+        setView('snapshot');
+        return;
+      }
+      alert(
+        `Rolled back to the version from ${new Date(selected.createdAt).toLocaleString()}.`
+        + (result.rejectedAttachments?.length ? `\n\n${describeRejectedAttachments(result.rejectedAttachments)}` : '')
+      );
+      close();
+    } finally {
+      setIsProcessing(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-600" />
+            {view === 'list' || !selected ? 'Version History' : new Date(selected.createdAt).toLocaleString()}
+          </DialogTitle>
+          <DialogDescription>
+            {view === 'list'
+              ? 'Earlier versions of your cloud data, saved each time it changed.'
+              : view === 'snapshot'
+                ? 'Choose records to recover, or roll everything back to this version.'
+                : 'Your cloud data and every synced device will match this version.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-sm text-red-900">{error}</p>
+            </div>
+          )}
+
+          {progress && progress.total > 0 && (
+            <p className="text-sm text-slate-600">
+              {progress.phase === 'attachments' ? 'Downloading attachments' : 'Downloading records'} ({progress.done}/{progress.total})...
+            </p>
+          )}
+
+          {view === 'list' && (
+            snapshots === null ? (
+              <p className="text-sm text-slate-500 text-center py-4">Loading...</p>
+            ) : snapshots.length === 0 ? (
+              !error && (
+                <p className="text-sm text-slate-500 text-center py-4">
+                  No earlier versions yet. One is saved each time your cloud data changes.
+                </p>
+              )
+            ) : (
+              snapshots.map(snapshot => (
+                <button
+                  key={snapshot.id}
+                  onClick={() => openSnapshot(snapshot)}
+                  className="w-full text-left border border-slate-200 rounded-lg p-3 hover:bg-slate-50"
+                >
+                  <p className="text-sm text-slate-900">{new Date(snapshot.createdAt).toLocaleString()}</p>
+                  <p className="text-xs text-slate-500">
+                    {countLabel(snapshot.recordCount, 'record')} · {countLabel(snapshot.attachmentCount, 'attachment')}
+                  </p>
+                </button>
+              ))
+            )
+          )}
+
+          {view === 'snapshot' && (
+            snapshotRecords === null ? (
+              !progress && <p className="text-sm text-slate-500 text-center py-4">Loading...</p>
+            ) : (
+              snapshotRecords.map(record => {
+                const change = describeChange(record);
+                return (
+                  <label
+                    key={record.id}
+                    className="flex items-start gap-3 border border-slate-200 rounded-lg p-3 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={checkedIds.has(record.id)}
+                      onCheckedChange={(checked: boolean | 'indeterminate') => toggleRecord(record.id, checked === true)}
+                      disabled={isProcessing}
+                      className="mt-0.5"
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm text-slate-900">{new Date(record.dateTime).toLocaleDateString()}</p>
+                      <p className="text-xs text-slate-600 truncate">{record.description}</p>
+                      {change && <p className="text-xs text-amber-700 mt-1">{change}</p>}
+                    </div>
+                  </label>
+                );
+              })
+            )
+          )}
+
+          {view === 'confirmRollback' && selected && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+              <p className="text-sm text-amber-900 leading-relaxed">
+                Records added since this version will be removed, and records changed or deleted since will
+                go back to how they were. Changes on this device that have not synced yet will be lost.
+                The current version is kept in the history, so you can undo this.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {view === 'list' && (
+            <Button variant="outline" onClick={handleClose}>
+              Close
+            </Button>
+          )}
+
+          {view === 'snapshot' && (
+            <>
+              <Button variant="outline" onClick={() => setView('list')} disabled={isProcessing}>
+                <ChevronLeft className="w-4 h-4 mr-1" />
+                Back
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setView('confirmRollback')}
+                disabled={isProcessing || !snapshotRecords}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Roll Back to This
+              </Button>
+              <Button
+                onClick={handleRecover}
+                disabled={isProcessing || checkedIds.size === 0}
+                className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600"
+              >
+                <ArchiveRestore className="w-4 h-4 mr-2" />
+                {isProcessing ? 'Recovering...' : `Recover ${checkedIds.size || ''}`.trim()}
+              </Button>
+            </>
+          )}
+
+          {view === 'confirmRollback' && (
+            <>
+              <Button variant="outline" onClick={() => setView('snapshot')} disabled={isProcessing}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleRollback}
+                disabled={isProcessing}
+                className="bg-red-600 hover:bg-red-700 text-white"
+              >
+                {isProcessing ? 'Rolling Back...' : 'Roll Back'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { KeyRound, Copy } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { syncKeyManager, SyncKeyEnvelope, MIN_PASSPHRASE_LENGTH } from '../lib/cloud/syncKeyManager';
+import { cloudSyncService } from '../lib/cloud/cloudSyncService';
+
+export type SyncPassphraseMode = 'create' | 'unlock' | 'change';
+
+interface SyncPassphraseDialogProps {
+  open: boolean;
+  mode: SyncPassphraseMode;
+  /** The account's key envelope, required to unlock */
+  envelope: SyncKeyEnvelope | null;
+  onOpenChange: (open: boolean) => void;
+  onComplete: () => void;
+}
+
+const TITLES: Record<SyncPassphraseMode, string> = {
+  create: 'Create Sync Passphrase',
+  unlock: 'Unlock Cloud Sync',
+  change: 'Change Sync Passphrase',
+};
+
+const DESCRIPTIONS: Record<SyncPassphraseMode, string> = {
+  create: 'Your sync passphrase encrypts your data before upload. It never leaves this device, and we cannot reset it for you.',
+  unlock: 'Enter your sync passphrase, or your recovery key, to decrypt your cloud data on this device.',
+  change: 'Your cloud data stays as it is; only the key that protects it is re-encrypted.',
+};
+
+export function SyncPassphraseDialog({ open, mode, envelope, onOpenChange, onComplete }: SyncPassphraseDialogProps) {
+  const [currentSecret, setCurrentSecret] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [recoveryKey, setRecoveryKey] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setCurrentSecret('');
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setRecoveryKey(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onOpenChange(false);
+  };
+
+  const handleSubmit = async () => {
+    setError(null);
+
+    if (mode !== 'unlock') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError('Passphrases do not match');
+        return;
+      }
+    }
+
+    setIsProcessing(true);
+    try {
+      if (mode === 'create') {
+        const { recoveryKey: generated } = await syncKeyManager.createKey(passphrase);
+        // Keep the dialog open until the user has saved the recovery key
+        setRecoveryKey(generated);
+        return;
+      }
+
+      if (mode === 'unlock') {
+        if (!envelope) {
+          setError('No sync key found for this account');
+          return;
+        }
+        await syncKeyManager.unlock(envelope, currentSecret.trim());
+      } else {
+        const updated = await syncKeyManager.changePassphrase(currentSecret.trim(), passphrase);
+        const { success, error: uploadError } = await cloudSyncService.uploadKeyEnvelope(updated);
+        if (!success) {
+          setError(uploadError || 'Failed to save the new passphrase to the cloud');
+          return;
+        }
+      }
+
+      reset();
+      onOpenChange(false);
+      onComplete();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRecoveryKeySaved = () => {
+    reset();
+    onOpenChange(false);
+    onComplete();
+  };
+
+  if (recoveryKey) {
+    return (
+      <Dialog open={open} onOpenChange={() => undefined}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5 text-blue-600" />
+              Save Your Recovery Key
+            </DialogTitle>
+            <DialogDescription>
+              If you forget your sync passphrase, this recovery key is the only way to decrypt your cloud data.
+              Write it down and keep it somewhere safe. It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="bg-slate-50 border border-slate-200 rounded-lg p-4 font-mono text-center text-slate-900 break-all select-all">
+            {recoveryKey}
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => navigator.clipboard?.writeText(recoveryKey)}
+          >
+            <Copy className="w-4 h-4 mr-2" />
+            Copy Recovery Key
+          </Button>
+          <DialogFooter>
+            <Button
+              onClick={handleRecoveryKeySaved}
+              className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600"
+            >
+              I've Saved It
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5 text-blue-600" />
+            {TITLES[mode]}
+          </DialogTitle>
+          <DialogDescription>{DESCRIPTIONS[mode]}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-sm text-red-900">{error}</p>
+            </div>
+          )}
+
+          {mode !== 'create' && (
+            <div>
+              <Label>{mode === 'unlock' ? 'Sync Passphrase or Recovery Key' : 'Current Passphrase or Recovery Key'}</Label>
+              <Input
+                type="password"
+                value={currentSecret}
+                onChange={(e) => setCurrentSecret(e.target.value)}
+                className="border-blue-200 focus:border-blue-400"
+                disabled={isProcessing}
+              />
+            </div>
+          )}
+
+          {mode !== 'unlock' && (
+            <>
+              <div>
+                <Label>{mode === 'change' ? 'New Passphrase' : 'Passphrase'}</Label>
+                <Input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+                  className="border-blue-200 focus:border-blue-400"
+                  disabled={isProcessing}
+                />
+              </div>
+              <div>
+                <Label>Confirm Passphrase</Label>
+                <Input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  className="border-blue-200 focus:border-blue-400"
+                  disabled={isProcessing}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="bg-blue-50 rounded-lg p-3 border border-blue-100">
+            <p className="text-sm text-blue-900 leading-relaxed">
+              <strong>Not your account password.</strong> Your sync passphrase is never sent to the server,
+              so the server cannot decrypt your records.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isProcessing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isProcessing}
+            className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600"
+          >
+            {isProcessing ? 'Working...' : mode === 'unlock' ? 'Unlock' : 'Save Passphrase'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
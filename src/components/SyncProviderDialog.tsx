@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react';
+import { Cloud, Server, FolderOpen } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { SyncProviderConfig, SyncProviderType } from '../lib/cloud/syncProvider';
+import { createSyncProvider } from '../lib/cloud/syncProviderManager';
+import { cloudSyncService } from '../lib/cloud/cloudSyncService';
+import { isSupabaseConfigured } from '../lib/cloud/supabaseClient';
+
+interface SyncProviderDialogProps {
+  open: boolean;
+  current: SyncProviderConfig | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (config: SyncProviderConfig) => void;
+}
+
+const DEFAULT_FOLDER = 'RecordKeeper';
+
+const OPTIONS: { type: SyncProviderType; icon: typeof Cloud; title: string; description: string }[] = [
+  {
+    type: 'supabase',
+    icon: Cloud,
+    title: 'Record Keeper Cloud',
+    description: 'Sign in with an email account. Easiest to set up.',
+  },
+  {
+    type: 'webdav',
+    icon: Server,
+    title: 'Your own server (WebDAV)',
+    description: 'Nextcloud, ownCloud or any WebDAV server you or your organization runs.',
+  },
+  {
+    type: 'localFolder',
+    icon: FolderOpen,
+    title: 'A folder on this device',
+    description: 'Use your own file sync tool, such as Syncthing, to move the folder between devices.',
+  },
+];
+
+/**
+ * Choose where encrypted sync data is stored
+ */
+export function SyncProviderDialog({ open, current, onOpenChange, onSaved }: SyncProviderDialogProps) {
+  const [type, setType] = useState<SyncProviderType>('supabase');
+  const [url, setUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [folder, setFolder] = useState(DEFAULT_FOLDER);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+    setType(current?.type ?? (isSupabaseConfigured ? 'supabase' : 'webdav'));
+    setUrl(current?.type === 'webdav' ? current.url : '');
+    setUsername(current?.type === 'webdav' ? current.username : '');
+    setPassword(current?.type === 'webdav' ? current.password : '');
+    setFolder(current?.type === 'localFolder' ? current.path : DEFAULT_FOLDER);
+  }, [open, current]);
+
+  const buildConfig = (): SyncProviderConfig | null => {
+    if (type === 'supabase') return { type };
+    if (type === 'webdav') {
+      try {
+        const parsed = new URL(url.trim());
+        if (parsed.protocol !== 'https:' && parsed.hostname !== 'localhost') {
+          setError('Use an https:// address so your credentials are not sent in the clear');
+          return null;
+        }
+      } catch {
+        setError('Enter the full address of a folder on your WebDAV server');
+        return null;
+      }
+      return { type, url: url.trim(), username: username.trim(), password };
+    }
+    if (!folder.trim()) {
+      setError('Enter a folder name');
+      return null;
+    }
+    return { type, path: folder.trim() };
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    const config = buildConfig();
+    if (!config) return;
+    if (JSON.stringify(config) === JSON.stringify(current)) {
+      onOpenChange(false);
+      onSaved(config);
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      // Reading the sync document proves the destination is reachable and the credentials work
+      if (config.type !== 'supabase') {
+        const provider = createSyncProvider(config);
+        const accountId = await provider.getAccountId();
+        if (accountId) await provider.readDocument(accountId);
+      }
+
+      await cloudSyncService.switchProvider(config);
+      onOpenChange(false);
+      onSaved(config);
+    } catch (err) {
+      console.error('Failed to connect to sync destination:', err);
+      setError(err instanceof Error ? `Could not connect: ${err.message}` : 'Could not connect');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Cloud className="w-5 h-5 text-blue-600" />
+            Sync Destination
+          </DialogTitle>
+          <DialogDescription>
+            Choose where your encrypted data is stored. Every option is end-to-end encrypted with your sync passphrase.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-sm text-red-900">{error}</p>
+            </div>
+          )}
+
+          {OPTIONS.filter(option => option.type !== 'supabase' || isSupabaseConfigured).map(option => (
+            <button
+              key={option.type}
+              onClick={() => setType(option.type)}
+              disabled={isProcessing}
+              className={`w-full text-left border rounded-lg p-3 flex items-start gap-3 ${
+                type === option.type ? 'border-blue-400 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              <option.icon className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm text-slate-900">{option.title}</p>
+                <p className="text-xs text-slate-500">{option.description}</p>
+              </div>
+            </button>
+          ))}
+
+          {type === 'webdav' && (
+            <div className="space-y-3 pt-2">
+              <div>
+                <Label>Folder Address</Label>
+                <Input
+                  type="url"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="https://cloud.example.org/remote.php/dav/files/me/RecordKeeper"
+                  className="border-blue-200 focus:border-blue-400"
+                  disabled={isProcessing}
+                />
+              </div>
+              <div>
+                <Label>Username</Label>
+                <Input
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="border-blue-200 focus:border-blue-400"
+                  disabled={isProcessing}
+                />
+              </div>
+              <div>
+                <Label>Password or App Password</Label>
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="border-blue-200 focus:border-blue-400"
+                  disabled={isProcessing}
+                />
+              </div>
+            </div>
+          )}
+
+          {type === 'localFolder' && (
+            <div className="pt-2">
+              <Label>Folder in Documents</Label>
+              <Input
+                value={folder}
+                onChange={(e) => setFolder(e.target.value)}
+                className="border-blue-200 focus:border-blue-400"
+                disabled={isProcessing}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isProcessing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isProcessing}
+            className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600"
+          >
+            {isProcessing ? 'Connecting...' : 'Use This'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
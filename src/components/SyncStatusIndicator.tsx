@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { Cloud, CloudUpload, CloudOff, CloudAlert, RefreshCw, Lock, GitMerge } from 'lucide-react';
+import { autoSyncService, AutoSyncStatus } from '../lib/cloud/autoSyncService';
+
+function formatRelative(iso: string) {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+function formatRetry(iso: string) {
+  const seconds = Math.max(0, Math.round((new Date(iso).getTime() - Date.now()) / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)}m`;
+}
+
+/**
+ * Persistent cloud sync status for the home screen.
+ * Hidden when cloud sync is not configured or the user is not signed in.
+ */
+export function SyncStatusIndicator() {
+  const [status, setStatus] = useState<AutoSyncStatus>(() => autoSyncService.getStatus());
+  // Re-render periodically so relative times stay current
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = autoSyncService.subscribe(setStatus);
+    const interval = setInterval(() => setTick(tick => tick + 1), 30000);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, []);
+
+  if (status.state === 'disabled') return null;
+
+  const pending = status.pendingCount === 1 ? '1 change' : `${status.pendingCount} changes`;
+  const display = {
+    synced: {
+      icon: <Cloud className="w-4 h-4" />,
+      label: status.lastSyncedAt ? `Synced ${formatRelative(status.lastSyncedAt)}` : 'Synced',
+      className: 'bg-green-50 text-green-700 border-green-200',
+    },
+    pending: {
+      icon: <CloudUpload className="w-4 h-4" />,
+      label: `${pending} waiting to sync`,
+      className: 'bg-amber-50 text-amber-700 border-amber-200',
+    },
+    syncing: {
+      icon: <RefreshCw className="w-4 h-4 animate-spin" />,
+      label: 'Syncing...',
+      className: 'bg-blue-50 text-blue-700 border-blue-200',
+    },
+    offline: {
+      icon: <CloudOff className="w-4 h-4" />,
+      label: status.pendingCount > 0 ? `Offline · ${pending} will sync when connected` : 'Offline',
+      className: 'bg-slate-100 text-slate-700 border-slate-200',
+    },
+    error: {
+      icon: <CloudAlert className="w-4 h-4" />,
+      label: status.nextRetryAt ? `Sync failed · retrying in ${formatRetry(status.nextRetryAt)}` : 'Sync failed',
+      className: 'bg-red-50 text-red-700 border-red-200',
+    },
+    conflict: {
+      icon: <GitMerge className="w-4 h-4" />,
+      label: 'Sync conflicts · open Settings to resolve',
+      className: 'bg-red-50 text-red-700 border-red-200',
+    },
+    locked: {
+      icon: <Lock className="w-4 h-4" />,
+      label: 'Sync locked · open Settings to unlock',
+      className: 'bg-amber-50 text-amber-700 border-amber-200',
+    },
+  }[status.state];
+
+  return (
+    <div
+      className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-full border text-xs ${display.className}`}
+      title={status.error}
+    >
+      {display.icon}
+      <span>{display.label}</span>
+    </div>
+  );
+}
@@ -1,12 +1,35 @@
 import { useState } from 'react';
-import { Heart, Shield, Lock, FileText } from 'lucide-react';
+import { Heart, Shield, Lock, FileText, CloudDownload } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
+import { CloudAuthDialog } from './CloudAuthDialog';
+import { CloudRestoreDialog } from './CloudRestoreDialog';
+import { SyncProviderDialog } from './SyncProviderDialog';
+import { authService } from '../lib/cloud/authService';
+import { syncProviderManager } from '../lib/cloud/syncProviderManager';
+import { SyncProviderConfig } from '../lib/cloud/syncProvider';
 
 export function WelcomeScreen({ onComplete }: { onComplete: (name?: string) => void }) {
   const [step, setStep] = useState(1);
   const [name, setName] = useState('');
+  const [showAuthDialog, setShowAuthDialog] = useState(false);
+  const [showRestoreDialog, setShowRestoreDialog] = useState(false);
+  const [showProviderDialog, setShowProviderDialog] = useState(false);
+  const [providerConfig, setProviderConfig] = useState<SyncProviderConfig | null>(null);
+
+  const handleRestoreFromCloud = async () => {
+    setProviderConfig(await syncProviderManager.getConfig());
+    setShowProviderDialog(true);
+  };
+
+  const handleProviderChosen = async (config: SyncProviderConfig) => {
+    if (config.type === 'supabase' && !(await authService.getCurrentUser())) {
+      setShowAuthDialog(true);
+    } else {
+      setShowRestoreDialog(true);
+    }
+  };
 
   const handleGetStarted = () => {
     if (step === 1) {
@@ -72,6 +95,14 @@ export function WelcomeScreen({ onComplete }: { onComplete: (name?: string) => v
               >
                 Get Started
               </Button>
+              <Button
+                onClick={handleRestoreFromCloud}
+                variant="ghost"
+                className="w-full mt-3 text-purple-700 hover:bg-purple-50"
+              >
+                <CloudDownload className="w-4 h-4 mr-2" />
+                Restore from Cloud
+              </Button>
             </div>
           )}
 
@@ -170,6 +201,23 @@ export function WelcomeScreen({ onComplete }: { onComplete: (name?: string) => v
           By continuing, you agree to keep this space safe and use it responsibly.
         </p>
       </div>
+
+      <SyncProviderDialog
+        open={showProviderDialog}
+        current={providerConfig}
+        onOpenChange={setShowProviderDialog}
+        onSaved={handleProviderChosen}
+      />
+      <CloudAuthDialog
+        open={showAuthDialog}
+        onOpenChange={setShowAuthDialog}
+        onSuccess={() => setShowRestoreDialog(true)}
+      />
+      <CloudRestoreDialog
+        open={showRestoreDialog}
+        onOpenChange={setShowRestoreDialog}
+        onRestored={() => window.location.reload()}
+      />
     </div>
   );
 }
@@ -0,0 +1,373 @@
+/**
+ * Auto Sync Service
+ * Keeps cloud sync running in the background. Local changes are queued
+ * (and the queue survives restarts), then pushed shortly after they are made,
+ * when connectivity returns, or when the app resumes. Failed syncs are retried
+ * with exponential backoff. All syncs, including manual ones, run one at a time.
+ */
+
+import { App as CapacitorApp } from '@capacitor/app';
+import type { PluginListenerHandle } from '@capacitor/core';
+import { RecordType } from '../../App';
+import { indexedDBStorage } from '../storage/indexedDBStorage';
+import { RecordChanges } from '../storage/recordChangeTracker';
+import { cloudSyncService, ConflictResolver, SyncProgress, SyncResult, describeRejectedAttachments } from './cloudSyncService';
+import { syncKeyManager } from './syncKeyManager';
+import { syncProviderManager } from './syncProviderManager';
+
+const QUEUE_KEY = 'recordKeeper_syncQueue';
+const CHANGE_DEBOUNCE_MS = 5000;
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+/** On resume, pull remote changes if the last sync is older than this */
+const RESUME_REFRESH_MS = 15 * 60 * 1000;
+
+export type AutoSyncState =
+  | 'disabled'  // no sync provider chosen, or not signed in to it
+  | 'locked'    // signed in, but the sync passphrase is not unlocked on this device
+  | 'synced'
+  | 'pending'
+  | 'syncing'
+  | 'offline'
+  | 'error'
+  | 'conflict'; // needs the user to resolve conflicts from Settings
+
+export interface AutoSyncStatus {
+  state: AutoSyncState;
+  pendingCount: number;
+  lastSyncedAt?: string;
+  error?: string;
+  nextRetryAt?: string;
+}
+
+/**
+ * How the service reads and replaces the app's in-memory records
+ */
+export interface AutoSyncHost {
+  getRecords: () => RecordType[];
+  applyRecords: (records: RecordType[]) => void;
+}
+
+interface PersistedQueue {
+  pendingIds: string[];
+  lastSyncedAt?: string;
+}
+
+/**
+ * Apply a sync result without losing edits made while the sync was running.
+ * Records changed, added or deleted locally since the sync started win over
+ * the merged result; their ids are returned so they can be synced next.
+ */
+function rebaseLocalChanges(
+  merged: RecordType[],
+  atStart: RecordType[],
+  current: RecordType[]
+): { records: RecordType[]; changedIds: string[] } {
+  if (current === atStart) return { records: merged, changedIds: [] };
+
+  const startById = new Map(atStart.map(r => [r.id, r]));
+  const currentById = new Map(current.map(r => [r.id, r]));
+  const mergedIds = new Set(merged.map(r => r.id));
+  const changedIds: string[] = [];
+
+  const records = merged
+    .filter(record => {
+      const deletedDuringSync = startById.has(record.id) && !currentById.has(record.id);
+      if (deletedDuringSync) changedIds.push(record.id);
+      return !deletedDuringSync;
+    })
+    .map(record => {
+      const now = currentById.get(record.id);
+      if (now && now !== startById.get(record.id)) {
+        changedIds.push(record.id);
+        return now;
+      }
+      return record;
+    });
+
+  current.forEach(record => {
+    if (!startById.has(record.id) && !mergedIds.has(record.id)) {
+      records.unshift(record);
+      changedIds.push(record.id);
+    }
+  });
+
+  return { records, changedIds };
+}
+
+class AutoSyncService {
+  private host: AutoSyncHost | null = null;
+  private pending = new Set<string>();
+  private status: AutoSyncStatus = { state: 'disabled', pendingCount: 0 };
+  private listeners = new Set<(status: AutoSyncStatus) => void>();
+  private inFlight: Promise<SyncResult> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private attempt = 0;
+  private appStateListener: PluginListenerHandle | null = null;
+  /** Bumped by stop(), so a start() still awaiting when it runs gives up */
+  private generation = 0;
+  /** What the last sync wrote into the app, so persisting it is not queued as a local change */
+  private appliedBySync = new WeakSet<RecordType>();
+  private removedBySync = new Set<string>();
+
+  private handleOnline = () => {
+    console.log('Back online; syncing queued changes');
+    this.schedule(0);
+  };
+
+  private handleOffline = () => {
+    this.setStatus({ state: 'offline' });
+  };
+
+  /**
+   * Begin background syncing. Call only once the host's records are loaded,
+   * since the records it returns are treated as the complete local state.
+   */
+  async start(host: AutoSyncHost): Promise<void> {
+    this.stop();
+    const generation = this.generation;
+    this.host = host;
+
+    const queue: PersistedQueue | undefined = await indexedDBStorage.getSetting(QUEUE_KEY);
+    if (generation !== this.generation) return;
+    this.pending = new Set(queue?.pendingIds ?? []);
+    this.setStatus({ pendingCount: this.pending.size, lastSyncedAt: queue?.lastSyncedAt });
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    const appStateListener = await CapacitorApp.addListener('appStateChange', ({ isActive }) => {
+      if (isActive) this.handleResume();
+    });
+    if (generation !== this.generation) {
+      appStateListener.remove();
+      return;
+    }
+    this.appStateListener = appStateListener;
+
+    this.schedule(0);
+  }
+
+  /**
+   * Stop background syncing and release listeners
+   */
+  stop(): void {
+    this.generation++;
+    this.clearTimer();
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    this.appStateListener?.remove();
+    this.appStateListener = null;
+    this.host = null;
+  }
+
+  getStatus(): AutoSyncStatus {
+    return this.status;
+  }
+
+  /**
+   * Subscribe to status changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (status: AutoSyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue records that were persisted locally and sync them shortly.
+   * Changes that came from a sync are ignored.
+   */
+  async queueChanges({ added, updated, deleted }: RecordChanges): Promise<void> {
+    const ids = [
+      ...added.filter(record => !this.appliedBySync.has(record)).map(record => record.id),
+      ...updated.filter(({ after }) => !this.appliedBySync.has(after)).map(({ after }) => after.id),
+      ...deleted.filter(record => !this.removedBySync.has(record.id)).map(record => record.id),
+    ];
+    if (ids.length === 0) return;
+    ids.forEach(id => this.pending.add(id));
+    await this.persistQueue();
+
+    // Problems the user needs to see stay visible until the next attempt
+    if (['synced', 'pending', 'offline'].includes(this.status.state)) {
+      this.setStatus({ state: navigator.onLine ? 'pending' : 'offline' });
+    }
+    // A conflict waits for the user, and a backoff keeps its own schedule
+    if (this.status.state !== 'conflict' && !this.status.nextRetryAt) {
+      this.schedule(CHANGE_DEBOUNCE_MS);
+    }
+  }
+
+  /**
+   * Sync immediately, e.g. from the Sync Now button. Waits for any background
+   * sync in progress, then runs with the given conflict resolver.
+   */
+  async syncNow(resolveConflicts?: ConflictResolver, onProgress?: (progress: SyncProgress) => void): Promise<SyncResult> {
+    this.clearTimer();
+    await this.inFlight?.catch(() => undefined);
+    return this.run(() => this.attemptSync(resolveConflicts, onProgress));
+  }
+
+  /**
+   * Roll the cloud back to a previous version and apply it on this device.
+   * Local changes that have not synced yet are discarded.
+   */
+  async rollback(snapshotId: string, onProgress?: (progress: SyncProgress) => void): Promise<SyncResult> {
+    this.clearTimer();
+    await this.inFlight?.catch(() => undefined);
+    return this.run(() => this.attemptRollback(snapshotId, onProgress));
+  }
+
+  private handleResume(): void {
+    const last = this.status.lastSyncedAt ? new Date(this.status.lastSyncedAt).getTime() : 0;
+    if (this.pending.size > 0 || Date.now() - last > RESUME_REFRESH_MS) {
+      this.schedule(0);
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (!this.inFlight) {
+        this.run(() => this.attemptSync()).catch(error => console.error('Background sync failed:', error));
+      }
+    }, delayMs);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private run(task: () => Promise<SyncResult>): Promise<SyncResult> {
+    const run = task().finally(() => {
+      this.inFlight = null;
+    });
+    this.inFlight = run;
+    return run;
+  }
+
+  private async attemptSync(
+    resolveConflicts?: ConflictResolver,
+    onProgress?: (progress: SyncProgress) => void
+  ): Promise<SyncResult> {
+    if (!this.host) {
+      return { success: false, error: 'Sync is not running' };
+    }
+
+    // Conditions the user has to fix are reported, not retried
+    const provider = await syncProviderManager.getProvider();
+    if (!provider || !(await provider.getAccountId())) {
+      this.setStatus({ state: 'disabled', error: undefined, nextRetryAt: undefined });
+      return { success: false, error: 'Not signed in' };
+    }
+    if (!(await syncKeyManager.getKey())) {
+      this.setStatus({ state: 'locked', error: undefined, nextRetryAt: undefined });
+      return { success: false, error: 'Sync passphrase not set up on this device' };
+    }
+    if (!navigator.onLine) {
+      this.setStatus({ state: 'offline', nextRetryAt: undefined });
+      return { success: false, error: 'You are offline. Changes will sync when you reconnect.' };
+    }
+
+    this.setStatus({ state: 'syncing', error: undefined, nextRetryAt: undefined });
+    const atStart = this.host.getRecords();
+    const syncedIds = new Set(this.pending);
+
+    const result = await cloudSyncService.sync(atStart, resolveConflicts, onProgress);
+
+    if (result.success && result.records) {
+      await this.applySyncedRecords(result.records, atStart, syncedIds);
+      // Shown with the status until the next sync; retrying would not change the downloaded file
+      if (result.rejectedAttachments?.length) {
+        this.setStatus({ error: describeRejectedAttachments(result.rejectedAttachments) });
+      }
+      return result;
+    }
+
+    if (result.conflictCount) {
+      this.setStatus({ state: 'conflict', error: result.error ?? undefined });
+    } else if (result.cancelled) {
+      this.setStatus({ state: this.pending.size > 0 ? 'pending' : 'synced' });
+    } else {
+      this.attempt++;
+      const delay = Math.min(RETRY_BASE_MS * 2 ** (this.attempt - 1), RETRY_MAX_MS);
+      const jitter = Math.random() * delay * 0.2;
+      this.setStatus({
+        state: 'error',
+        error: result.error ?? 'Sync failed',
+        nextRetryAt: new Date(Date.now() + delay + jitter).toISOString(),
+      });
+      this.schedule(delay + jitter);
+    }
+    return result;
+  }
+
+  private async attemptRollback(
+    snapshotId: string,
+    onProgress?: (progress: SyncProgress) => void
+  ): Promise<SyncResult> {
+    if (!this.host) {
+      return { success: false, error: 'Sync is not running' };
+    }
+
+    const previous = this.status;
+    this.setStatus({ state: 'syncing', error: undefined, nextRetryAt: undefined });
+    const atStart = this.host.getRecords();
+    const discardedIds = new Set(this.pending);
+
+    const result = await cloudSyncService.rollbackToSnapshot(snapshotId, onProgress);
+
+    if (result.success && result.records) {
+      await this.applySyncedRecords(result.records, atStart, discardedIds);
+    } else {
+      // A failed rollback leaves the cloud as it was, so sync state is unchanged
+      this.setStatus({ state: previous.state, error: previous.error, nextRetryAt: previous.nextRetryAt });
+    }
+    return result;
+  }
+
+  /**
+   * Apply records that now match the cloud, keeping edits made meanwhile,
+   * and clear the queued ids they cover
+   */
+  private async applySyncedRecords(synced: RecordType[], atStart: RecordType[], syncedIds: Set<string>): Promise<void> {
+    if (!this.host) return;
+
+    const current = this.host.getRecords();
+    const { records, changedIds } = rebaseLocalChanges(synced, atStart, current);
+    const keptIds = new Set(records.map(r => r.id));
+    this.appliedBySync = new WeakSet(records.filter(r => !changedIds.includes(r.id)));
+    this.removedBySync = new Set(current.filter(r => !keptIds.has(r.id)).map(r => r.id));
+    this.host.applyRecords(records);
+
+    syncedIds.forEach(id => this.pending.delete(id));
+    changedIds.forEach(id => this.pending.add(id));
+    this.attempt = 0;
+    this.setStatus({ lastSyncedAt: new Date().toISOString() });
+    await this.persistQueue();
+
+    if (this.pending.size > 0) {
+      this.setStatus({ state: 'pending' });
+      this.schedule(CHANGE_DEBOUNCE_MS);
+    } else {
+      this.setStatus({ state: 'synced' });
+    }
+  }
+
+  private async persistQueue(): Promise<void> {
+    this.setStatus({ pendingCount: this.pending.size });
+    const queue: PersistedQueue = { pendingIds: Array.from(this.pending), lastSyncedAt: this.status.lastSyncedAt };
+    await indexedDBStorage.saveSetting(QUEUE_KEY, queue);
+  }
+
+  private setStatus(update: Partial<AutoSyncStatus>): void {
+    this.status = { ...this.status, ...update };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+}
+
+export const autoSyncService = new AutoSyncService();
@@ -0,0 +1,202 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordType } from '../../App';
+import { hashFileBytes } from '../security/recordIntegrity';
+import { EMPTY_SYNC_DOCUMENT, SyncDocument, SyncProvider, VersionedSyncDocument } from './syncProvider';
+
+/**
+ * One shared in-memory provider, and the local state of whichever device is
+ * currently syncing
+ */
+interface Device {
+  settings: Map<string, unknown>;
+  attachments: Map<string, Blob>;
+}
+
+const state = vi.hoisted(() => ({
+  provider: null as unknown as SyncProvider,
+  device: null as unknown as Device,
+  keys: null as unknown as { key: CryptoKey; objectIdKey: CryptoKey },
+}));
+
+vi.mock('./syncProviderManager', () => ({
+  syncProviderManager: { getProvider: async () => state.provider },
+}));
+
+vi.mock('./syncKeyManager', () => ({
+  syncKeyManager: {
+    getKey: async () => state.keys.key,
+    getObjectIdKey: async () => state.keys.objectIdKey,
+    getEnvelope: async () => ({ keyId: 'key-1', updatedAt: '2024-01-01T00:00:00.000Z' }),
+  },
+}));
+
+vi.mock('../storage/indexedDBStorage', () => ({
+  indexedDBStorage: {
+    getSetting: async (key: string) => structuredClone(state.device.settings.get(key)) ?? null,
+    saveSetting: async (key: string, value: unknown) => {
+      state.device.settings.set(key, structuredClone(value));
+    },
+  },
+}));
+
+vi.mock('../storage/recordStorage', () => ({
+  recordStorage: {
+    getAttachment: async (id: string) => state.device.attachments.get(id) ?? null,
+    saveAttachment: async (id: string, blob: Blob) => {
+      state.device.attachments.set(id, blob);
+    },
+  },
+}));
+
+const { cloudSyncService } = await import('./cloudSyncService');
+
+class MemoryProvider implements SyncProvider {
+  readonly type = 'localFolder' as const;
+  readonly label = 'memory';
+  document: VersionedSyncDocument | null = null;
+  objects = new Map<string, Blob>();
+  /** Runs before each conditional write, to simulate another device committing first */
+  beforeWrite: (() => void) | null = null;
+  private writes = 0;
+
+  async getAccountId() {
+    return 'account';
+  }
+
+  async readDocument() {
+    return this.document && { ...this.document };
+  }
+
+  async writeDocument(_accountId: string, update: Partial<SyncDocument>, expectedVersion?: string | null) {
+    this.beforeWrite?.();
+    if (expectedVersion !== undefined && (this.document?.version ?? null) !== expectedVersion) {
+      return false;
+    }
+    this.document = { ...(this.document ?? EMPTY_SYNC_DOCUMENT), ...update, version: String(++this.writes) };
+    return true;
+  }
+
+  async putObject(_accountId: string, objectId: string, body: Blob) {
+    if (!this.objects.has(objectId)) this.objects.set(objectId, body);
+  }
+
+  async getObject(_accountId: string, objectId: string) {
+    const body = this.objects.get(objectId);
+    if (!body) throw new Error('not found');
+    return body;
+  }
+
+  async removeObjects(_accountId: string, objectIds: string[]) {
+    objectIds.forEach(id => this.objects.delete(id));
+  }
+}
+
+function record(id: string): RecordType {
+  return {
+    id,
+    dateTime: '2024-01-01T09:00',
+    description: `Record ${id}`,
+    createdAt: '2024-01-01T09:00:00.000Z',
+  } as RecordType;
+}
+
+function newDevice(): Device {
+  return { settings: new Map(), attachments: new Map() };
+}
+
+/** Sync as the given device, returning the records it ends up with */
+async function syncAs(device: Device, local: RecordType[]): Promise<RecordType[]> {
+  state.device = device;
+  const result = await cloudSyncService.sync(local);
+  expect(result.error).toBeNull();
+  return result.records!;
+}
+
+const ids = (records: RecordType[]) => records.map(r => r.id).sort();
+
+describe('cloudSyncService.sync', () => {
+  let provider: MemoryProvider;
+
+  beforeAll(async () => {
+    vi.stubGlobal('window', globalThis);
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => undefined });
+    state.keys = {
+      key: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']),
+      objectIdKey: await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+    };
+  });
+
+  beforeEach(() => {
+    provider = new MemoryProvider();
+    state.provider = provider;
+  });
+
+  it('merges again instead of replacing a manifest another device committed mid-sync', async () => {
+    const deviceA = newDevice();
+    const deviceB = newDevice();
+
+    let recordsA = await syncAs(deviceA, [record('a1')]);
+    let recordsB = await syncAs(deviceB, [record('b1')]);
+    recordsA = await syncAs(deviceA, recordsA);
+    expect(ids(recordsA)).toEqual(['a1', 'b1']);
+
+    // Device A adds a record and commits while device B is between reading and committing
+    const beforeA = provider.document;
+    recordsA = await syncAs(deviceA, [...recordsA, record('a2')]);
+    const committedByA = provider.document;
+    provider.document = beforeA;
+    provider.beforeWrite = () => {
+      provider.beforeWrite = null;
+      provider.document = { ...committedByA!, version: 'committed-by-a' };
+    };
+
+    recordsB = await syncAs(deviceB, [...recordsB, record('b2')]);
+    expect(ids(recordsB)).toEqual(['a1', 'a2', 'b1', 'b2']);
+
+    // Device A's commit was kept in the history rather than silently replaced
+    const { snapshots } = await cloudSyncService.listSnapshots();
+    expect(snapshots[0].recordCount).toBe(3);
+
+    // Device A's next sync keeps its record instead of treating it as deleted elsewhere
+    recordsA = await syncAs(deviceA, recordsA);
+    expect(ids(recordsA)).toEqual(['a1', 'a2', 'b1', 'b2']);
+  });
+
+  it('does not save downloaded attachments that do not match their fingerprint', async () => {
+    const deviceA = newDevice();
+    const deviceB = newDevice();
+    const intact = new Blob(['original scan']);
+    deviceA.attachments.set('f1', intact);
+    deviceA.attachments.set('f2', new Blob(['altered scan']));
+    await syncAs(deviceA, [{
+      ...record('a1'),
+      files: [
+        { id: 'f1', name: 'intact.pdf', type: 'pdf', source: 'files', fileHash: await hashFileBytes(intact) },
+        { id: 'f2', name: 'altered.pdf', type: 'pdf', source: 'files', fileHash: await hashFileBytes(new Blob(['original'])) },
+      ],
+    }]);
+
+    state.device = deviceB;
+    const result = await cloudSyncService.sync([]);
+    expect(result.success).toBe(true);
+    expect(result.rejectedAttachments).toEqual(['altered.pdf']);
+    expect(deviceB.attachments.has('f1')).toBe(true);
+    expect(deviceB.attachments.has('f2')).toBe(false);
+  });
+
+  it('gives up when another device commits first on every attempt', async () => {
+    const device = newDevice();
+    await syncAs(device, [record('a1')]);
+
+    const write = provider.writeDocument.bind(provider);
+    provider.writeDocument = async (accountId, update, expectedVersion) => {
+      await write(accountId, { lastSynced: new Date().toISOString() });
+      return write(accountId, update, expectedVersion);
+    };
+
+    state.device = device;
+    const result = await cloudSyncService.sync([record('a1'), record('a2')]);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Try again/);
+  });
+});
@@ -1,63 +1,191 @@
 /**
  * Cloud Sync Service
- * Handles encrypted data synchronization with cloud storage
+ * Handles encrypted data synchronization with the active sync provider
+ * (Supabase, a WebDAV server or a local folder)
  * Data is encrypted locally before upload - server never sees plaintext
+ *
+ * Each record and attachment is uploaded as its own encrypted,
+ * content-addressed object. The account's sync document holds only an
+ * encrypted manifest mapping record and attachment ids to object ids, and is
+ * written last, so an interrupted sync never leaves the cloud half-updated.
+ *
+ * Each time the manifest changes, the previous one is kept in an encrypted
+ * version history alongside it. Objects stay in storage while any retained
+ * version references them, so old versions can be browsed and rolled back to.
+ *
+ * The manifest is only committed if the document is still at the version
+ * read when the sync started. When another device committed in between,
+ * the sync downloads and merges again instead of replacing that commit.
  */
 
-import { supabase, isSupabaseConfigured } from './supabaseClient';
-import { authService } from './authService';
-import { RecordType } from '../../App';
+import { syncProviderManager } from './syncProviderManager';
+import { SyncProviderConfig, SyncTarget } from './syncProvider';
+import { RecordType, AttachmentType } from '../../App';
 import { indexedDBStorage } from '../storage/indexedDBStorage';
+import { recordStorage } from '../storage/recordStorage';
+import { mergeRecords, RecordTombstone, SyncConflict, ConflictResolutions } from './syncMerge';
+import { syncKeyManager, SyncKeyEnvelope } from './syncKeyManager';
+import { syncObjectStore, runWithConcurrency } from './syncObjectStore';
+import { hashFileBytes } from '../security/recordIntegrity';
+import { extractInlineAttachments, StoredAttachment } from '../storage/inlineAttachments';
+import type { StoredPin } from '../security/pinSecurity';
 
 export interface SyncData {
   version: string;
   lastSynced: string;
   records: RecordType[];
+  tombstones?: RecordTombstone[];
   settings: {
-    pin?: string;
-    decoyPin?: string;
+    pin?: StoredPin;
+    decoyPin?: StoredPin;
     lockEnabled?: string;
     userName?: string;
+    /** Custom hashtag taxonomy, as stored in localStorage */
+    taxonomy?: string;
   };
 }
 
+/**
+ * What the server holds: object ids for every record and attachment
+ */
+export interface SyncManifest {
+  version: string;
+  updatedAt: string;
+  /** Record id -> object id */
+  records: Record<string, string>;
+  /** Attachment id -> object id */
+  attachments: Record<string, string>;
+  tombstones: RecordTombstone[];
+  settings: SyncData['settings'];
+}
+
+/**
+ * A previous cloud state kept in the version history
+ */
+export interface SyncSnapshot {
+  id: string;
+  /** When this state was committed to the cloud */
+  createdAt: string;
+  recordCount: number;
+  attachmentCount: number;
+  manifest: SyncManifest;
+}
+
+export type SyncSnapshotSummary = Omit<SyncSnapshot, 'manifest'>;
+
+interface SyncHistory {
+  version: string;
+  snapshots: SyncSnapshot[];
+}
+
+export interface SyncResult {
+  success: boolean;
+  error: string | null;
+  /** Merged records to apply locally, on success */
+  records?: RecordType[];
+  /** Set when the sync stopped on conflicts that no resolver was given for */
+  conflictCount?: number;
+  /** Set when the user cancelled conflict resolution */
+  cancelled?: boolean;
+  /** Names of downloaded attachments not saved because they did not match their fingerprint */
+  rejectedAttachments?: string[];
+}
+
+/**
+ * Summary of an account's cloud data, shown before restoring it onto a device
+ */
+export interface CloudRestorePreview {
+  recordCount: number;
+  attachmentCount: number;
+  /** Earliest and latest record dates, if there are records */
+  earliestDate?: string;
+  latestDate?: string;
+  lastSynced?: string;
+  hasCustomTaxonomy: boolean;
+  settings: SyncData['settings'];
+  records: RecordType[];
+  tombstones: RecordTombstone[];
+  manifest: SyncManifest | null;
+  /** Attachment content embedded in a single-blob upload, stored only if restored */
+  attachments: StoredAttachment[];
+}
+
+export interface SyncProgress {
+  phase: 'downloading' | 'uploading' | 'attachments';
+  done: number;
+  total: number;
+}
+
+/**
+ * Records, tombstones and manifest as they stood after the last successful sync
+ */
+interface SyncBase {
+  syncedAt: string;
+  records: RecordType[];
+  tombstones: RecordTombstone[];
+  manifest?: SyncManifest;
+  /** Records restored locally since, whose tombstones the next sync drops */
+  restoredIds?: string[];
+}
+
+/**
+ * Objects uploaded by a sync that has not yet committed its manifest.
+ * Lets an interrupted sync resume without uploading them again.
+ */
+interface UploadJournal {
+  objectIds: string[];
+  /** Attachment id -> object id, so attachments are not re-read and re-hashed */
+  attachments: Record<string, string>;
+}
+
+/**
+ * Asks the user to resolve merge conflicts. Resolves null to cancel the sync.
+ */
+export type ConflictResolver = (conflicts: SyncConflict[]) => Promise<ConflictResolutions | null>;
+
+const SYNC_BASE_KEY = 'recordKeeper_syncBase';
+const TAXONOMY_KEY = 'recordKeeper_taxonomy';
+const UPLOAD_JOURNAL_KEY = 'recordKeeper_syncUploadJournal';
+const ENCRYPTION_PREFIX = 'v2:';
+const TRANSFER_CONCURRENCY = 3;
+/** Number of previous cloud versions kept */
+const SYNC_HISTORY_LIMIT = 10;
+/** Times a sync merges again after another device committed first */
+const COMMIT_ATTEMPTS = 3;
+
+/**
+ * Whether two manifests describe the same records, attachments and deletions
+ */
+function sameManifestContent(a: SyncManifest, b: SyncManifest): boolean {
+  const canonical = (m: SyncManifest) => JSON.stringify({
+    records: Object.entries(m.records).sort(),
+    attachments: Object.entries(m.attachments).sort(),
+    tombstones: m.tombstones.map(t => t.id).sort(),
+  });
+  return canonical(a) === canonical(b);
+}
+
+function manifestObjectIds(manifest: SyncManifest): string[] {
+  return [...Object.values(manifest.records), ...Object.values(manifest.attachments)];
+}
+
+/**
+ * Explain to the user which downloaded attachments were not saved
+ */
+export function describeRejectedAttachments(names: string[]): string {
+  const count = names.length === 1 ? '1 attachment was' : `${names.length} attachments were`;
+  return `${count} not saved because the downloaded file did not match the one originally added: ${names.join(', ')}`;
+}
+
 class CloudSyncService {
-  private readonly SYNC_VERSION = '1.0';
+  private readonly SYNC_VERSION = '2.0';
 
   /**
-   * Encrypt data before uploading to cloud
+   * Encrypt data with the end-to-end sync key before uploading to cloud
    */
-  private async encryptData(data: SyncData, userId: string): Promise<string> {
-    const jsonData = JSON.stringify(data);
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(jsonData);
-
-    // Use user ID as part of encryption key material
-    const keyMaterial = encoder.encode(userId);
-    const importedKey = await window.crypto.subtle.importKey(
-      'raw',
-      keyMaterial,
-      'PBKDF2',
-      false,
-      ['deriveBits', 'deriveKey']
-    );
+  private async encryptData(data: SyncData | SyncManifest | SyncHistory, key: CryptoKey): Promise<string> {
+    const dataBuffer = new TextEncoder().encode(JSON.stringify(data));
 
-    // Derive encryption key
-    const salt = window.crypto.getRandomValues(new Uint8Array(16));
-    const key = await window.crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt,
-        iterations: 100000,
-        hash: 'SHA-256',
-      },
-      importedKey,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['encrypt']
-    );
-
-    // Encrypt data
     const iv = window.crypto.getRandomValues(new Uint8Array(12));
     const encryptedBuffer = await window.crypto.subtle.encrypt(
       {
@@ -68,24 +196,46 @@ class CloudSyncService {
       dataBuffer
     );
 
-    // Combine salt, IV, and encrypted data
-    const combined = new Uint8Array(salt.byteLength + iv.byteLength + encryptedBuffer.byteLength);
-    combined.set(salt, 0);
-    combined.set(iv, salt.byteLength);
-    combined.set(new Uint8Array(encryptedBuffer), salt.byteLength + iv.byteLength);
+    // Combine IV and encrypted data
+    const combined = new Uint8Array(iv.byteLength + encryptedBuffer.byteLength);
+    combined.set(iv, 0);
+    combined.set(new Uint8Array(encryptedBuffer), iv.byteLength);
 
-    // Convert to base64
+    // Convert to base64, prefixed so the format can be told apart from legacy blobs
     let binary = '';
     for (let i = 0; i < combined.byteLength; i++) {
       binary += String.fromCharCode(combined[i]);
     }
-    return btoa(binary);
+    return ENCRYPTION_PREFIX + btoa(binary);
+  }
+
+  /**
+   * Decrypt data encrypted with the end-to-end sync key
+   */
+  private async decryptData(encrypted: string, key: CryptoKey): Promise<SyncData | SyncManifest | SyncHistory> {
+    const binary = atob(encrypted.slice(ENCRYPTION_PREFIX.length));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+
+    const decryptedBuffer = await window.crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: bytes.slice(0, 12),
+      },
+      key,
+      bytes.slice(12)
+    );
+
+    return JSON.parse(new TextDecoder().decode(decryptedBuffer));
   }
 
   /**
-   * Decrypt data after downloading from cloud
+   * Decrypt data uploaded before sync passphrases existed, whose key was
+   * derived from the user id. Only used to migrate it to the sync key.
    */
-  private async decryptData(encryptedBase64: string, userId: string): Promise<SyncData> {
+  private async decryptLegacyData(encryptedBase64: string, accountId: string): Promise<SyncData> {
     // Convert from base64
     const binary = atob(encryptedBase64);
     const bytes = new Uint8Array(binary.length);
@@ -100,7 +250,7 @@ class CloudSyncService {
 
     // Derive decryption key
     const encoder = new TextEncoder();
-    const keyMaterial = encoder.encode(userId);
+    const keyMaterial = encoder.encode(accountId);
     const importedKey = await window.crypto.subtle.importKey(
       'raw',
       keyMaterial,
@@ -139,173 +289,805 @@ class CloudSyncService {
   }
 
   /**
-   * Upload encrypted data to cloud
+   * The active sync provider and the account to sync on it
+   */
+  private async connect(): Promise<{ target: SyncTarget; error: null } | { target: null; error: string }> {
+    const provider = await syncProviderManager.getProvider();
+    if (!provider) {
+      return { target: null, error: 'Cloud sync not configured' };
+    }
+    const accountId = await provider.getAccountId();
+    if (!accountId) {
+      return { target: null, error: 'Not signed in' };
+    }
+    return { target: { provider, accountId }, error: null };
+  }
+
+  /**
+   * Sync with a different provider from now on, or pass null to turn sync
+   * off. What was last synced with the old provider says nothing about the
+   * new one, so the sync base and any unfinished upload are forgotten; the
+   * next sync then merges with whatever the new provider holds without
+   * treating anything as deleted.
+   */
+  async switchProvider(config: SyncProviderConfig | null): Promise<void> {
+    await syncProviderManager.setConfig(config);
+    await indexedDBStorage.saveSetting(SYNC_BASE_KEY, null);
+    await indexedDBStorage.saveSetting(UPLOAD_JOURNAL_KEY, null);
+  }
+
+  /**
+   * Download the wrapped sync key envelope for the signed-in account
+   */
+  async downloadKeyEnvelope(): Promise<{ envelope: SyncKeyEnvelope | null; error: string | null }> {
+    try {
+      const { target, error: connectError } = await this.connect();
+      if (!target) {
+        return { envelope: null, error: connectError };
+      }
+
+      const document = await target.provider.readDocument(target.accountId);
+      return { envelope: document?.keyEnvelope ? JSON.parse(document.keyEnvelope) : null, error: null };
+    } catch (error) {
+      console.error('Key envelope download failed:', error);
+      return { envelope: null, error: 'Failed to download sync key' };
+    }
+  }
+
+  /**
+   * Replace the wrapped sync key envelope, e.g. after a passphrase change.
+   * Only the envelope changes; the encrypted data is untouched.
+   */
+  async uploadKeyEnvelope(envelope: SyncKeyEnvelope): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { target, error: connectError } = await this.connect();
+      if (!target) {
+        return { success: false, error: connectError };
+      }
+
+      await target.provider.writeDocument(target.accountId, { keyEnvelope: JSON.stringify(envelope) });
+      return { success: true, error: null };
+    } catch (error) {
+      console.error('Key envelope upload failed:', error);
+      return { success: false, error: 'Failed to upload sync key' };
+    }
+  }
+
+  /**
+   * Read the current manifest and version history. A legacy single-blob
+   * upload has no manifest, and history that cannot be decrypted with the
+   * current key is treated as empty.
+   */
+  private async fetchCloudState(
+    target: SyncTarget,
+    key: CryptoKey
+  ): Promise<{ manifest: SyncManifest | null; snapshots: SyncSnapshot[]; version: string | null }> {
+    const document = await target.provider.readDocument(target.accountId);
+
+    let manifest: SyncManifest | null = null;
+    if (document?.encryptedData?.startsWith(ENCRYPTION_PREFIX)) {
+      const payload = await this.decryptData(document.encryptedData, key);
+      if ('attachments' in payload) manifest = payload;
+    }
+
+    let snapshots: SyncSnapshot[] = [];
+    if (document?.history) {
+      try {
+        snapshots = (await this.decryptData(document.history, key) as SyncHistory).snapshots;
+      } catch (error) {
+        console.error('Failed to decrypt sync history; starting a new one:', error);
+      }
+    }
+
+    return { manifest, snapshots, version: document?.version ?? null };
+  }
+
+  /**
+   * List the previous cloud versions, newest first
+   */
+  async listSnapshots(): Promise<{ snapshots: SyncSnapshotSummary[]; error: string | null }> {
+    try {
+      const { target, error: connectError } = await this.connect();
+      if (!target) {
+        return { snapshots: [], error: connectError };
+      }
+      const key = await syncKeyManager.getKey();
+      if (!key) {
+        return { snapshots: [], error: 'Sync passphrase not set up on this device' };
+      }
+
+      const { snapshots } = await this.fetchCloudState(target, key);
+      return { snapshots: snapshots.map(({ manifest: _manifest, ...summary }) => summary), error: null };
+    } catch (error) {
+      console.error('Failed to load sync history:', error);
+      return { snapshots: [], error: 'Failed to load version history' };
+    }
+  }
+
+  /**
+   * Find a previous cloud version for the signed-in account
+   */
+  private async loadSnapshot(snapshotId: string): Promise<{ target: SyncTarget; snapshot: SyncSnapshot }> {
+    const { target, error } = await this.connect();
+    if (!target) {
+      throw new Error(error);
+    }
+    const key = await syncKeyManager.getKey();
+    if (!key) {
+      throw new Error('Sync passphrase not set up on this device');
+    }
+
+    const { snapshots } = await this.fetchCloudState(target, key);
+    const snapshot = snapshots.find(s => s.id === snapshotId);
+    if (!snapshot) {
+      throw new Error('That version is no longer available');
+    }
+    return { target, snapshot };
+  }
+
+  /**
+   * Download the records of a previous cloud version
+   */
+  async getSnapshotRecords(
+    snapshotId: string,
+    onProgress?: (progress: SyncProgress) => void
+  ): Promise<{ records: RecordType[]; error: string | null }> {
+    try {
+      const { target, snapshot } = await this.loadSnapshot(snapshotId);
+      const records = await this.downloadManifestRecords(target, snapshot.manifest, await this.getSyncBase(), onProgress);
+      return { records, error: null };
+    } catch (error) {
+      console.error('Failed to download version:', error);
+      return { records: [], error: error instanceof Error ? error.message : 'Failed to download this version' };
+    }
+  }
+
+  /**
+   * Fetch chosen records from a previous version, together with any of their
+   * attachments this device no longer has, so they can be added back locally
+   */
+  async recoverFromSnapshot(
+    snapshotId: string,
+    recordIds: string[],
+    onProgress?: (progress: SyncProgress) => void
+  ): Promise<{ records: RecordType[]; error: string | null; rejectedAttachments?: string[] }> {
+    try {
+      const { target, snapshot } = await this.loadSnapshot(snapshotId);
+      const wanted = Object.fromEntries(
+        Object.entries(snapshot.manifest.records).filter(([recordId]) => recordIds.includes(recordId))
+      );
+      const records = await this.downloadManifestRecords(
+        target,
+        { ...snapshot.manifest, records: wanted },
+        await this.getSyncBase(),
+        onProgress
+      );
+      const rejected = await this.downloadMissingAttachments(target, records, snapshot.manifest, onProgress);
+      return { records, error: null, rejectedAttachments: rejected.map(file => file.name) };
+    } catch (error) {
+      console.error('Failed to recover records:', error);
+      return { records: [], error: error instanceof Error ? error.message : 'Failed to recover records' };
+    }
+  }
+
+  /**
+   * Mark records as restored on this device, so the next sync brings them
+   * back instead of applying their tombstones or reporting a conflict
+   */
+  async supersedeTombstones(recordIds: string[]): Promise<void> {
+    if (recordIds.length === 0) return;
+    const base = await this.getSyncBase();
+    const restoredIds = new Set([...(base.restoredIds ?? []), ...recordIds]);
+    await indexedDBStorage.saveSetting(SYNC_BASE_KEY, {
+      ...base,
+      tombstones: base.tombstones.filter(t => !restoredIds.has(t.id)),
+      restoredIds: Array.from(restoredIds),
+    });
+  }
+
+  /**
+   * Make a previous version the current cloud state. Records added since are
+   * deleted everywhere, and records changed or deleted since come back as
+   * they were. The state being replaced is itself kept in the history.
+   * On success, returns the restored records for the caller to apply locally.
    */
-  async uploadToCloud(records: RecordType[]): Promise<{ success: boolean; error: string | null }> {
-    if (!isSupabaseConfigured || !supabase) {
-      return { success: false, error: 'Cloud sync not configured' };
+  async rollbackToSnapshot(
+    snapshotId: string,
+    onProgress?: (progress: SyncProgress) => void
+  ): Promise<SyncResult> {
+    try {
+      const { target, error: connectError } = await this.connect();
+      if (!target) {
+        return { success: false, error: connectError };
+      }
+      const key = await syncKeyManager.getKey();
+      if (!key) {
+        return { success: false, error: 'Sync passphrase not set up on this device' };
+      }
+
+      const { manifest: current, snapshots, version } = await this.fetchCloudState(target, key);
+      const snapshot = snapshots.find(s => s.id === snapshotId);
+      if (!snapshot) {
+        return { success: false, error: 'That version is no longer available' };
+      }
+
+      const base = await this.getSyncBase();
+      const now = new Date().toISOString();
+      const currentIds = new Set(Object.keys(current?.records ?? {}));
+      // Records deleted since count as edited now, or other devices' tombstones would delete them again
+      const records = (await this.downloadManifestRecords(target, snapshot.manifest, base, onProgress))
+        .map(record => (currentIds.has(record.id) ? record : { ...record, editedAt: now }));
+
+      // Other devices must delete whatever the restored version did not have
+      const restoredIds = new Set(records.map(record => record.id));
+      const tombstones = new Map(snapshot.manifest.tombstones.map(t => [t.id, t]));
+      Object.keys(current?.records ?? {}).forEach(id => {
+        if (!restoredIds.has(id)) tombstones.set(id, { id, deletedAt: now });
+      });
+      (current?.tombstones ?? []).forEach(t => {
+        if (!restoredIds.has(t.id) && !tombstones.has(t.id)) tombstones.set(t.id, t);
+      });
+
+      // Attachments only the old version references must be local before they can be re-uploaded
+      const rejected = await this.downloadMissingAttachments(target, records, snapshot.manifest, onProgress);
+
+      const { manifest, error: uploadError, stale } = await this.uploadToCloud(
+        records,
+        Array.from(tombstones.values()),
+        current,
+        version,
+        onProgress
+      );
+      if (stale) {
+        return { success: false, error: 'Another device synced during the rollback. Try again.' };
+      }
+      if (!manifest) {
+        return { success: false, error: uploadError };
+      }
+
+      const newBase: SyncBase = { syncedAt: now, records, tombstones: manifest.tombstones, manifest };
+      await indexedDBStorage.saveSetting(SYNC_BASE_KEY, newBase);
+
+      console.log(`Rolled back cloud data to version from ${snapshot.createdAt}`);
+      return { success: true, error: null, records, rejectedAttachments: rejected.map(file => file.name) };
+    } catch (error) {
+      console.error('Rollback failed:', error);
+      return { success: false, error: 'Failed to roll back' };
     }
+  }
+
+  private async getUploadJournal(): Promise<UploadJournal> {
+    return (await indexedDBStorage.getSetting(UPLOAD_JOURNAL_KEY)) ?? { objectIds: [], attachments: {} };
+  }
 
+  /**
+   * Upload every record and attachment the server does not already hold,
+   * then commit a new manifest. Returns the committed manifest, or stale
+   * without committing if the document is no longer at expectedVersion.
+   */
+  async uploadToCloud(
+    records: RecordType[],
+    tombstones: RecordTombstone[],
+    remoteManifest: SyncManifest | null,
+    expectedVersion: string | null,
+    onProgress?: (progress: SyncProgress) => void
+  ): Promise<{ manifest: SyncManifest | null; error: string | null; stale?: boolean }> {
     try {
-      const user = await authService.getCurrentUser();
-      if (!user) {
-        return { success: false, error: 'Not signed in' };
+      const { target, error: connectError } = await this.connect();
+      if (!target) {
+        return { manifest: null, error: connectError };
+      }
+
+      const key = await syncKeyManager.getKey();
+      const envelope = await syncKeyManager.getEnvelope();
+      if (!key || !envelope) {
+        return { manifest: null, error: 'Sync passphrase not set up on this device' };
       }
 
-      // Gather all data
-      const settings = {
-        pin: await indexedDBStorage.getSetting('recordKeeper_pin'),
-        decoyPin: await indexedDBStorage.getSetting('recordKeeper_decoyPin'),
-        lockEnabled: await indexedDBStorage.getSetting('recordKeeper_lockEnabled'),
-        userName: await indexedDBStorage.getSetting('recordKeeper_userName'),
+      const journal = await this.getUploadJournal();
+      const uploaded = new Set([
+        ...Object.values(remoteManifest?.records ?? {}),
+        ...Object.values(remoteManifest?.attachments ?? {}),
+        ...journal.objectIds,
+      ]);
+
+      const recordUpload = async (objectId: string, plaintext: ArrayBuffer) => {
+        if (uploaded.has(objectId)) return;
+        await syncObjectStore.put(target, objectId, plaintext);
+        uploaded.add(objectId);
+        journal.objectIds.push(objectId);
+        await indexedDBStorage.saveSetting(UPLOAD_JOURNAL_KEY, journal);
       };
 
-      const syncData: SyncData = {
+      // Records: small, so re-hashing each sync is cheap and catches every change
+      const recordObjects: Record<string, string> = {};
+      let done = 0;
+      onProgress?.({ phase: 'uploading', done, total: records.length });
+      await runWithConcurrency(records, TRANSFER_CONCURRENCY, async (record) => {
+        const plaintext = new TextEncoder().encode(JSON.stringify(record)).buffer as ArrayBuffer;
+        const objectId = await syncObjectStore.computeObjectId(plaintext);
+        await recordUpload(objectId, plaintext);
+        recordObjects[record.id] = objectId;
+        onProgress?.({ phase: 'uploading', done: ++done, total: records.length });
+      });
+
+      // Attachments: immutable per id, so only ones the server has never seen are read and uploaded
+      const attachmentObjects: Record<string, string> = {};
+      const pending = records.flatMap(record => record.files ?? []).filter(file => {
+        const known = remoteManifest?.attachments[file.id] ?? journal.attachments[file.id];
+        if (known) attachmentObjects[file.id] = known;
+        return !known;
+      });
+
+      done = 0;
+      onProgress?.({ phase: 'attachments', done, total: pending.length });
+      await runWithConcurrency(pending, TRANSFER_CONCURRENCY, async (file) => {
+        const blob = await recordStorage.getAttachment(file.id);
+        if (!blob) {
+          console.warn(`Attachment ${file.id} has no local content; skipping upload`);
+        } else {
+          const plaintext = await blob.arrayBuffer();
+          const objectId = await syncObjectStore.computeObjectId(plaintext);
+          await recordUpload(objectId, plaintext);
+          journal.attachments[file.id] = objectId;
+          attachmentObjects[file.id] = objectId;
+        }
+        onProgress?.({ phase: 'attachments', done: ++done, total: pending.length });
+      });
+
+      const manifest: SyncManifest = {
         version: this.SYNC_VERSION,
-        lastSynced: new Date().toISOString(),
-        records,
-        settings,
+        updatedAt: new Date().toISOString(),
+        records: recordObjects,
+        attachments: attachmentObjects,
+        tombstones,
+        settings: {
+          pin: await indexedDBStorage.getSetting('recordKeeper_pin'),
+          decoyPin: await indexedDBStorage.getSetting('recordKeeper_decoyPin'),
+          lockEnabled: await indexedDBStorage.getSetting('recordKeeper_lockEnabled'),
+          userName: await indexedDBStorage.getSetting('recordKeeper_userName'),
+          taxonomy: localStorage.getItem(TAXONOMY_KEY) ?? undefined,
+        },
       };
 
-      // Encrypt data locally
-      const encryptedData = await this.encryptData(syncData, user.id);
-
-      // Upload to Supabase
-      const { error } = await supabase
-        .from('user_data')
-        .upsert({
-          user_id: user.id,
-          encrypted_data: encryptedData,
-          last_synced: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
+      // The state being replaced becomes the newest version in the history
+      const { snapshots, version } = await this.fetchCloudState(target, key);
+      if (version !== expectedVersion) {
+        return { manifest: null, error: null, stale: true };
+      }
+      if (remoteManifest && !sameManifestContent(remoteManifest, manifest)) {
+        snapshots.unshift({
+          id: crypto.randomUUID(),
+          createdAt: remoteManifest.updatedAt,
+          recordCount: Object.keys(remoteManifest.records).length,
+          attachmentCount: Object.keys(remoteManifest.attachments).length,
+          manifest: remoteManifest,
         });
+      }
+      const kept = snapshots.slice(0, SYNC_HISTORY_LIMIT);
+      const evicted = snapshots.slice(SYNC_HISTORY_LIMIT);
+      const history: SyncHistory = { version: this.SYNC_VERSION, snapshots: kept };
 
-      if (error) {
+      // Committing the manifest makes the new objects visible to other devices
+      try {
+        const committed = await target.provider.writeDocument(target.accountId, {
+          encryptedData: await this.encryptData(manifest, key),
+          history: await this.encryptData(history, key),
+          keyEnvelope: JSON.stringify(envelope),
+          lastSynced: new Date().toISOString(),
+        }, expectedVersion);
+        if (!committed) {
+          return { manifest: null, error: null, stale: true };
+        }
+      } catch (error) {
         console.error('Upload error:', error);
-        return { success: false, error: error.message };
+        return { manifest: null, error: error instanceof Error ? error.message : 'Failed to upload to cloud' };
       }
 
-      console.log('Data synced to cloud successfully');
-      return { success: true, error: null };
+      await indexedDBStorage.saveSetting(UPLOAD_JOURNAL_KEY, null);
+
+      // Objects that neither this manifest nor any kept version references are no longer needed
+      const referenced = new Set([manifest, ...kept.map(s => s.manifest)].flatMap(manifestObjectIds));
+      const unreferenced = [remoteManifest, ...evicted.map(s => s.manifest)]
+        .flatMap(m => (m ? manifestObjectIds(m) : []))
+        .filter(id => !referenced.has(id));
+      await syncObjectStore.remove(target, Array.from(new Set(unreferenced)));
+
+      console.log(`Data synced to cloud successfully: ${journal.objectIds.length} objects uploaded`);
+      return { manifest, error: null };
     } catch (error) {
       console.error('Cloud upload failed:', error);
-      return { success: false, error: 'Failed to upload to cloud' };
+      return { manifest: null, error: 'Failed to upload to cloud' };
     }
   }
 
   /**
-   * Download encrypted data from cloud
+   * Download the cloud manifest and the records it references. Records whose
+   * object id matches the last-synced base are reused instead of downloaded.
+   * Older single-blob uploads are returned without a manifest so they get
+   * re-uploaded as individual objects, together with the attachment content
+   * they embed. Nothing is stored locally; that is up to the caller.
    */
-  async downloadFromCloud(): Promise<{ data: SyncData | null; error: string | null }> {
-    if (!isSupabaseConfigured || !supabase) {
-      return { data: null, error: 'Cloud sync not configured' };
-    }
-
+  async downloadFromCloud(
+    base: SyncBase,
+    onProgress?: (progress: SyncProgress) => void
+  ): Promise<{
+    data: {
+      manifest: SyncManifest | null;
+      records: RecordType[];
+      tombstones: RecordTombstone[];
+      settings: SyncData['settings'];
+      lastSynced?: string;
+      attachments: StoredAttachment[];
+    } | null;
+    /** Version of the document the data was read from, for committing on top of it */
+    version: string | null;
+    error: string | null;
+  }> {
     try {
-      const user = await authService.getCurrentUser();
-      if (!user) {
-        return { data: null, error: 'Not signed in' };
-      }
-
-      // Download from Supabase
-      const { data, error } = await supabase
-        .from('user_data')
-        .select('encrypted_data, last_synced')
-        .eq('user_id', user.id)
-        .single();
-
-      if (error) {
-        if (error.code === 'PGRST116') {
-          // No data found - this is OK for first sync
-          return { data: null, error: null };
-        }
-        console.error('Download error:', error);
-        return { data: null, error: error.message };
+      const { target, error: connectError } = await this.connect();
+      if (!target) {
+        return { data: null, version: null, error: connectError };
       }
 
-      if (!data?.encrypted_data) {
-        return { data: null, error: null };
+      const document = await target.provider.readDocument(target.accountId);
+      const version = document?.version ?? null;
+
+      // No data found - this is OK for first sync
+      if (!document?.encryptedData) {
+        return { data: null, version, error: null };
       }
 
       // Decrypt data locally
-      const syncData = await this.decryptData(data.encrypted_data, user.id);
+      let payload: SyncData | SyncManifest;
+      if (document.encryptedData.startsWith(ENCRYPTION_PREFIX)) {
+        const key = await syncKeyManager.getKey();
+        if (!key) {
+          return { data: null, version, error: 'Sync passphrase not set up on this device' };
+        }
+        payload = await this.decryptData(document.encryptedData, key) as SyncData | SyncManifest;
+      } else {
+        // Re-encrypted with the sync key on the next upload
+        payload = await this.decryptLegacyData(document.encryptedData, target.accountId);
+        console.log('Downloaded legacy user-id encrypted data; it will be migrated to the sync key');
+      }
+
+      if (!('attachments' in payload)) {
+        console.log('Downloaded single-blob sync data; it will be migrated to per-object sync');
+        // Older uploads embedded attachments as data URLs; split them out for the attachments store
+        const records: RecordType[] = [];
+        const attachments: StoredAttachment[] = [];
+        for (const embedded of payload.records) {
+          const { record, blobs } = extractInlineAttachments(embedded);
+          attachments.push(...blobs);
+          records.push(record);
+        }
+        return {
+          data: {
+            manifest: null,
+            records,
+            tombstones: payload.tombstones ?? [],
+            settings: payload.settings ?? {},
+            lastSynced: document.lastSynced ?? undefined,
+            attachments,
+          },
+          version,
+          error: null,
+        };
+      }
+
+      const manifest = payload;
+      const records = await this.downloadManifestRecords(target, manifest, base, onProgress);
 
       console.log('Data downloaded from cloud successfully');
-      return { data: syncData, error: null };
+      return {
+        data: {
+          manifest,
+          records,
+          tombstones: manifest.tombstones,
+          settings: manifest.settings ?? {},
+          lastSynced: document.lastSynced ?? undefined,
+          attachments: [],
+        },
+        version,
+        error: null,
+      };
     } catch (error) {
       console.error('Cloud download failed:', error);
-      return { data: null, error: 'Failed to download from cloud' };
+      return { data: null, version: null, error: 'Failed to download from cloud' };
     }
   }
 
   /**
-   * Apply downloaded data to local storage
+   * Download the records a manifest references, reusing base records whose
+   * object id is unchanged
    */
-  async applySyncData(syncData: SyncData): Promise<void> {
-    try {
-      // Restore records
-      await indexedDBStorage.saveRecords(syncData.records);
+  private async downloadManifestRecords(
+    target: SyncTarget,
+    manifest: SyncManifest,
+    base: SyncBase,
+    onProgress?: (progress: SyncProgress) => void
+  ): Promise<RecordType[]> {
+    const baseById = new Map(base.records.map(record => [record.id, record]));
+    const entries = Object.entries(manifest.records);
+    const records: RecordType[] = [];
+    let done = 0;
 
-      // Restore settings
-      if (syncData.settings.pin) {
-        await indexedDBStorage.saveSetting('recordKeeper_pin', syncData.settings.pin);
+    onProgress?.({ phase: 'downloading', done, total: entries.length });
+    await runWithConcurrency(entries, TRANSFER_CONCURRENCY, async ([recordId, objectId]) => {
+      const cached = baseById.get(recordId);
+      if (cached && base.manifest?.records[recordId] === objectId) {
+        records.push(cached);
+      } else {
+        const plaintext = await syncObjectStore.get(target, objectId);
+        records.push(JSON.parse(new TextDecoder().decode(plaintext)));
       }
-      if (syncData.settings.decoyPin) {
-        await indexedDBStorage.saveSetting('recordKeeper_decoyPin', syncData.settings.decoyPin);
+      onProgress?.({ phase: 'downloading', done: ++done, total: entries.length });
+    });
+    return records;
+  }
+
+  /**
+   * Fetch attachment content this device does not have yet, checking each
+   * against the fingerprint captured when it was first added. Content that
+   * does not match is not saved; those attachments are returned.
+   */
+  private async downloadMissingAttachments(
+    target: SyncTarget,
+    records: RecordType[],
+    manifest: SyncManifest,
+    onProgress?: (progress: SyncProgress) => void
+  ): Promise<AttachmentType[]> {
+    const files = records.flatMap(record => record.files ?? []).filter(file => manifest.attachments[file.id]);
+    const missing: typeof files = [];
+    for (const file of files) {
+      if (!(await recordStorage.getAttachment(file.id))) {
+        missing.push(file);
       }
-      if (syncData.settings.lockEnabled) {
-        await indexedDBStorage.saveSetting('recordKeeper_lockEnabled', syncData.settings.lockEnabled);
+    }
+
+    const rejected: AttachmentType[] = [];
+    let done = 0;
+    onProgress?.({ phase: 'attachments', done, total: missing.length });
+    await runWithConcurrency(missing, TRANSFER_CONCURRENCY, async (file) => {
+      const plaintext = await syncObjectStore.get(target, manifest.attachments[file.id]);
+      const blob = new Blob([plaintext], { type: file.mimeType || 'application/octet-stream' });
+      if (file.fileHash && (await hashFileBytes(blob)) !== file.fileHash) {
+        console.error(`Downloaded attachment ${file.id} does not match its fingerprint; not saving it`);
+        rejected.push(file);
+      } else {
+        await recordStorage.saveAttachment(file.id, blob);
       }
-      if (syncData.settings.userName) {
-        await indexedDBStorage.saveSetting('recordKeeper_userName', syncData.settings.userName);
+      onProgress?.({ phase: 'attachments', done: ++done, total: missing.length });
+    });
+    return rejected;
+  }
+
+  /**
+   * Download and decrypt the account's cloud data and summarize it, so the
+   * user can check it before restoring. Requires the sync key to be unlocked.
+   */
+  async previewRestore(
+    onProgress?: (progress: SyncProgress) => void
+  ): Promise<{ preview: CloudRestorePreview | null; error: string | null }> {
+    const empty: SyncBase = { syncedAt: '', records: [], tombstones: [] };
+    const { data, error } = await this.downloadFromCloud(empty, onProgress);
+    if (error) {
+      return { preview: null, error };
+    }
+    if (!data) {
+      return { preview: null, error: 'No cloud data found for this account' };
+    }
+
+    const dates = data.records.map(record => record.dateTime).filter(Boolean).sort();
+    return {
+      preview: {
+        recordCount: data.records.length,
+        attachmentCount: data.records.reduce((count, record) => count + (record.files?.length ?? 0), 0),
+        earliestDate: dates[0],
+        latestDate: dates[dates.length - 1],
+        lastSynced: data.lastSynced,
+        hasCustomTaxonomy: !!data.settings.taxonomy,
+        settings: data.settings,
+        records: data.records,
+        tombstones: data.tombstones,
+        manifest: data.manifest,
+        attachments: data.attachments,
+      },
+      error: null,
+    };
+  }
+
+  /**
+   * Restore previewed cloud data onto this device. Settings and the custom
+   * taxonomy are restored first, and only where this device has none of its
+   * own. Records are merged with any local records rather than replacing them,
+   * and the cloud state becomes the sync base so local-only records upload
+   * on the next sync.
+   */
+  async restoreFromCloud(
+    preview: CloudRestorePreview,
+    onProgress?: (progress: SyncProgress) => void
+  ): Promise<{ success: boolean; error: string | null; rejectedAttachments?: string[] }> {
+    try {
+      const { target, error: connectError } = await this.connect();
+      if (!target) {
+        return { success: false, error: connectError };
       }
 
-      console.log(`Applied cloud sync data: ${syncData.records.length} records`);
+      const settings: [string, StoredPin | undefined][] = [
+        ['recordKeeper_pin', preview.settings.pin],
+        ['recordKeeper_decoyPin', preview.settings.decoyPin],
+        ['recordKeeper_lockEnabled', preview.settings.lockEnabled],
+        ['recordKeeper_userName', preview.settings.userName],
+      ];
+      for (const [key, value] of settings) {
+        if (value && !(await indexedDBStorage.getSetting(key))) {
+          await indexedDBStorage.saveSetting(key, value);
+        }
+      }
+      if (preview.settings.taxonomy && !localStorage.getItem(TAXONOMY_KEY)) {
+        localStorage.setItem(TAXONOMY_KEY, preview.settings.taxonomy);
+      }
+
+      const localRecords = await recordStorage.getRecords();
+      const { records } = await mergeRecords({
+        local: localRecords,
+        remote: preview.records,
+        base: [],
+        localTombstones: [],
+        remoteTombstones: preview.tombstones,
+      });
+
+      // Attachments first, so an interrupted restore never leaves records pointing at missing content
+      for (const attachment of preview.attachments) {
+        await recordStorage.saveAttachment(attachment.id, attachment.blob);
+      }
+      const rejected = preview.manifest
+        ? await this.downloadMissingAttachments(target, records, preview.manifest, onProgress)
+        : [];
+      await recordStorage.saveRecords(records);
+
+      const base: SyncBase = {
+        syncedAt: new Date().toISOString(),
+        records: preview.records,
+        tombstones: preview.tombstones,
+        manifest: preview.manifest ?? undefined,
+      };
+      await indexedDBStorage.saveSetting(SYNC_BASE_KEY, base);
+      await indexedDBStorage.saveSetting('recordKeeper_welcomeCompleted', 'true');
+
+      console.log(`Restored from cloud: ${preview.records.length} cloud records, ${records.length} after merge`);
+      return { success: true, error: null, rejectedAttachments: rejected.map(file => file.name) };
     } catch (error) {
-      console.error('Failed to apply sync data:', error);
-      throw new Error('Failed to apply sync data');
+      console.error('Cloud restore failed:', error);
+      return { success: false, error: 'Failed to restore from cloud' };
     }
   }
 
   /**
-   * Full sync: upload local data and merge with cloud data
+   * Load the snapshot taken at the last successful sync
+   */
+  private async getSyncBase(): Promise<SyncBase> {
+    const base = await indexedDBStorage.getSetting(SYNC_BASE_KEY);
+    return base ?? { syncedAt: '', records: [], tombstones: [] };
+  }
+
+  /**
+   * Full sync: three-way merge of local and cloud records against the
+   * last-synced base, then upload the result. Conflicting edits are passed to
+   * resolveConflicts; without a resolver the sync fails instead of picking a side.
+   * On success, returns the merged records for the caller to apply locally.
    */
-  async sync(localRecords: RecordType[]): Promise<{ success: boolean; error: string | null }> {
+  async sync(
+    localRecords: RecordType[],
+    resolveConflicts?: ConflictResolver,
+    onProgress?: (progress: SyncProgress) => void
+  ): Promise<SyncResult> {
     try {
-      // Download cloud data first
-      const { data: cloudData, error: downloadError } = await this.downloadFromCloud();
+      const { target, error: connectError } = await this.connect();
+      if (!target) {
+        return { success: false, error: connectError };
+      }
 
-      if (downloadError) {
-        return { success: false, error: downloadError };
+      const localEnvelope = await syncKeyManager.getEnvelope();
+      if (!localEnvelope) {
+        return { success: false, error: 'Sync passphrase not set up on this device' };
       }
 
-      let recordsToUpload = localRecords;
+      // Make sure this device still holds the account's current key
+      const { envelope: remoteEnvelope, error: envelopeError } = await this.downloadKeyEnvelope();
+      if (envelopeError) {
+        return { success: false, error: envelopeError };
+      }
+      if (remoteEnvelope && remoteEnvelope.keyId !== localEnvelope.keyId) {
+        await syncKeyManager.clear();
+        return { success: false, error: 'Your sync key has changed on another device. Unlock sync again to continue.' };
+      }
+      if (remoteEnvelope && remoteEnvelope.updatedAt > localEnvelope.updatedAt) {
+        // Passphrase was changed elsewhere; keep the newer wrapping so it is not overwritten
+        await syncKeyManager.adoptEnvelope(remoteEnvelope);
+      }
+
+      // Another device may commit while this one merges; then merge again on top of its commit
+      const base = await this.getSyncBase();
+      let records = localRecords;
+      let tombstones = base.tombstones;
+      let manifest: SyncManifest | null = null;
+      for (let attempt = 1; !manifest; attempt++) {
+        const { data: cloudData, version, error: downloadError } = await this.downloadFromCloud(base, onProgress);
+        if (downloadError) {
+          return { success: false, error: downloadError };
+        }
+
+        records = localRecords;
+        tombstones = base.tombstones;
 
-      // If cloud has data, merge it
-      if (cloudData && cloudData.records.length > 0) {
-        // Simple merge: combine and deduplicate by ID
-        const mergedRecords = [...localRecords];
-        const localIds = new Set(localRecords.map(r => r.id));
+        // Nothing in the cloud yet means nothing to merge; the local state is uploaded as-is
+        if (cloudData) {
+          const input = {
+            local: localRecords,
+            remote: cloudData.records,
+            base: base.records,
+            localTombstones: base.tombstones,
+            remoteTombstones: cloudData.tombstones,
+            restoredIds: base.restoredIds,
+          };
 
-        for (const cloudRecord of cloudData.records) {
-          if (!localIds.has(cloudRecord.id)) {
-            mergedRecords.push(cloudRecord);
+          let merged = await mergeRecords(input);
+          if (merged.conflicts.length > 0) {
+            if (!resolveConflicts) {
+              return {
+                success: false,
+                error: `${merged.conflicts.length} sync conflicts need to be resolved`,
+                conflictCount: merged.conflicts.length,
+              };
+            }
+            const resolutions = await resolveConflicts(merged.conflicts);
+            if (!resolutions) {
+              return { success: false, error: 'Sync cancelled', cancelled: true };
+            }
+            merged = await mergeRecords(input, resolutions);
           }
+
+          records = merged.records;
+          tombstones = merged.tombstones;
+        }
+
+        // Attachments from a single-blob upload are read back from local storage to upload them
+        for (const attachment of cloudData?.attachments ?? []) {
+          await recordStorage.saveAttachment(attachment.id, attachment.blob);
         }
 
-        // Apply merged data locally
-        await indexedDBStorage.saveRecords(mergedRecords);
-        recordsToUpload = mergedRecords;
+        const upload = await this.uploadToCloud(records, tombstones, cloudData?.manifest ?? null, version, onProgress);
+        if (upload.stale && attempt < COMMIT_ATTEMPTS) {
+          console.log('Cloud data changed during sync; merging again');
+          continue;
+        }
+        if (upload.stale) {
+          return { success: false, error: 'Other devices kept syncing at the same time. Try again.' };
+        }
+        if (!upload.manifest) {
+          return { success: false, error: upload.error };
+        }
+        manifest = upload.manifest;
       }
 
-      // Upload to cloud
-      const { success, error: uploadError } = await this.uploadToCloud(recordsToUpload);
+      const rejected = await this.downloadMissingAttachments(target, records, manifest, onProgress);
 
-      if (!success) {
-        return { success: false, error: uploadError };
-      }
+      // Records restored while this sync ran still need their tombstones superseded next time
+      const syncedIds = new Set(localRecords.map(record => record.id));
+      const pendingRestores = ((await this.getSyncBase()).restoredIds ?? []).filter(id => !syncedIds.has(id));
+      const newBase: SyncBase = {
+        syncedAt: new Date().toISOString(),
+        records,
+        tombstones: tombstones.filter(t => !pendingRestores.includes(t.id)),
+        manifest,
+        ...(pendingRestores.length > 0 ? { restoredIds: pendingRestores } : {}),
+      };
+      await indexedDBStorage.saveSetting(SYNC_BASE_KEY, newBase);
 
-      return { success: true, error: null };
+      return { success: true, error: null, records, rejectedAttachments: rejected.map(file => file.name) };
     } catch (error) {
       console.error('Sync failed:', error);
       return { success: false, error: 'Sync failed' };
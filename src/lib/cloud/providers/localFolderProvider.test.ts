@@ -0,0 +1,139 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LocalFolderSyncProvider } from './localFolderProvider';
+
+/**
+ * @capacitor/filesystem backed by a temporary folder, failing the way the
+ * native plugins do when a file is missing
+ */
+const documents = vi.hoisted(() => ({ root: '' }));
+
+vi.mock('@capacitor/filesystem', async () => {
+  const fs = await import('node:fs/promises');
+  const { dirname, join } = await import('node:path');
+
+  const resolve = (path: string) => join(documents.root, path);
+  const notFound = async <T>(operation: () => Promise<T>): Promise<T> => {
+    try {
+      return await operation();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') throw new Error('File does not exist');
+      throw error;
+    }
+  };
+
+  return {
+    Directory: { Documents: 'DOCUMENTS' },
+    Encoding: { UTF8: 'utf8' },
+    Filesystem: {
+      readFile: ({ path, encoding }: { path: string; encoding?: string }) => notFound(async () => ({
+        data: await fs.readFile(resolve(path), encoding === 'utf8' ? 'utf8' : 'base64'),
+      })),
+      writeFile: async ({ path, data, encoding, recursive }: { path: string; data: string; encoding?: string; recursive?: boolean }) => {
+        if (recursive) await fs.mkdir(dirname(resolve(path)), { recursive: true });
+        await notFound(() => fs.writeFile(resolve(path), data, encoding === 'utf8' ? 'utf8' : 'base64'));
+        return { uri: resolve(path) };
+      },
+      rename: ({ from, to }: { from: string; to: string }) => notFound(() => fs.rename(resolve(from), resolve(to))),
+      stat: ({ path }: { path: string }) => notFound(() => fs.stat(resolve(path))),
+      deleteFile: ({ path }: { path: string }) => notFound(() => fs.unlink(resolve(path))),
+    },
+  };
+});
+
+describe('LocalFolderSyncProvider', () => {
+  let provider: LocalFolderSyncProvider;
+  let accountId: string;
+
+  beforeEach(async () => {
+    if (documents.root) await rm(documents.root, { recursive: true, force: true });
+    documents.root = await mkdtemp(join(tmpdir(), 'herlaw-sync-'));
+    provider = new LocalFolderSyncProvider({ path: '/HerLaw Sync/' });
+    accountId = (await provider.getAccountId())!;
+  });
+
+  afterAll(async () => {
+    await rm(documents.root, { recursive: true, force: true });
+  });
+
+  it('reads no document before the first sync', async () => {
+    expect(provider.label).toBe('Documents/HerLaw Sync');
+    expect(await provider.readDocument(accountId)).toBeNull();
+  });
+
+  it('writes the document and keeps fields not being updated', async () => {
+    await provider.writeDocument(accountId, { encryptedData: 'manifest-1', keyEnvelope: 'envelope' });
+    await provider.writeDocument(accountId, { encryptedData: 'manifest-2', lastSynced: '2024-01-02T00:00:00.000Z' });
+
+    expect(await provider.readDocument(accountId)).toEqual({
+      encryptedData: 'manifest-2',
+      keyEnvelope: 'envelope',
+      history: null,
+      lastSynced: '2024-01-02T00:00:00.000Z',
+      version: expect.any(String),
+    });
+  });
+
+  it('writes conditionally only while the document is at the expected version', async () => {
+    expect(await provider.writeDocument(accountId, { encryptedData: 'manifest-1' }, null)).toBe(true);
+    const read = (await provider.readDocument(accountId))!;
+
+    // A file sync tool delivers another device's sync in between
+    await writeFile(
+      join(documents.root, 'HerLaw Sync', 'sync.json'),
+      JSON.stringify({ encryptedData: 'manifest-2', keyEnvelope: null, history: null, lastSynced: null })
+    );
+
+    expect(await provider.writeDocument(accountId, { encryptedData: 'manifest-3' }, read.version)).toBe(false);
+    expect(await provider.writeDocument(accountId, { encryptedData: 'manifest-3' }, null)).toBe(false);
+    const current = (await provider.readDocument(accountId))!;
+    expect(current.encryptedData).toBe('manifest-2');
+
+    expect(await provider.writeDocument(accountId, { encryptedData: 'manifest-3' }, current.version)).toBe(true);
+    expect((await provider.readDocument(accountId))!.encryptedData).toBe('manifest-3');
+  });
+
+  it('replaces a temporary file left by an interrupted write', async () => {
+    await mkdir(join(documents.root, 'HerLaw Sync'), { recursive: true });
+    await writeFile(join(documents.root, 'HerLaw Sync', 'sync.json.tmp'), '{"encryptedData":"half');
+
+    await provider.writeDocument(accountId, { encryptedData: 'manifest-1' });
+    expect((await provider.readDocument(accountId))!.encryptedData).toBe('manifest-1');
+  });
+
+  it('reports failures other than a missing file instead of starting over', async () => {
+    // A folder where the document should be cannot be read as a file
+    await mkdir(join(documents.root, 'HerLaw Sync', 'sync.json'), { recursive: true });
+
+    await expect(provider.readDocument(accountId)).rejects.toThrow();
+    await expect(provider.writeDocument(accountId, { encryptedData: 'x' })).rejects.toThrow();
+  });
+
+  it('stores and returns objects byte for byte', async () => {
+    const bytes = new Uint8Array([0, 1, 2, 253, 254, 255]);
+    await provider.putObject(accountId, 'object-1', new Blob([bytes]));
+
+    const blob = await provider.getObject(accountId, 'object-1');
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(bytes);
+  });
+
+  it('treats storing an existing object as a no-op', async () => {
+    await provider.putObject(accountId, 'object-1', new Blob(['first']));
+    await provider.putObject(accountId, 'object-1', new Blob(['second']));
+
+    expect(await (await provider.getObject(accountId, 'object-1')).text()).toBe('first');
+  });
+
+  it('fails to get a missing object', async () => {
+    await expect(provider.getObject(accountId, 'missing')).rejects.toThrow('does not exist');
+  });
+
+  it('removes objects and ignores ones that are already gone', async () => {
+    await provider.putObject(accountId, 'object-1', new Blob(['a']));
+    await provider.removeObjects(accountId, ['object-1', 'missing']);
+
+    await expect(provider.getObject(accountId, 'object-1')).rejects.toThrow('does not exist');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Local Folder Sync Provider
+ * Syncs to a folder in the device's Documents directory. Pointing a file
+ * sync tool the user already trusts (Syncthing, a Nextcloud or SMB client,
+ * a USB transfer) at that folder moves data between devices without any
+ * account or third-party server.
+ *
+ * Layout under the folder matches the WebDAV provider:
+ *   sync.json          the sync document
+ *   objects/<id>       encrypted objects
+ *
+ * The document's version is a hash of its content. A folder offers no
+ * atomic compare-and-swap, so a conditional write re-reads the document
+ * right before replacing it; this only protects against writes seen by
+ * then, e.g. a file sync tool that delivered another device's sync.
+ */
+
+import { Directory, Encoding, Filesystem } from '@capacitor/filesystem';
+import { dataUrlToBlob } from '../../storage/inlineAttachments';
+import { sha256Hex } from '../../security/recordIntegrity';
+import { EMPTY_SYNC_DOCUMENT, LocalFolderConfig, SyncDocument, SyncProvider, VersionedSyncDocument } from '../syncProvider';
+
+const DOCUMENT_FILE = 'sync.json';
+const OBJECTS_FOLDER = 'objects';
+const DIRECTORY = Directory.Documents;
+/** A folder has no accounts; everything lives directly under it */
+const LOCAL_ACCOUNT_ID = 'local';
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && /does not exist|not found|no such file/i.test(error.message);
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export class LocalFolderSyncProvider implements SyncProvider {
+  readonly type = 'localFolder' as const;
+  readonly label: string;
+  private readonly root: string;
+
+  constructor(config: LocalFolderConfig) {
+    this.root = config.path.replace(/^\/+|\/+$/g, '');
+    this.label = `Documents/${this.root}`;
+  }
+
+  async getAccountId(): Promise<string | null> {
+    return LOCAL_ACCOUNT_ID;
+  }
+
+  private path(...segments: string[]): string {
+    return [this.root, ...segments].join('/');
+  }
+
+  async readDocument(_accountId: string): Promise<VersionedSyncDocument | null> {
+    try {
+      const { data } = await Filesystem.readFile({
+        path: this.path(DOCUMENT_FILE),
+        directory: DIRECTORY,
+        encoding: Encoding.UTF8,
+      });
+      const text = typeof data === 'string' ? data : await data.text();
+      return { ...EMPTY_SYNC_DOCUMENT, ...JSON.parse(text), version: await sha256Hex(text) };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async writeDocument(accountId: string, update: Partial<SyncDocument>, expectedVersion?: string | null): Promise<boolean> {
+    const current = await this.readDocument(accountId);
+    if (expectedVersion !== undefined && (current?.version ?? null) !== expectedVersion) {
+      return false;
+    }
+    const { version: _version, ...stored }: Partial<VersionedSyncDocument> = current ?? EMPTY_SYNC_DOCUMENT;
+    const temporary = this.path(`${DOCUMENT_FILE}.tmp`);
+
+    // Write beside the document, then rename over it, so it is never half-written
+    await Filesystem.writeFile({
+      path: temporary,
+      directory: DIRECTORY,
+      data: JSON.stringify({ ...stored, ...update }),
+      encoding: Encoding.UTF8,
+      recursive: true,
+    });
+    await Filesystem.rename({ from: temporary, to: this.path(DOCUMENT_FILE), directory: DIRECTORY });
+    return true;
+  }
+
+  async putObject(_accountId: string, objectId: string, body: Blob): Promise<void> {
+    const path = this.path(OBJECTS_FOLDER, objectId);
+    try {
+      await Filesystem.stat({ path, directory: DIRECTORY });
+      return;
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+
+    await Filesystem.writeFile({
+      path,
+      directory: DIRECTORY,
+      data: await blobToBase64(body),
+      recursive: true,
+    });
+  }
+
+  async getObject(_accountId: string, objectId: string): Promise<Blob> {
+    const { data } = await Filesystem.readFile({ path: this.path(OBJECTS_FOLDER, objectId), directory: DIRECTORY });
+    return typeof data === 'string'
+      ? dataUrlToBlob(`data:application/octet-stream;base64,${data}`)
+      : data;
+  }
+
+  async removeObjects(_accountId: string, objectIds: string[]): Promise<void> {
+    for (const objectId of objectIds) {
+      try {
+        await Filesystem.deleteFile({ path: this.path(OBJECTS_FOLDER, objectId), directory: DIRECTORY });
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Supabase Sync Provider
+ * Stores the sync document in the `user_data` table and objects in the
+ * `sync-objects` Storage bucket, both scoped to the signed-in user by
+ * row-level security.
+ *
+ * The row's `updated_at` is the document version. A conditional write only
+ * updates the row while `updated_at` still matches, or inserts it when no
+ * row may exist yet, so the database rejects a write that would replace a
+ * newer document.
+ */
+
+import { supabase, isSupabaseConfigured } from '../supabaseClient';
+import { authService } from '../authService';
+import { SyncDocument, SyncProvider, VersionedSyncDocument } from '../syncProvider';
+
+/** Postgres unique_violation: the row was inserted by someone else first */
+const UNIQUE_VIOLATION = '23505';
+
+export const SYNC_OBJECTS_BUCKET = 'sync-objects';
+
+function requireClient() {
+  if (!isSupabaseConfigured || !supabase) {
+    throw new Error('Cloud sync not configured');
+  }
+  return supabase;
+}
+
+export class SupabaseSyncProvider implements SyncProvider {
+  readonly type = 'supabase' as const;
+  readonly label = 'Record Keeper Cloud';
+
+  async getAccountId(): Promise<string | null> {
+    if (!isSupabaseConfigured) return null;
+    const user = await authService.getCurrentUser();
+    return user?.id ?? null;
+  }
+
+  async readDocument(accountId: string): Promise<VersionedSyncDocument | null> {
+    const { data, error } = await requireClient()
+      .from('user_data')
+      .select('encrypted_data, key_envelope, history, last_synced, updated_at')
+      .eq('user_id', accountId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) return null;
+
+    return {
+      encryptedData: data.encrypted_data ?? null,
+      keyEnvelope: data.key_envelope ?? null,
+      history: data.history ?? null,
+      lastSynced: data.last_synced ?? null,
+      version: data.updated_at,
+    };
+  }
+
+  async writeDocument(accountId: string, update: Partial<SyncDocument>, expectedVersion?: string | null): Promise<boolean> {
+    const client = requireClient();
+    const row: Record<string, string | null> = { updated_at: new Date().toISOString() };
+    if (update.encryptedData !== undefined) row.encrypted_data = update.encryptedData;
+    if (update.keyEnvelope !== undefined) row.key_envelope = update.keyEnvelope;
+    if (update.history !== undefined) row.history = update.history;
+    if (update.lastSynced !== undefined) row.last_synced = update.lastSynced;
+
+    if (expectedVersion === null) {
+      const { error } = await client.from('user_data').insert({ user_id: accountId, ...row });
+      if (error?.code === UNIQUE_VIOLATION) return false;
+      if (error) throw new Error(error.message);
+      return true;
+    }
+
+    if (expectedVersion !== undefined) {
+      const { data, error } = await client
+        .from('user_data')
+        .update(row)
+        .eq('user_id', accountId)
+        .eq('updated_at', expectedVersion)
+        .select('user_id');
+      if (error) throw new Error(error.message);
+      return (data ?? []).length > 0;
+    }
+
+    // A new row needs the manifest (the column is NOT NULL); anything else only updates
+    const { error } = update.encryptedData !== undefined
+      ? await client.from('user_data').upsert({ user_id: accountId, ...row }, { onConflict: 'user_id' })
+      : await client.from('user_data').update(row).eq('user_id', accountId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    return true;
+  }
+
+  async putObject(accountId: string, objectId: string, body: Blob): Promise<void> {
+    const { error } = await requireClient().storage
+      .from(SYNC_OBJECTS_BUCKET)
+      .upload(`${accountId}/${objectId}`, body, { upsert: false, contentType: 'application/octet-stream' });
+
+    if (error && !/already exists|duplicate/i.test(error.message)) {
+      throw new Error(`Failed to upload sync object: ${error.message}`);
+    }
+  }
+
+  async getObject(accountId: string, objectId: string): Promise<Blob> {
+    const { data, error } = await requireClient().storage
+      .from(SYNC_OBJECTS_BUCKET)
+      .download(`${accountId}/${objectId}`);
+
+    if (error || !data) {
+      throw new Error(`Failed to download sync object: ${error?.message ?? 'not found'}`);
+    }
+    return data;
+  }
+
+  async removeObjects(accountId: string, objectIds: string[]): Promise<void> {
+    if (objectIds.length === 0) return;
+
+    const { error } = await requireClient().storage
+      .from(SYNC_OBJECTS_BUCKET)
+      .remove(objectIds.map(id => `${accountId}/${id}`));
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { WebDavSyncProvider } from './webDavProvider';
+
+const USERNAME = 'alex';
+const PASSWORD = 'correct horse';
+
+/**
+ * A minimal in-memory WebDAV server: MKCOL, PUT, GET and DELETE with Basic
+ * auth, 409 for a missing parent folder, ETags, and If-Match and
+ * If-None-Match: * on PUT
+ */
+class WebDavStub {
+  folders = new Set<string>(['/dav']);
+  files = new Map<string, Buffer>();
+  etags = new Map<string, string>();
+  /** Runs before each PUT is handled, to simulate another client writing first */
+  beforePut: ((path: string) => void) | null = null;
+  private writes = 0;
+  private server: Server = createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/dav`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  reset(): void {
+    this.folders = new Set(['/dav']);
+    this.files.clear();
+    this.etags.clear();
+    this.beforePut = null;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+
+    const expected = `Basic ${Buffer.from(`${USERNAME}:${PASSWORD}`).toString('base64')}`;
+    if (req.headers.authorization !== expected) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Basic' }).end();
+      return;
+    }
+
+    const path = decodeURIComponent(new URL(req.url!, 'http://stub').pathname).replace(/\/+$/, '');
+    const parent = path.slice(0, path.lastIndexOf('/'));
+
+    switch (req.method) {
+      case 'MKCOL':
+        if (this.folders.has(path) || this.files.has(path)) {
+          res.writeHead(405).end();
+        } else if (!this.folders.has(parent)) {
+          res.writeHead(409).end();
+        } else {
+          this.folders.add(path);
+          res.writeHead(201).end();
+        }
+        return;
+      case 'PUT':
+        this.beforePut?.(path);
+        if (!this.folders.has(parent)) {
+          res.writeHead(409).end();
+        } else if (req.headers['if-none-match'] === '*' && this.files.has(path)) {
+          res.writeHead(412).end();
+        } else if (req.headers['if-match'] && req.headers['if-match'] !== this.etags.get(path)) {
+          res.writeHead(412).end();
+        } else {
+          this.files.set(path, Buffer.concat(chunks));
+          this.etags.set(path, `"${++this.writes}"`);
+          res.writeHead(201, { ETag: this.etags.get(path) }).end();
+        }
+        return;
+      case 'GET': {
+        const body = this.files.get(path);
+        if (body) {
+          res.writeHead(200, { ETag: this.etags.get(path) }).end(body);
+        } else {
+          res.writeHead(404).end();
+        }
+        return;
+      }
+      case 'DELETE':
+        res.writeHead(this.files.delete(path) ? 204 : 404).end();
+        return;
+      default:
+        res.writeHead(405).end();
+    }
+  }
+}
+
+describe('WebDavSyncProvider', () => {
+  const stub = new WebDavStub();
+  let url: string;
+  let provider: WebDavSyncProvider;
+
+  beforeAll(async () => {
+    url = await stub.start();
+  });
+
+  afterAll(() => stub.stop());
+
+  beforeEach(() => {
+    stub.reset();
+    provider = new WebDavSyncProvider({ url, username: USERNAME, password: PASSWORD });
+  });
+
+  it('reads no document before the first sync', async () => {
+    const accountId = (await provider.getAccountId())!;
+    expect(accountId).toBe(USERNAME);
+    expect(await provider.readDocument(accountId)).toBeNull();
+  });
+
+  it('writes the document and keeps fields not being updated', async () => {
+    await provider.writeDocument(USERNAME, { encryptedData: 'manifest-1', keyEnvelope: 'envelope' });
+    // A second device finds the folder already there (MKCOL answers 405)
+    const otherDevice = new WebDavSyncProvider({ url, username: USERNAME, password: PASSWORD });
+    await otherDevice.writeDocument(USERNAME, { encryptedData: 'manifest-2', lastSynced: '2024-01-02T00:00:00.000Z' });
+
+    expect(await provider.readDocument(USERNAME)).toEqual({
+      encryptedData: 'manifest-2',
+      keyEnvelope: 'envelope',
+      history: null,
+      lastSynced: '2024-01-02T00:00:00.000Z',
+      version: stub.etags.get(`/dav/${USERNAME}/sync.json`),
+    });
+    expect(stub.folders.has(`/dav/${USERNAME}`)).toBe(true);
+  });
+
+  it('writes conditionally only while the document is at the expected version', async () => {
+    expect(await provider.writeDocument(USERNAME, { encryptedData: 'manifest-1' }, null)).toBe(true);
+    const read = (await provider.readDocument(USERNAME))!;
+
+    // Another device commits in between
+    const otherDevice = new WebDavSyncProvider({ url, username: USERNAME, password: PASSWORD });
+    expect(await otherDevice.writeDocument(USERNAME, { encryptedData: 'manifest-2' }, read.version)).toBe(true);
+
+    expect(await provider.writeDocument(USERNAME, { encryptedData: 'manifest-3' }, read.version)).toBe(false);
+    expect(await provider.writeDocument(USERNAME, { encryptedData: 'manifest-3' }, null)).toBe(false);
+    expect((await provider.readDocument(USERNAME))!.encryptedData).toBe('manifest-2');
+  });
+
+  it('lets the server reject a write that loses the race after the version check', async () => {
+    await provider.writeDocument(USERNAME, { encryptedData: 'manifest-1' });
+    const read = (await provider.readDocument(USERNAME))!;
+
+    // The other device's PUT lands between this device's GET and PUT
+    stub.beforePut = (path) => {
+      stub.beforePut = null;
+      stub.files.set(path, Buffer.from(JSON.stringify({ encryptedData: 'manifest-2' })));
+      stub.etags.set(path, '"other"');
+    };
+
+    expect(await provider.writeDocument(USERNAME, { encryptedData: 'manifest-3' }, read.version)).toBe(false);
+    expect((await provider.readDocument(USERNAME))!.encryptedData).toBe('manifest-2');
+  });
+
+  it('stores and returns objects byte for byte', async () => {
+    const bytes = new Uint8Array([0, 1, 2, 253, 254, 255]);
+    await provider.putObject(USERNAME, 'object-1', new Blob([bytes]));
+
+    const blob = await provider.getObject(USERNAME, 'object-1');
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(bytes);
+  });
+
+  it('treats storing an existing object as a no-op', async () => {
+    await provider.putObject(USERNAME, 'object-1', new Blob(['first']));
+    await provider.putObject(USERNAME, 'object-1', new Blob(['second']));
+
+    expect(await (await provider.getObject(USERNAME, 'object-1')).text()).toBe('first');
+  });
+
+  it('fails to get a missing object', async () => {
+    await expect(provider.getObject(USERNAME, 'missing')).rejects.toThrow('404');
+  });
+
+  it('removes objects and ignores ones that are already gone', async () => {
+    await provider.putObject(USERNAME, 'object-1', new Blob(['a']));
+    await provider.removeObjects(USERNAME, ['object-1', 'missing']);
+
+    expect(stub.files.has(`/dav/${USERNAME}/objects/object-1`)).toBe(false);
+    await expect(provider.getObject(USERNAME, 'object-1')).rejects.toThrow('404');
+  });
+
+  it('reports rejected credentials', async () => {
+    const wrong = new WebDavSyncProvider({ url, username: USERNAME, password: 'wrong' });
+
+    await expect(wrong.readDocument(USERNAME)).rejects.toThrow('401');
+    await expect(wrong.writeDocument(USERNAME, { encryptedData: 'x' })).rejects.toThrow('401');
+    await expect(wrong.putObject(USERNAME, 'object-1', new Blob(['a']))).rejects.toThrow('401');
+    await expect(wrong.removeObjects(USERNAME, ['object-1'])).rejects.toThrow();
+    expect(stub.files.size).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * WebDAV Sync Provider
+ * Syncs to a folder on a self-hosted WebDAV server such as Nextcloud,
+ * ownCloud or Apache mod_dav, so data stays on infrastructure the user or
+ * their organization controls.
+ *
+ * Layout under the configured URL:
+ *   <account>/sync.json          the sync document
+ *   <account>/objects/<id>       encrypted objects
+ *
+ * The server must allow cross-origin requests from the app (CORS) when the
+ * app runs in a browser.
+ *
+ * The document's version is its ETag, and conditional writes send If-Match
+ * (or If-None-Match for a first write) so the server itself rejects a write
+ * that would replace a newer document. Servers that send no ETag fall back
+ * to comparing the document's content before writing.
+ */
+
+import { sha256Hex } from '../../security/recordIntegrity';
+import { EMPTY_SYNC_DOCUMENT, SyncDocument, SyncProvider, VersionedSyncDocument, WebDavConfig } from '../syncProvider';
+
+const DOCUMENT_FILE = 'sync.json';
+const OBJECTS_FOLDER = 'objects';
+
+function basicAuth(username: string, password: string): string {
+  // btoa only accepts Latin-1, so encode the credentials as UTF-8 first
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  let binary = '';
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  return `Basic ${btoa(binary)}`;
+}
+
+export class WebDavSyncProvider implements SyncProvider {
+  readonly type = 'webdav' as const;
+  readonly label: string;
+  private readonly baseUrl: string;
+  /** Folders known to exist, so MKCOL is sent once per session */
+  private readonly createdFolders = new Set<string>();
+
+  constructor(private readonly config: WebDavConfig) {
+    this.baseUrl = config.url.replace(/\/+$/, '');
+    this.label = new URL(this.baseUrl).host;
+  }
+
+  async getAccountId(): Promise<string | null> {
+    return this.config.username || 'default';
+  }
+
+  private url(...segments: string[]): string {
+    return [this.baseUrl, ...segments.map(encodeURIComponent)].join('/');
+  }
+
+  private async request(method: string, url: string, init: { body?: BodyInit; headers?: Record<string, string> } = {}) {
+    return fetch(url, {
+      method,
+      body: init.body,
+      headers: {
+        Authorization: basicAuth(this.config.username, this.config.password),
+        ...init.headers,
+      },
+    });
+  }
+
+  private async ensureFolder(...segments: string[]): Promise<void> {
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const url = this.url(...segments.slice(0, depth));
+      if (this.createdFolders.has(url)) continue;
+
+      const response = await this.request('MKCOL', url);
+      // 405 means the folder already exists
+      if (!response.ok && response.status !== 405) {
+        throw new Error(`WebDAV server refused to create folder (${response.status})`);
+      }
+      this.createdFolders.add(url);
+    }
+  }
+
+  /**
+   * The document together with its ETag, if the server sent one
+   */
+  private async fetchDocument(accountId: string): Promise<{ document: VersionedSyncDocument; etag: string | null } | null> {
+    const response = await this.request('GET', this.url(accountId, DOCUMENT_FILE), {
+      headers: { 'Cache-Control': 'no-cache' },
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to read sync data from WebDAV server (${response.status})`);
+    }
+    const text = await response.text();
+    const etag = response.headers.get('ETag');
+    return {
+      document: { ...EMPTY_SYNC_DOCUMENT, ...JSON.parse(text), version: etag ?? await sha256Hex(text) },
+      etag,
+    };
+  }
+
+  async readDocument(accountId: string): Promise<VersionedSyncDocument | null> {
+    return (await this.fetchDocument(accountId))?.document ?? null;
+  }
+
+  async writeDocument(accountId: string, update: Partial<SyncDocument>, expectedVersion?: string | null): Promise<boolean> {
+    await this.ensureFolder(accountId);
+    const current = await this.fetchDocument(accountId);
+    const conditional = expectedVersion !== undefined;
+    if (conditional && (current?.document.version ?? null) !== expectedVersion) {
+      return false;
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (conditional && !current) {
+      headers['If-None-Match'] = '*';
+    } else if (conditional && current?.etag) {
+      headers['If-Match'] = current.etag;
+    }
+
+    // A single PUT replaces the file as a whole, so readers never see a partial document
+    const { version: _version, ...stored }: Partial<VersionedSyncDocument> = current?.document ?? EMPTY_SYNC_DOCUMENT;
+    const response = await this.request('PUT', this.url(accountId, DOCUMENT_FILE), {
+      body: JSON.stringify({ ...stored, ...update }),
+      headers,
+    });
+    // 412 means another device wrote the document after it was read
+    if (conditional && response.status === 412) {
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to write sync data to WebDAV server (${response.status})`);
+    }
+    return true;
+  }
+
+  async putObject(accountId: string, objectId: string, body: Blob): Promise<void> {
+    await this.ensureFolder(accountId, OBJECTS_FOLDER);
+    const response = await this.request('PUT', this.url(accountId, OBJECTS_FOLDER, objectId), {
+      body,
+      headers: { 'Content-Type': 'application/octet-stream', 'If-None-Match': '*' },
+    });
+    // 412 means the object is already stored
+    if (!response.ok && response.status !== 412) {
+      throw new Error(`Failed to upload sync object to WebDAV server (${response.status})`);
+    }
+  }
+
+  async getObject(accountId: string, objectId: string): Promise<Blob> {
+    const response = await this.request('GET', this.url(accountId, OBJECTS_FOLDER, objectId));
+    if (!response.ok) {
+      throw new Error(`Failed to download sync object from WebDAV server (${response.status})`);
+    }
+    return response.blob();
+  }
+
+  async removeObjects(accountId: string, objectIds: string[]): Promise<void> {
+    const failures: number[] = [];
+    for (const objectId of objectIds) {
+      const response = await this.request('DELETE', this.url(accountId, OBJECTS_FOLDER, objectId));
+      if (!response.ok && response.status !== 404) {
+        failures.push(response.status);
+      }
+    }
+    if (failures.length > 0) {
+      throw new Error(`Failed to remove ${failures.length} sync objects from WebDAV server`);
+    }
+  }
+}
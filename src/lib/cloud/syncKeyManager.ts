@@ -0,0 +1,319 @@
+/**
+ * Sync Key Manager
+ * Owns the end-to-end key used to encrypt cloud sync data.
+ *
+ * A random 256-bit master key encrypts the data. It is never uploaded in the
+ * clear: the cloud only stores it wrapped twice, once under a key derived
+ * from the user's sync passphrase (PBKDF2) and once under a generated
+ * recovery key (HKDF). Changing the passphrase only re-wraps the master key,
+ * so existing cloud data does not need to be re-encrypted.
+ *
+ * The unwrapped master key is kept on this device as a non-extractable
+ * CryptoKey so the passphrase is only needed once per device, together with
+ * an HMAC key derived from it that names content-addressed sync objects.
+ */
+
+import { indexedDBStorage } from '../storage/indexedDBStorage';
+
+const LOCAL_KEY_SETTING = 'recordKeeper_syncKey';
+const PBKDF2_ITERATIONS = 600000;
+const RECOVERY_KEY_BYTES = 20;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface WrappedKey {
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * The master key wrapped under each unlock method. Safe to store on the server.
+ */
+export interface SyncKeyEnvelope {
+  version: 1;
+  keyId: string;
+  passphrase: WrappedKey & { iterations: number };
+  recovery: WrappedKey;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface LocalSyncKey {
+  key: CryptoKey;
+  objectIdKey: CryptoKey;
+  envelope: SyncKeyEnvelope;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Format recovery key bytes as base32 in groups of four, e.g. ABCD-EFGH-...
+ */
+function encodeRecoveryKey(bytes: Uint8Array): string {
+  let bits = '';
+  bytes.forEach(b => { bits += b.toString(2).padStart(8, '0'); });
+  let encoded = '';
+  for (let i = 0; i + 5 <= bits.length; i += 5) {
+    encoded += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5), 2)];
+  }
+  return encoded.match(/.{1,4}/g)!.join('-');
+}
+
+/**
+ * Parse a recovery key typed by the user. Returns null if it is not well-formed.
+ */
+function decodeRecoveryKey(recoveryKey: string) {
+  const normalized = recoveryKey.toUpperCase().replace(/[^A-Z2-7]/g, '');
+  if (normalized.length !== Math.floor((RECOVERY_KEY_BYTES * 8) / 5)) return null;
+
+  let bits = '';
+  for (const char of normalized) {
+    bits += BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0');
+  }
+  const bytes = new Uint8Array(RECOVERY_KEY_BYTES);
+  for (let i = 0; i < RECOVERY_KEY_BYTES; i++) {
+    bytes[i] = parseInt(bits.slice(i * 8, i * 8 + 8), 2);
+  }
+  return bytes;
+}
+
+async function derivePassphraseKek(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function deriveRecoveryKek(recoveryBytes: BufferSource, salt: BufferSource): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', recoveryBytes, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', salt, info: new TextEncoder().encode('herlaw-sync-recovery'), hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt the raw master key under a key-encryption key, bound to the key id and purpose
+ */
+async function wrap(rawKey: BufferSource, kek: CryptoKey, salt: Uint8Array, aad: string): Promise<WrappedKey> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(aad) },
+    kek,
+    rawKey
+  );
+  return { salt: toBase64(salt), iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+}
+
+async function unwrap(wrapped: WrappedKey, kek: CryptoKey, aad: string): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(wrapped.iv), additionalData: new TextEncoder().encode(aad) },
+    kek,
+    fromBase64(wrapped.ciphertext)
+  );
+}
+
+/**
+ * Import the raw master key for encryption and derive the object id HMAC key from it
+ */
+async function importMasterKey(rawKey: BufferSource): Promise<Pick<LocalSyncKey, 'key' | 'objectIdKey'>> {
+  const key = await crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+  const material = await crypto.subtle.importKey('raw', rawKey, 'HKDF', false, ['deriveKey']);
+  const objectIdKey = await crypto.subtle.deriveKey(
+    { name: 'HKDF', salt: new Uint8Array(32), info: new TextEncoder().encode('herlaw-sync-object-id'), hash: 'SHA-256' },
+    material,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign']
+  );
+  return { key, objectIdKey };
+}
+
+async function wrapWithPassphrase(
+  rawKey: BufferSource,
+  keyId: string,
+  passphrase: string
+): Promise<SyncKeyEnvelope['passphrase']> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const kek = await derivePassphraseKek(passphrase, salt, PBKDF2_ITERATIONS);
+  return { ...(await wrap(rawKey, kek, salt, `${keyId}:passphrase`)), iterations: PBKDF2_ITERATIONS };
+}
+
+/**
+ * Recover the raw master key from an envelope using either the
+ * sync passphrase or the recovery key. Throws if neither matches.
+ */
+async function unwrapMasterKey(envelope: SyncKeyEnvelope, secret: string): Promise<ArrayBuffer> {
+  try {
+    const { passphrase } = envelope;
+    const kek = await derivePassphraseKek(secret, fromBase64(passphrase.salt), passphrase.iterations);
+    return await unwrap(passphrase, kek, `${envelope.keyId}:passphrase`);
+  } catch {
+    // Not the passphrase; fall through and try it as a recovery key
+  }
+
+  const recoveryBytes = decodeRecoveryKey(secret);
+  if (recoveryBytes) {
+    try {
+      const kek = await deriveRecoveryKek(recoveryBytes, fromBase64(envelope.recovery.salt));
+      return await unwrap(envelope.recovery, kek, `${envelope.keyId}:recovery`);
+    } catch {
+      // Fall through to the error below
+    }
+  }
+
+  throw new Error('Incorrect sync passphrase or recovery key');
+}
+
+export class SyncKeyManager {
+  private static instance: SyncKeyManager;
+
+  private constructor() {}
+
+  static getInstance(): SyncKeyManager {
+    if (!SyncKeyManager.instance) {
+      SyncKeyManager.instance = new SyncKeyManager();
+    }
+    return SyncKeyManager.instance;
+  }
+
+  private async getLocal(): Promise<LocalSyncKey | null> {
+    const local: LocalSyncKey | null = (await indexedDBStorage.getSetting(LOCAL_KEY_SETTING)) ?? null;
+    // Keys unlocked before object ids existed have no HMAC key and must be unlocked again
+    return local?.objectIdKey ? local : null;
+  }
+
+  /**
+   * The unlocked master key on this device, if any
+   */
+  async getKey(): Promise<CryptoKey | null> {
+    return (await this.getLocal())?.key ?? null;
+  }
+
+  /**
+   * The HMAC key used to derive content-addressed object ids, if unlocked
+   */
+  async getObjectIdKey(): Promise<CryptoKey | null> {
+    return (await this.getLocal())?.objectIdKey ?? null;
+  }
+
+  /**
+   * The envelope this device's key was unlocked from, if any
+   */
+  async getEnvelope(): Promise<SyncKeyEnvelope | null> {
+    return (await this.getLocal())?.envelope ?? null;
+  }
+
+  /**
+   * Generate a new master key protected by a passphrase and a recovery key.
+   * The recovery key is returned once for the user to write down; it is not stored.
+   */
+  async createKey(passphrase: string): Promise<{ envelope: SyncKeyEnvelope; recoveryKey: string }> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Sync passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const rawKey = crypto.getRandomValues(new Uint8Array(32));
+    const recoveryBytes = crypto.getRandomValues(new Uint8Array(RECOVERY_KEY_BYTES));
+    const recoverySalt = crypto.getRandomValues(new Uint8Array(16));
+    const keyId = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    const envelope: SyncKeyEnvelope = {
+      version: 1,
+      keyId,
+      passphrase: await wrapWithPassphrase(rawKey, keyId, passphrase),
+      recovery: await wrap(rawKey, await deriveRecoveryKek(recoveryBytes, recoverySalt), recoverySalt, `${keyId}:recovery`),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await indexedDBStorage.saveSetting(LOCAL_KEY_SETTING, { ...(await importMasterKey(rawKey)), envelope });
+    console.log('Created new sync key', keyId);
+    return { envelope, recoveryKey: encodeRecoveryKey(recoveryBytes) };
+  }
+
+  /**
+   * Unlock an existing key from the cloud envelope with the passphrase or recovery key
+   */
+  async unlock(envelope: SyncKeyEnvelope, secret: string): Promise<void> {
+    const rawKey = await unwrapMasterKey(envelope, secret);
+    await indexedDBStorage.saveSetting(LOCAL_KEY_SETTING, { ...(await importMasterKey(rawKey)), envelope });
+    console.log('Unlocked sync key', envelope.keyId);
+  }
+
+  /**
+   * Re-wrap the master key under a new passphrase. The current passphrase or
+   * the recovery key must be supplied. Returns the updated envelope to upload.
+   */
+  async changePassphrase(currentSecret: string, newPassphrase: string): Promise<SyncKeyEnvelope> {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Sync passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    const local = await this.getLocal();
+    if (!local) {
+      throw new Error('Sync key is not set up on this device');
+    }
+
+    const rawKey = await unwrapMasterKey(local.envelope, currentSecret);
+    const envelope: SyncKeyEnvelope = {
+      ...local.envelope,
+      passphrase: await wrapWithPassphrase(rawKey, local.envelope.keyId, newPassphrase),
+      updatedAt: new Date().toISOString(),
+    };
+
+    await indexedDBStorage.saveSetting(LOCAL_KEY_SETTING, { ...local, envelope });
+    return envelope;
+  }
+
+  /**
+   * Replace the local envelope with a newer one for the same key,
+   * e.g. after the passphrase was changed on another device
+   */
+  async adoptEnvelope(envelope: SyncKeyEnvelope): Promise<void> {
+    const local = await this.getLocal();
+    if (!local || local.envelope.keyId !== envelope.keyId) {
+      throw new Error('Envelope belongs to a different sync key');
+    }
+    await indexedDBStorage.saveSetting(LOCAL_KEY_SETTING, { ...local, envelope });
+  }
+
+  /**
+   * Forget the key on this device, e.g. on sign-out
+   */
+  async clear(): Promise<void> {
+    await indexedDBStorage.saveSetting(LOCAL_KEY_SETTING, null);
+  }
+}
+
+export const syncKeyManager = SyncKeyManager.getInstance();
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { RecordType, RecordEvent } from '../../App';
+import { appendEvent, verifyEventChain } from '../security/eventLog';
+import { mergeEventLogs, mergeRecords } from './syncMerge';
+
+function eventKeys(log: RecordEvent[] | undefined): string[] {
+  return (log ?? []).map(e => JSON.stringify([e.timestamp, e.action, e.changes ?? []]));
+}
+
+async function edit(record: RecordType, description: string, editedAt: string): Promise<RecordType> {
+  return {
+    ...record,
+    description,
+    editedAt,
+    eventLog: await appendEvent(record.eventLog, 'edited', [
+      { field: 'description', from: record.description, to: description },
+    ], editedAt),
+  };
+}
+
+/** One device syncing with the cloud copy; returns the new local records, which are also uploaded */
+async function sync(local: RecordType[], cloud: RecordType[], base: RecordType[]): Promise<RecordType[]> {
+  const result = await mergeRecords(
+    { local, remote: cloud, base, localTombstones: [], remoteTombstones: [] },
+    // Concurrent edits to the description are resolved in favour of the cloud
+    { 'r1:description': 'remote' }
+  );
+  return result.records;
+}
+
+describe('mergeEventLogs', () => {
+  it('keeps the local log when the remote adds nothing', async () => {
+    const local = await appendEvent([], 'created', undefined, '2024-01-01T00:00:00.000Z');
+    expect(await mergeEventLogs(local, local)).toBe(local);
+  });
+
+  it('appends only the remote events missing locally', async () => {
+    const shared = await appendEvent([], 'created', undefined, '2024-01-01T00:00:00.000Z');
+    const local = await appendEvent(shared, 'tags_changed', [{ field: 'tags', from: [], to: ['a'] }], '2024-01-02T00:00:00.000Z');
+    const remote = await appendEvent(shared, 'edited', [{ field: 'description', from: 'x', to: 'y' }], '2024-01-03T00:00:00.000Z');
+
+    const merged = await mergeEventLogs(local, remote);
+    expect(merged).toHaveLength(3);
+    expect(merged.slice(0, 2)).toEqual(local);
+    expect((await verifyEventChain(merged)).valid).toBe(true);
+  });
+});
+
+describe('two-device sync', () => {
+  it('converges on one event log without duplicating history', async () => {
+    const created: RecordType = {
+      id: 'r1',
+      dateTime: '2024-01-01T09:00',
+      description: 'original',
+      tags: [],
+      createdAt: '2024-01-01T09:05:00.000Z',
+      eventLog: await appendEvent([], 'created', undefined, '2024-01-01T09:05:00.000Z'),
+    };
+
+    let cloud = [created];
+    let deviceA = [await edit(created, 'edited on A', '2024-01-02T10:00:00.000Z')];
+    let baseA = [created];
+    let deviceB = [await edit(created, 'edited on B', '2024-01-02T11:00:00.000Z')];
+    let baseB = [created];
+
+    // Several rounds of both devices syncing in turn
+    for (let round = 0; round < 3; round++) {
+      deviceA = await sync(deviceA, cloud, baseA);
+      cloud = baseA = deviceA;
+      deviceB = await sync(deviceB, cloud, baseB);
+      cloud = baseB = deviceB;
+    }
+
+    const logA = deviceA[0].eventLog!;
+    const logB = deviceB[0].eventLog!;
+    expect(logA).toEqual(logB);
+    expect(logA).toHaveLength(3);
+    expect(new Set(eventKeys(logA)).size).toBe(logA.length);
+    expect((await verifyEventChain(logA)).valid).toBe(true);
+    expect(deviceA[0].description).toBe(deviceB[0].description);
+  });
+});
+
+describe('restored records', () => {
+  const record: RecordType = {
+    id: 'r2',
+    dateTime: '2024-01-01T09:00',
+    description: 'deleted then restored',
+    tags: [],
+    createdAt: '2024-01-01T09:05:00.000Z',
+  };
+  const tombstone = { id: 'r2', deletedAt: '2024-02-01T00:00:00.000Z' };
+
+  it('supersedes the tombstone on the device that restored it', async () => {
+    const result = await mergeRecords({
+      local: [record],
+      remote: [],
+      base: [],
+      localTombstones: [],
+      remoteTombstones: [tombstone],
+      restoredIds: ['r2'],
+    });
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.records).toEqual([record]);
+    expect(result.tombstones).toEqual([]);
+  });
+
+  it('is taken back by other devices once the cloud drops the tombstone', async () => {
+    const result = await mergeRecords({
+      local: [],
+      remote: [record],
+      base: [],
+      localTombstones: [tombstone],
+      remoteTombstones: [],
+    });
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.records).toEqual([record]);
+    expect(result.tombstones).toEqual([]);
+  });
+
+  it('stays deleted while the cloud still lists the tombstone', async () => {
+    const result = await mergeRecords({
+      local: [],
+      remote: [record],
+      base: [],
+      localTombstones: [tombstone],
+      remoteTombstones: [tombstone],
+    });
+
+    expect(result.records).toEqual([]);
+    expect(result.tombstones).toEqual([tombstone]);
+  });
+});
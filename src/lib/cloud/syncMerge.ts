@@ -0,0 +1,302 @@
+/**
+ * Sync Merge
+ * Three-way, field-level merge of local and cloud records against the
+ * snapshot taken at the last successful sync (the base).
+ *
+ * - A field changed on only one side takes that side's value.
+ * - A field changed differently on both sides is reported as a conflict.
+ * - Tags and attachments merge as sets, so additions on both sides are kept.
+ * - Deletions travel as tombstones; deleting a record that the other device
+ *   has since edited is reported as a conflict instead of being applied.
+ * - Restoring a record from history supersedes its tombstone, and other
+ *   devices take it back when the cloud no longer lists the tombstone.
+ *
+ * Conflicts are resolved by calling mergeRecords again with a resolution
+ * for each conflict key, which makes the merge deterministic and repeatable.
+ */
+
+import { RecordType, RecordEvent, AttachmentType } from '../../App';
+import { appendEvent } from '../security/eventLog';
+import { computeContentHash } from '../security/recordIntegrity';
+
+export interface RecordTombstone {
+  id: string;
+  deletedAt: string;
+}
+
+export const MERGE_FIELDS = ['dateTime', 'description', 'people', 'location', 'severity', 'caseLabel'] as const;
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export type SyncConflict =
+  | {
+      kind: 'field';
+      recordId: string;
+      field: MergeField;
+      base?: unknown;
+      local: unknown;
+      remote: unknown;
+      localEditedAt?: string;
+      remoteEditedAt?: string;
+    }
+  | {
+      kind: 'deleted';
+      recordId: string;
+      /** The side that deleted the record; the other side edited it */
+      deletedOn: 'local' | 'remote';
+      record: RecordType;
+    };
+
+/** 'local' keeps this device's version, 'remote' takes the cloud version */
+export type ConflictChoice = 'local' | 'remote';
+export type ConflictResolutions = Record<string, ConflictChoice>;
+
+export interface MergeInput {
+  local: RecordType[];
+  remote: RecordType[];
+  /** Records as they were after the last successful sync, empty if never synced */
+  base: RecordType[];
+  /** Tombstones known to this device, including any from the last sync */
+  localTombstones: RecordTombstone[];
+  remoteTombstones: RecordTombstone[];
+  /** Records restored on this device since the last sync, which supersede their tombstones */
+  restoredIds?: string[];
+  now?: string;
+}
+
+export interface MergeResult {
+  records: RecordType[];
+  tombstones: RecordTombstone[];
+  /** Conflicts that have no entry in the resolutions passed in */
+  conflicts: SyncConflict[];
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function lastModified(record: RecordType): string {
+  return record.editedAt ?? record.createdAt;
+}
+
+/**
+ * Stable key identifying a conflict in a resolutions map
+ */
+export function conflictKey(conflict: SyncConflict): string {
+  return conflict.kind === 'field' ? `${conflict.recordId}:${conflict.field}` : `${conflict.recordId}:deleted`;
+}
+
+/**
+ * Whether a record's mergeable content differs from its base version
+ */
+function hasChangedSince(record: RecordType, base: RecordType): boolean {
+  return MERGE_FIELDS.some(field => !isEqual(record[field], base[field]))
+    || !isEqual(record.tags, base.tags)
+    || !isEqual((record.files ?? []).map(f => f.id), (base.files ?? []).map(f => f.id));
+}
+
+/**
+ * Three-way merge of two lists keyed by identity: an item survives unless
+ * one side removed it since the base, and additions from both sides are kept.
+ */
+function mergeSets<T>(local: T[], remote: T[], base: T[] | undefined, keyOf: (item: T) => string): T[] {
+  const baseKeys = new Set((base ?? []).map(keyOf));
+  const localKeys = new Set(local.map(keyOf));
+  const remoteKeys = new Set(remote.map(keyOf));
+
+  const merged = local.filter(item => remoteKeys.has(keyOf(item)) || !baseKeys.has(keyOf(item)));
+  remote.forEach(item => {
+    if (!localKeys.has(keyOf(item)) && !baseKeys.has(keyOf(item))) {
+      merged.push(item);
+    }
+  });
+  return merged;
+}
+
+/**
+ * Key identifying an event by what happened, ignoring its chain links,
+ * so the same event re-chained on another device is still recognized
+ */
+function eventKey(event: RecordEvent): string {
+  return JSON.stringify([event.timestamp, event.action, event.changes ?? []]);
+}
+
+/**
+ * Combine two diverged event logs. The local log is kept untouched and only
+ * the remote events it lacks are chained onto it, in timestamp order. When the
+ * remote log already holds every local event it is taken as-is, so both
+ * devices settle on the same log instead of re-appending each other's events.
+ */
+export async function mergeEventLogs(
+  local: RecordEvent[] | undefined,
+  remote: RecordEvent[] | undefined
+): Promise<RecordEvent[]> {
+  const a = local ?? [];
+  const b = remote ?? [];
+
+  const localKeys = new Set(a.map(eventKey));
+  const remoteKeys = new Set(b.map(eventKey));
+  const missing = b
+    .filter(event => !localKeys.has(eventKey(event)))
+    .sort((x, y) => x.timestamp.localeCompare(y.timestamp));
+
+  if (missing.length === 0) return a;
+  if (a.every(event => remoteKeys.has(eventKey(event)))) return b;
+
+  let merged = a;
+  for (const event of missing) {
+    merged = await appendEvent(merged, event.action, event.changes, event.timestamp);
+  }
+  return merged;
+}
+
+/**
+ * Merge one record present on both sides. Returns the merged record and any
+ * unresolved field conflicts. When nothing changes, the local object is returned as-is.
+ */
+async function mergeRecord(
+  local: RecordType,
+  remote: RecordType,
+  base: RecordType | undefined,
+  resolutions: ConflictResolutions,
+  conflicts: SyncConflict[]
+): Promise<RecordType> {
+  if (isEqual(local, remote)) return local;
+
+  const merged: RecordType = { ...local };
+  // Without a base we cannot tell who changed what, so the newer edit wins each field
+  const remoteIsNewer = lastModified(remote) > lastModified(local);
+
+  for (const field of MERGE_FIELDS) {
+    const localValue = local[field];
+    const remoteValue = remote[field];
+    if (isEqual(localValue, remoteValue)) continue;
+
+    let choice: ConflictChoice;
+    if (!base) {
+      choice = remoteIsNewer ? 'remote' : 'local';
+    } else if (isEqual(localValue, base[field])) {
+      choice = 'remote';
+    } else if (isEqual(remoteValue, base[field])) {
+      choice = 'local';
+    } else {
+      const conflict: SyncConflict = {
+        kind: 'field',
+        recordId: local.id,
+        field,
+        base: base[field],
+        local: localValue,
+        remote: remoteValue,
+        localEditedAt: local.editedAt,
+        remoteEditedAt: remote.editedAt,
+      };
+      const resolved = resolutions[conflictKey(conflict)];
+      if (!resolved) {
+        conflicts.push(conflict);
+      }
+      choice = resolved ?? 'local';
+    }
+
+    (merged as Record<MergeField, unknown>)[field] = choice === 'remote' ? remoteValue : localValue;
+  }
+
+  merged.tags = mergeSets(local.tags, remote.tags, base?.tags, tag => tag);
+  merged.files = mergeSets<AttachmentType>(local.files ?? [], remote.files ?? [], base?.files, file => file.id);
+
+  const editedAt = [local.editedAt, remote.editedAt].filter(Boolean).sort().pop();
+  if (editedAt) merged.editedAt = editedAt;
+
+  merged.eventLog = await mergeEventLogs(local.eventLog, remote.eventLog);
+  merged.contentHash = await computeContentHash(merged);
+
+  return isEqual(merged, local) ? local : merged;
+}
+
+/**
+ * Merge local and cloud record sets against the last-synced base.
+ * Unresolved conflicts default to the local version in the returned records,
+ * so callers must check `conflicts` before persisting the result.
+ */
+export async function mergeRecords(input: MergeInput, resolutions: ConflictResolutions = {}): Promise<MergeResult> {
+  const now = input.now ?? new Date().toISOString();
+  const localById = new Map(input.local.map(r => [r.id, r]));
+  const remoteById = new Map(input.remote.map(r => [r.id, r]));
+  const baseById = new Map(input.base.map(r => [r.id, r]));
+  const restoredIds = new Set(input.restoredIds ?? []);
+  const remoteTombstoneIds = new Set(input.remoteTombstones.map(t => t.id));
+
+  // Anything in the base that is now missing locally was deleted on this device
+  const tombstones = new Map<string, RecordTombstone>();
+  [...input.localTombstones, ...input.remoteTombstones].forEach(t => {
+    const existing = tombstones.get(t.id);
+    if (!existing || t.deletedAt < existing.deletedAt) tombstones.set(t.id, t);
+  });
+  baseById.forEach((_, id) => {
+    if (!localById.has(id) && !tombstones.has(id)) {
+      tombstones.set(id, { id, deletedAt: now });
+    }
+  });
+
+  const records: RecordType[] = [];
+  const conflicts: SyncConflict[] = [];
+  const ids = new Set([...localById.keys(), ...remoteById.keys()]);
+
+  for (const id of ids) {
+    const local = localById.get(id);
+    const remote = remoteById.get(id);
+    const base = baseById.get(id);
+    const tombstone = tombstones.get(id);
+
+    if (local && remote) {
+      records.push(await mergeRecord(local, remote, base, resolutions, conflicts));
+      tombstones.delete(id);
+      continue;
+    }
+
+    // A restore on this device, or a tombstone the cloud no longer has because
+    // another device restored the record, brings the record back everywhere
+    const restored = local
+      ? restoredIds.has(id)
+      : !base && tombstone !== undefined && !remoteTombstoneIds.has(id);
+    if (restored) {
+      records.push((local ?? remote)!);
+      tombstones.delete(id);
+      continue;
+    }
+
+    const survivor = (local ?? remote)!;
+    const deletedOn: 'local' | 'remote' = local ? 'remote' : 'local';
+    const wasDeleted = base !== undefined || tombstone !== undefined;
+
+    if (!wasDeleted) {
+      // Created on one side since the last sync
+      records.push(survivor);
+      continue;
+    }
+
+    const editedSinceDeletion = base
+      ? hasChangedSince(survivor, base)
+      : lastModified(survivor) > tombstone!.deletedAt;
+
+    if (!editedSinceDeletion) {
+      tombstones.set(id, tombstone ?? { id, deletedAt: now });
+      continue;
+    }
+
+    const conflict: SyncConflict = { kind: 'deleted', recordId: id, deletedOn, record: survivor };
+    const resolved = resolutions[conflictKey(conflict)];
+    if (!resolved) {
+      conflicts.push(conflict);
+    }
+
+    // 'local' keeps this device's state: the record if it still exists here, the deletion otherwise
+    const keep = (resolved ?? 'local') === (local ? 'local' : 'remote');
+    if (keep) {
+      records.push(survivor);
+      tombstones.delete(id);
+    } else {
+      tombstones.set(id, tombstone ?? { id, deletedAt: now });
+    }
+  }
+
+  return { records, tombstones: Array.from(tombstones.values()), conflicts };
+}
@@ -0,0 +1,94 @@
+/**
+ * Sync Object Store
+ * Stores individually encrypted sync objects (records and attachments)
+ * with the active sync provider, under the account being synced.
+ *
+ * Objects are content-addressed: the id is an HMAC of the plaintext under a
+ * key derived from the sync key, so identical content is uploaded once and
+ * the server cannot test guesses about what an object contains.
+ */
+
+import { syncKeyManager } from './syncKeyManager';
+import { SyncTarget } from './syncProvider';
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Run an async task over items with at most `limit` running at once
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
+
+class SyncObjectStore {
+  private async getKeys(): Promise<{ key: CryptoKey; objectIdKey: CryptoKey }> {
+    const key = await syncKeyManager.getKey();
+    const objectIdKey = await syncKeyManager.getObjectIdKey();
+    if (!key || !objectIdKey) {
+      throw new Error('Sync passphrase not set up on this device');
+    }
+    return { key, objectIdKey };
+  }
+
+  /**
+   * Content-addressed id for a plaintext object
+   */
+  async computeObjectId(plaintext: ArrayBuffer): Promise<string> {
+    const { objectIdKey } = await this.getKeys();
+    return toHex(await crypto.subtle.sign('HMAC', objectIdKey, plaintext));
+  }
+
+  /**
+   * Encrypt and upload one object. Uploading an id that already exists is a
+   * no-op, since the same id always means the same content.
+   */
+  async put({ provider, accountId }: SyncTarget, objectId: string, plaintext: ArrayBuffer): Promise<void> {
+    const { key } = await this.getKeys();
+
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+    await provider.putObject(accountId, objectId, new Blob([iv, ciphertext], { type: 'application/octet-stream' }));
+  }
+
+  /**
+   * Download and decrypt one object, checking it still matches its id
+   */
+  async get({ provider, accountId }: SyncTarget, objectId: string): Promise<ArrayBuffer> {
+    const { key } = await this.getKeys();
+
+    const data = await provider.getObject(accountId, objectId);
+    const bytes = new Uint8Array(await data.arrayBuffer());
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, 12) }, key, bytes.slice(12));
+
+    if ((await this.computeObjectId(plaintext)) !== objectId) {
+      throw new Error(`Sync object ${objectId} does not match its content`);
+    }
+    return plaintext;
+  }
+
+  /**
+   * Delete objects that are no longer referenced. Failures are only logged,
+   * since an orphaned object is harmless.
+   */
+  async remove({ provider, accountId }: SyncTarget, objectIds: string[]): Promise<void> {
+    if (objectIds.length === 0) return;
+
+    try {
+      await provider.removeObjects(accountId, objectIds);
+    } catch (error) {
+      console.error('Failed to remove unreferenced sync objects:', error);
+    }
+  }
+}
+
+export const syncObjectStore = new SyncObjectStore();
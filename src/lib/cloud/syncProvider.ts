@@ -0,0 +1,109 @@
+/**
+ * Sync Provider
+ * Where encrypted sync data is stored. The sync layer encrypts everything
+ * before it reaches a provider, so a provider only ever stores opaque
+ * strings and blobs and never needs to be trusted with plaintext.
+ *
+ * Each account has one small document (the encrypted manifest, the wrapped
+ * sync key and the version history) plus any number of immutable,
+ * content-addressed objects.
+ *
+ * Several devices write the same document, so each read returns a version
+ * token and a write can require that the document is still at the version
+ * it was read at. Without that, the later of two concurrent syncs would
+ * silently replace the earlier one's manifest.
+ */
+
+export type SyncProviderType = 'supabase' | 'webdav' | 'localFolder';
+
+export interface WebDavConfig {
+  /** Base URL of a folder on the WebDAV server, e.g. https://cloud.example.org/remote.php/dav/files/me/RecordKeeper */
+  url: string;
+  username: string;
+  password: string;
+}
+
+export interface LocalFolderConfig {
+  /** Folder path relative to the device's Documents directory */
+  path: string;
+}
+
+export type SyncProviderConfig =
+  | { type: 'supabase' }
+  | ({ type: 'webdav' } & WebDavConfig)
+  | ({ type: 'localFolder' } & LocalFolderConfig);
+
+/**
+ * The per-account document. Every field is opaque to the provider.
+ */
+export interface SyncDocument {
+  /** Encrypted manifest, or a legacy single-blob upload */
+  encryptedData: string | null;
+  /** Wrapped sync key envelope, as JSON */
+  keyEnvelope: string | null;
+  /** Encrypted version history */
+  history: string | null;
+  lastSynced: string | null;
+}
+
+/**
+ * The document as read from the provider
+ */
+export interface VersionedSyncDocument extends SyncDocument {
+  /** Opaque token that changes with every write, for conditional writes */
+  version: string;
+}
+
+/**
+ * A storage backend for sync. Methods throw on failure; the sync service
+ * turns errors into user-facing results.
+ */
+export interface SyncProvider {
+  readonly type: SyncProviderType;
+  /** Human-readable name for settings and status messages */
+  readonly label: string;
+
+  /**
+   * Id of the account whose data to sync, or null when the user still has
+   * to sign in. Providers without accounts return a fixed id.
+   */
+  getAccountId(): Promise<string | null>;
+
+  /** The account's document, or null if nothing has been synced yet */
+  readDocument(accountId: string): Promise<VersionedSyncDocument | null>;
+
+  /**
+   * Update fields of the account's document, creating it if needed. The
+   * write must be all-or-nothing, since committing the manifest is what
+   * makes a sync visible to other devices.
+   *
+   * With expectedVersion, the write only happens if the document is still
+   * at that version (null: if there is no document yet), and resolves false
+   * without writing anything otherwise. Without it, the write always
+   * happens and resolves true.
+   */
+  writeDocument(accountId: string, update: Partial<SyncDocument>, expectedVersion?: string | null): Promise<boolean>;
+
+  /** Store an object. Objects never change, so storing an existing id is a no-op. */
+  putObject(accountId: string, objectId: string, body: Blob): Promise<void>;
+
+  getObject(accountId: string, objectId: string): Promise<Blob>;
+
+  /** Delete objects. Missing objects are not an error. */
+  removeObjects(accountId: string, objectIds: string[]): Promise<void>;
+}
+
+/**
+ * A provider together with the account being synced on it
+ */
+export interface SyncTarget {
+  provider: SyncProvider;
+  accountId: string;
+}
+
+export const EMPTY_SYNC_DOCUMENT: SyncDocument = {
+  encryptedData: null,
+  keyEnvelope: null,
+  history: null,
+  lastSynced: null,
+};
@@ -0,0 +1,63 @@
+/**
+ * Sync Provider Manager
+ * Remembers which sync provider this device uses and creates it on demand.
+ * Devices that never chose one use Supabase when it is configured.
+ */
+
+import { indexedDBStorage } from '../storage/indexedDBStorage';
+import { isSupabaseConfigured } from './supabaseClient';
+import { SyncProvider, SyncProviderConfig } from './syncProvider';
+import { SupabaseSyncProvider } from './providers/supabaseProvider';
+import { WebDavSyncProvider } from './providers/webDavProvider';
+import { LocalFolderSyncProvider } from './providers/localFolderProvider';
+
+const PROVIDER_CONFIG_KEY = 'recordKeeper_syncProvider';
+
+export function createSyncProvider(config: SyncProviderConfig): SyncProvider {
+  switch (config.type) {
+    case 'supabase':
+      return new SupabaseSyncProvider();
+    case 'webdav':
+      return new WebDavSyncProvider(config);
+    case 'localFolder':
+      return new LocalFolderSyncProvider(config);
+  }
+}
+
+class SyncProviderManager {
+  private provider: SyncProvider | null = null;
+  private loaded = false;
+
+  /**
+   * The chosen provider's settings, or null when sync is not set up
+   */
+  async getConfig(): Promise<SyncProviderConfig | null> {
+    // null means sync was turned off; only a device that never chose falls back to Supabase
+    const saved: SyncProviderConfig | null | undefined = await indexedDBStorage.getSetting(PROVIDER_CONFIG_KEY);
+    if (saved !== undefined) return saved;
+    return isSupabaseConfigured ? { type: 'supabase' } : null;
+  }
+
+  /**
+   * The active provider, or null when sync is not set up
+   */
+  async getProvider(): Promise<SyncProvider | null> {
+    if (!this.loaded) {
+      const config = await this.getConfig();
+      this.provider = config ? createSyncProvider(config) : null;
+      this.loaded = true;
+    }
+    return this.provider;
+  }
+
+  /**
+   * Switch provider. Pass null to turn sync off on this device.
+   */
+  async setConfig(config: SyncProviderConfig | null): Promise<void> {
+    await indexedDBStorage.saveSetting(PROVIDER_CONFIG_KEY, config);
+    this.provider = config ? createSyncProvider(config) : null;
+    this.loaded = true;
+  }
+}
+
+export const syncProviderManager = new SyncProviderManager();
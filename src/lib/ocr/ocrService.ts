@@ -0,0 +1,118 @@
+/**
+ * OCR Service
+ * Extracts text from image and PDF attachments entirely on-device.
+ * Images are recognized by Tesseract running in its own web worker;
+ * PDFs are read through the PDF.js worker using their embedded text layer.
+ * All worker code, WASM and language data are served locally from /ocr.
+ */
+
+import { createWorker, OEM, Worker as TesseractWorker } from 'tesseract.js';
+import * as pdfjs from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { AttachmentType } from '../../App';
+
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+const OCR_ASSET_PATH = `${import.meta.env.BASE_URL}ocr`;
+const MAX_PDF_PAGES = 50;
+
+export class OCRService {
+  private static instance: OCRService;
+  private workerPromise: Promise<TesseractWorker> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): OCRService {
+    if (!OCRService.instance) {
+      OCRService.instance = new OCRService();
+    }
+    return OCRService.instance;
+  }
+
+  /**
+   * Check whether text can be extracted from this kind of attachment
+   */
+  canExtract(type: AttachmentType['type']): boolean {
+    return type === 'image' || type === 'pdf';
+  }
+
+  /**
+   * Lazily start a single Tesseract worker; jobs queue on it in order
+   */
+  private getWorker(): Promise<TesseractWorker> {
+    if (!this.workerPromise) {
+      this.workerPromise = createWorker('eng', OEM.LSTM_ONLY, {
+        workerPath: `${OCR_ASSET_PATH}/worker.min.js`,
+        corePath: OCR_ASSET_PATH,
+        langPath: OCR_ASSET_PATH,
+        gzip: true,
+      }).catch((error) => {
+        this.workerPromise = null;
+        throw error;
+      });
+    }
+    return this.workerPromise;
+  }
+
+  /**
+   * Recognize text in an image
+   */
+  private async extractFromImage(file: Blob): Promise<string> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(file);
+    return data.text;
+  }
+
+  /**
+   * Read the text layer of a PDF, page by page
+   */
+  private async extractFromPdf(file: Blob): Promise<string> {
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+    try {
+      const pages: string[] = [];
+      const pageCount = Math.min(pdf.numPages, MAX_PDF_PAGES);
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        pages.push(
+          content.items
+            .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+            .join('')
+        );
+      }
+      return pages.join('\n');
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  /**
+   * Extract text from an attachment's raw bytes.
+   * Returns an empty string when the file has no recognizable text.
+   */
+  async extractText(file: Blob, type: AttachmentType['type']): Promise<string> {
+    let text = '';
+    if (type === 'image') {
+      text = await this.extractFromImage(file);
+    } else if (type === 'pdf') {
+      text = await this.extractFromPdf(file);
+    }
+
+    // Collapse the whitespace noise OCR tends to produce
+    return text.replace(/[ \t]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+  }
+
+  /**
+   * Shut down the Tesseract worker to release its memory
+   */
+  async terminate(): Promise<void> {
+    if (this.workerPromise) {
+      const worker = await this.workerPromise;
+      this.workerPromise = null;
+      await worker.terminate();
+    }
+  }
+}
+
+export const ocrService = OCRService.getInstance();
@@ -1,5 +1,6 @@
 import { RecordType } from '../App';
 import { getTagGlossary } from './hashtagTaxonomy';
+import { verifyEventChain, ChainVerification } from './security/eventLog';
 
 function formatDateLocal(dateString: string): string {
   const date = new Date(dateString);
@@ -24,16 +25,28 @@ function getShortHash(hash: string | undefined): string {
   return hash.substring(0, 8);
 }
 
-export function generateLawyerReadyReport(
+function formatChange(value: unknown): string {
+  if (value === null || value === undefined) return '(none)';
+  if (typeof value === 'string') return `"${value}"`;
+  return JSON.stringify(value);
+}
+
+export async function generateLawyerReadyReport(
   records: RecordType[],
   caseLabel: string = 'CASE DOCUMENTATION',
   taxonomy: any
-): string {
+): Promise<string> {
   const exportTimestamp = new Date().toISOString();
   const sortedRecords = [...records].sort(
     (a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime()
   );
 
+  // Verify each record's event chain up front so the appendix can report it
+  const chainResults = new Map<string, ChainVerification>();
+  for (const record of sortedRecords) {
+    chainResults.set(record.id, await verifyEventChain(record.eventLog));
+  }
+
   // Calculate date range
   const dateRange =
     records.length > 0
@@ -199,21 +212,37 @@ export function generateLawyerReadyReport(
   report += `${'═'.repeat(80)}\n\n`;
 
   // Integrity Log
-  report += `A. INTEGRITY LOG\n`;
+  report += `A. INTEGRITY LOG (Hash-Chained Event History)\n`;
   report += `${'─'.repeat(80)}\n\n`;
+  report += `Each event records the SHA-256 hash of the event before it. Altering,\n`;
+  report += `removing or reordering any event breaks the chain from that point on.\n\n`;
   sortedRecords.forEach((record, index) => {
+    const chain = chainResults.get(record.id)!;
     report += `Entry #${index + 1}:\n`;
     if (record.eventLog && record.eventLog.length > 0) {
       record.eventLog.forEach((event) => {
         report += `  ${event.action.toUpperCase()} at ${formatDateUTC(event.timestamp)}\n`;
+        event.changes?.forEach((change) => {
+          report += `      ${change.field}: ${formatChange(change.from)} -> ${formatChange(change.to)}\n`;
+        });
+        if (event.hash) {
+          report += `      Event Hash: ${event.hash}\n`;
+          report += `      Prev Hash:  ${event.prevHash}\n`;
+        }
       });
     } else {
       report += `  CREATED at ${formatDateUTC(record.createdAt)}\n`;
     }
-    if (record.editedAt) {
-      report += `  EDITED at ${formatDateUTC(record.editedAt)}\n`;
-    }
     report += `  EXPORTED at ${exportTimestamp}\n`;
+    if (chain.valid) {
+      report += `  CHAIN STATUS: VERIFIED`;
+      if (chain.unchainedCount > 0) {
+        report += ` (${chain.unchainedCount} earlier event(s) predate chaining)`;
+      }
+      report += `\n`;
+    } else {
+      report += `  CHAIN STATUS: BROKEN at event #${(chain.brokenAt ?? 0) + 1}\n`;
+    }
     report += `\n`;
   });
 
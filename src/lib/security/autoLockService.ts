@@ -0,0 +1,162 @@
+/**
+ * Auto-Lock Service
+ * Returns to the lock screen after a period without interaction, and
+ * optionally as soon as the app is sent to the background. Background
+ * changes come from @capacitor/app on iOS and Android and from the page
+ * visibility on the web. Timers do not run while the app is suspended,
+ * so the idle time is also checked when the app comes back.
+ *
+ * Opening a file picker sends the app to the background on some devices,
+ * so the background that follows one is not treated as leaving the app.
+ */
+
+import { App as CapacitorApp } from '@capacitor/app';
+import { Capacitor } from '@capacitor/core';
+import type { PluginListenerHandle } from '@capacitor/core';
+import { indexedDBStorage } from '../storage/indexedDBStorage';
+
+export interface AutoLockConfig {
+  /** Minutes without interaction before locking, or null to never lock when idle */
+  idleMinutes: number | null;
+  lockOnBackground: boolean;
+}
+
+export const AUTO_LOCK_MINUTE_OPTIONS = [1, 5, 15, 30];
+
+const CONFIG_KEY = 'recordKeeper_autoLock';
+const DEFAULT_CONFIG: AutoLockConfig = { idleMinutes: 5, lockOnBackground: true };
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'];
+
+export class AutoLockService {
+  private static instance: AutoLockService;
+  private onLock: (() => void) | null = null;
+  private config: AutoLockConfig = DEFAULT_CONFIG;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private lastActivity = Date.now();
+  private appStateListener: PluginListenerHandle | null = null;
+  private pickingFile = false;
+
+  private constructor() {}
+
+  static getInstance(): AutoLockService {
+    if (!AutoLockService.instance) {
+      AutoLockService.instance = new AutoLockService();
+    }
+    return AutoLockService.instance;
+  }
+
+  private handleActivity = () => {
+    this.lastActivity = Date.now();
+    this.schedule();
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    if (event.target instanceof HTMLInputElement && event.target.type === 'file') {
+      this.pickingFile = true;
+    }
+  };
+
+  /** The picker has closed, whether or not the app went to the background */
+  private handleFocus = () => {
+    this.pickingFile = false;
+  };
+
+  private handleVisibilityChange = () => {
+    this.handleAppState(!document.hidden);
+  };
+
+  /**
+   * Saved settings, readable while locked so decoy mode locks the same way
+   */
+  async getConfig(): Promise<AutoLockConfig> {
+    return { ...DEFAULT_CONFIG, ...(await indexedDBStorage.getSetting(CONFIG_KEY)) };
+  }
+
+  async setConfig(config: AutoLockConfig): Promise<void> {
+    await indexedDBStorage.saveSetting(CONFIG_KEY, config);
+    this.config = config;
+    if (this.onLock) this.schedule();
+  }
+
+  /**
+   * Begin watching for inactivity and backgrounding. onLock runs at most once per start.
+   */
+  async start(onLock: () => void): Promise<void> {
+    this.stop();
+    this.onLock = onLock;
+    this.config = await this.getConfig();
+    this.lastActivity = Date.now();
+    this.pickingFile = false;
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.handleActivity, { passive: true }));
+    document.addEventListener('click', this.handleClick, true);
+    window.addEventListener('focus', this.handleFocus);
+    if (Capacitor.isNativePlatform()) {
+      this.appStateListener = await CapacitorApp.addListener('appStateChange', ({ isActive }) => {
+        this.handleAppState(isActive);
+      });
+    } else {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Stop watching and release listeners
+   */
+  stop(): void {
+    this.clearTimer();
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.handleActivity));
+    document.removeEventListener('click', this.handleClick, true);
+    window.removeEventListener('focus', this.handleFocus);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.appStateListener?.remove();
+    this.appStateListener = null;
+    this.onLock = null;
+  }
+
+  private handleAppState(isActive: boolean): void {
+    if (!isActive) {
+      if (this.config.lockOnBackground && !this.pickingFile) this.lock();
+      return;
+    }
+    this.pickingFile = false;
+    if (this.idleExpired()) {
+      this.lock();
+    } else {
+      this.schedule();
+    }
+  }
+
+  private idleExpired(): boolean {
+    const { idleMinutes } = this.config;
+    return idleMinutes !== null && Date.now() - this.lastActivity >= idleMinutes * 60 * 1000;
+  }
+
+  private schedule(): void {
+    this.clearTimer();
+    const { idleMinutes } = this.config;
+    if (idleMinutes === null) return;
+    const remaining = this.lastActivity + idleMinutes * 60 * 1000 - Date.now();
+    this.timer = setTimeout(() => this.lock(), Math.max(0, remaining));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private lock(): void {
+    const onLock = this.onLock;
+    this.stop();
+    if (onLock) {
+      console.log('Auto-locking');
+      onLock();
+    }
+  }
+}
+
+export const autoLockService = AutoLockService.getInstance();
@@ -0,0 +1,159 @@
+/**
+ * Biometric Unlock
+ * Opens the lock screen with Face ID / fingerprint instead of the PIN.
+ * Turning it on keeps a copy of the main PIN in an iOS Keychain / Android
+ * Keystore item that the OS only releases after a biometric check, so the
+ * PIN is never readable by the app, or from the device, without one.
+ * Enrolling a new fingerprint or face invalidates the item and turns
+ * biometric unlock off. A successful check returns the PIN, which then
+ * unlocks exactly as if it had been typed. Only available on iOS and Android.
+ *
+ * The stored PIN is checked against the main PIN verifier before use, so
+ * biometrics never open the real records when only a decoy PIN is set.
+ */
+
+import { Capacitor } from '@capacitor/core';
+import { AccessControl, BiometricAuthError, NativeBiometric } from '@capgo/capacitor-native-biometric';
+import { biometricAuth } from './biometricAuth';
+import { encryptedStorage } from './encryptedStorage';
+import { pinSecurity } from './pinSecurity';
+import { indexedDBStorage } from '../storage/indexedDBStorage';
+
+const ENABLED_KEY = 'recordKeeper_biometricUnlock';
+const PIN_KEY = 'recordKeeper.biometricUnlockPin';
+/** Earlier versions kept the PIN in the secrets table of the encrypted database */
+const LEGACY_PIN_SECRET = 'biometricUnlockPin';
+
+export class BiometricUnlockService {
+  private static instance: BiometricUnlockService;
+
+  private constructor() {}
+
+  static getInstance(): BiometricUnlockService {
+    if (!BiometricUnlockService.instance) {
+      BiometricUnlockService.instance = new BiometricUnlockService();
+    }
+    return BiometricUnlockService.instance;
+  }
+
+  /**
+   * Whether this device can offer biometric unlock at all
+   */
+  async isSupported(): Promise<boolean> {
+    if (!Capacitor.isNativePlatform()) return false;
+    return biometricAuth.isAvailable();
+  }
+
+  async isEnabled(): Promise<boolean> {
+    return (await indexedDBStorage.getSetting(ENABLED_KEY)) === 'true';
+  }
+
+  /**
+   * Name to show for the available biometry, e.g. "Face ID"
+   */
+  async getLabel(): Promise<string> {
+    return biometricAuth.getBiometryName(await biometricAuth.getBiometryType());
+  }
+
+  /**
+   * Turn biometric unlock on for the given main PIN. On Android, storing
+   * the PIN asks for biometrics.
+   */
+  async enable(mainPin: string): Promise<void> {
+    if (!(await this.isSupported())) {
+      throw new Error('Biometric unlock is not available on this device');
+    }
+    if (!(await pinSecurity.matches('main', mainPin))) {
+      throw new Error('Incorrect PIN');
+    }
+
+    await this.storePin(mainPin, 'Turn on biometric unlock');
+    await indexedDBStorage.saveSetting(ENABLED_KEY, 'true');
+    console.log('Biometric unlock enabled');
+  }
+
+  /**
+   * Replace the stored PIN after the main PIN changes. If the new copy
+   * cannot be stored, e.g. the Android prompt was cancelled, biometric
+   * unlock is turned off rather than left with the old PIN.
+   */
+  async updatePin(mainPin: string): Promise<void> {
+    if (!(await this.isEnabled())) return;
+    try {
+      await this.storePin(mainPin, 'Keep biometric unlock on');
+    } catch (error) {
+      console.warn('Could not store the new PIN for biometric unlock; turning it off:', error);
+      await this.disable();
+    }
+  }
+
+  async disable(): Promise<void> {
+    await indexedDBStorage.saveSetting(ENABLED_KEY, 'false');
+    if (Capacitor.isNativePlatform()) {
+      await NativeBiometric.deleteData({ key: PIN_KEY });
+    }
+    console.log('Biometric unlock disabled');
+  }
+
+  /**
+   * Ask for biometrics and return the main PIN, or null if the check
+   * failed or was cancelled. A stored PIN that is gone, e.g. after new
+   * biometrics were enrolled, or that no longer matches the main PIN turns
+   * biometric unlock off.
+   */
+  async unlock(): Promise<string | null> {
+    if (!(await this.isEnabled())) return null;
+
+    let mainPin: string;
+    try {
+      ({ value: mainPin } = await NativeBiometric.getSecureData({
+        key: PIN_KEY,
+        reason: 'Unlock your records',
+        title: 'Unlock your records',
+      }));
+    } catch (error) {
+      if ((error as { code?: string }).code === String(BiometricAuthError.NO_PROTECTED_CREDENTIALS_FOUND)) {
+        console.warn('No biometric PIN is stored; turning biometric unlock off');
+        await this.disable();
+      }
+      return null;
+    }
+
+    if (!(await pinSecurity.matches('main', mainPin))) {
+      console.warn('Stored biometric PIN does not match the main PIN; turning biometric unlock off');
+      await this.disable();
+      return null;
+    }
+
+    await pinSecurity.clearFailures();
+    return mainPin;
+  }
+
+  /**
+   * Keep the PIN in a Keychain / Keystore item tied to the biometrics
+   * enrolled now
+   */
+  private async storePin(mainPin: string, title: string): Promise<void> {
+    await NativeBiometric.setData({
+      key: PIN_KEY,
+      value: mainPin,
+      accessControl: AccessControl.BIOMETRY_CURRENT_SET,
+      title,
+    });
+  }
+
+  /**
+   * Erase the copy of the PIN earlier versions kept in the encrypted
+   * database. Call once storage is unlocked.
+   */
+  async removeLegacyPin(): Promise<void> {
+    if (!Capacitor.isNativePlatform()) return;
+    try {
+      await encryptedStorage.deleteSecret(LEGACY_PIN_SECRET);
+    } catch (error) {
+      console.warn('Could not remove the previous biometric PIN copy:', error);
+    }
+  }
+}
+
+export const biometricUnlock = BiometricUnlockService.getInstance();
@@ -1,6 +1,33 @@
-import { CapacitorSQLite, SQLiteConnection, SQLiteDBConnection } from '@capacitor-community/sqlite';
+/**
+ * Encrypted Storage Service
+ * The native record store: records and attachments live in the
+ * SQLCipher-encrypted herlaw_evidence_db database on iOS and Android.
+ *
+ * The database passphrase is a random 256-bit key generated on first
+ * open and kept as an encrypted setting, sealed by the storage vault's
+ * PIN-wrapped data key, so the database can only be opened after the PIN
+ * unlocks storage. The SQLite plugin only accepts a passphrase through
+ * the iOS Keychain / Android Keystore, so it is placed there while the
+ * database is open and removed again when storage locks.
+ *
+ * Wiping the device while locked cannot open the database, so it erases
+ * the passphrase instead; the file left behind can never be decrypted,
+ * and the next database is created under a new name.
+ *
+ * The secrets table holds small values that only the database passphrase
+ * should reveal.
+ */
+
+import { CapacitorSQLite, SQLiteConnection, SQLiteDBConnection, capSQLiteSet } from '@capacitor-community/sqlite';
 import { Capacitor } from '@capacitor/core';
+import { RecordType } from '../../App';
+import { extractInlineAttachments } from '../storage/inlineAttachments';
+import { indexedDBStorage } from '../storage/indexedDBStorage';
+import type { RecordStorage } from '../storage/recordStorage';
 
+/**
+ * Flat record shape used by PDF export
+ */
 export interface EncryptedRecord {
   id?: number;
   timestamp: number;
@@ -11,16 +38,61 @@ export interface EncryptedRecord {
   hash: string;
 }
 
-export class EncryptedStorageService {
+const DB_NAME = 'herlaw_evidence_db';
+const DB_VERSION = 1;
+/** Sealed by the storage vault like any other setting that is not plain */
+const PASSPHRASE_SETTING = 'recordKeeper_databasePassphrase';
+/** Plain, as earlier versions opened the database before storage was unlocked */
+const DB_NAME_SETTING = 'recordKeeper_databaseName';
+
+const CREATE_TABLES = `
+  CREATE TABLE IF NOT EXISTS records (
+    id TEXT PRIMARY KEY NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS attachments (
+    id TEXT PRIMARY KEY NOT NULL,
+    mime_type TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS secrets (
+    name TEXT PRIMARY KEY NOT NULL,
+    value TEXT NOT NULL
+  );
+`;
+
+function generatePassphrase(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBlob(base64: string, mimeType: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+export class EncryptedStorageService implements RecordStorage {
   private static instance: EncryptedStorageService;
   private sqlite: SQLiteConnection;
   private db: SQLiteDBConnection | null = null;
-  private dbName = 'herlaw_evidence_db';
-  private isNative: boolean;
+  private dbName: string | null = null;
+  private initPromise: Promise<void> | null = null;
 
   private constructor() {
     this.sqlite = new SQLiteConnection(CapacitorSQLite);
-    this.isNative = Capacitor.isNativePlatform();
   }
 
   static getInstance(): EncryptedStorageService {
@@ -31,35 +103,46 @@ export class EncryptedStorageService {
   }
 
   /**
-   * Initialize database with encryption
+   * Open the encrypted database, creating its key on first use. Storage
+   * must be unlocked. Concurrent callers share a single initialization.
    */
-  async initialize(encryptionKey?: string): Promise<void> {
+  async initialize(): Promise<void> {
+    if (this.db) return;
+    if (!this.initPromise) {
+      this.initPromise = this.openDatabase().catch((error) => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async openDatabase(): Promise<void> {
+    if (!Capacitor.isNativePlatform()) {
+      throw new Error('Encrypted SQLite storage is only available on iOS and Android');
+    }
+
     try {
-      if (!this.isNative) {
-        console.log('Using web storage fallback (not encrypted)');
-        await this.initializeWebFallback();
-        return;
+      if (!(await this.sqlite.isSecretStored()).result) {
+        await this.sqlite.setEncryptionSecret(await this.loadPassphrase());
       }
+      const name: string = (await indexedDBStorage.getSetting(DB_NAME_SETTING)) ?? DB_NAME;
 
-      // Create encrypted database connection
-      const ret = await this.sqlite.checkConnectionsConsistency();
-      const isConn = (await this.sqlite.isConnection(this.dbName, false)).result;
-
-      if (ret.result && isConn) {
-        this.db = await this.sqlite.retrieveConnection(this.dbName, false);
-      } else {
-        this.db = await this.sqlite.createConnection(
-          this.dbName,
-          true, // encrypted
-          'no-encryption', // mode
-          1, // version
-          false
-        );
-      }
+      // A database left unencrypted by an earlier version is encrypted in place on first open
+      const exists = (await this.sqlite.isDatabase(name)).result;
+      const encrypted = exists && (await this.sqlite.isDatabaseEncrypted(name)).result;
+      const mode = exists && !encrypted ? 'encryption' : 'secret';
 
-      await this.db.open();
-      await this.createTables();
+      const consistent = (await this.sqlite.checkConnectionsConsistency()).result;
+      const isConn = (await this.sqlite.isConnection(name, false)).result;
+      const db = consistent && isConn
+        ? await this.sqlite.retrieveConnection(name, false)
+        : await this.sqlite.createConnection(name, true, mode, DB_VERSION, false);
 
+      await db.open();
+      await db.execute(CREATE_TABLES);
+      this.db = db;
+      this.dbName = name;
       console.log('Encrypted database initialized');
     } catch (error) {
       console.error('Failed to initialize encrypted storage:', error);
@@ -68,86 +151,71 @@ export class EncryptedStorageService {
   }
 
   /**
-   * Create database tables
+   * The database passphrase from the vault-sealed settings. A new one
+   * also picks the database name, skipping a file whose key was erased.
    */
-  private async createTables(): Promise<void> {
-    const createTableQuery = `
-      CREATE TABLE IF NOT EXISTS evidence_records (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        timestamp INTEGER NOT NULL,
-        type TEXT NOT NULL,
-        content TEXT NOT NULL,
-        tags TEXT NOT NULL,
-        attachments TEXT,
-        hash TEXT NOT NULL,
-        created_at INTEGER DEFAULT (strftime('%s', 'now'))
-      );
-      CREATE INDEX IF NOT EXISTS idx_timestamp ON evidence_records(timestamp);
-      CREATE INDEX IF NOT EXISTS idx_tags ON evidence_records(tags);
-      CREATE INDEX IF NOT EXISTS idx_hash ON evidence_records(hash);
-    `;
+  private async loadPassphrase(): Promise<string> {
+    const stored: string | undefined = await indexedDBStorage.getSetting(PASSPHRASE_SETTING);
+    if (stored) return stored;
 
-    if (this.db) {
-      await this.db.execute(createTableQuery);
-    }
+    const orphaned = (await this.sqlite.isDatabase(DB_NAME)).result &&
+      (await this.sqlite.isDatabaseEncrypted(DB_NAME)).result;
+    const passphrase = generatePassphrase();
+    await indexedDBStorage.saveSetting(PASSPHRASE_SETTING, passphrase);
+    await indexedDBStorage.saveSetting(DB_NAME_SETTING, orphaned ? `${DB_NAME}_${Date.now()}` : DB_NAME);
+    return passphrase;
   }
 
   /**
-   * Web fallback using IndexedDB
+   * Statements writing a record, with any inline attachments moved into the attachments table
    */
-  private async initializeWebFallback(): Promise<void> {
-    // For web, we'll use localStorage with basic encryption
-    // In production, consider using IndexedDB with crypto-js
-    console.log('Web storage initialized (encrypted with Web Crypto API)');
+  private async recordStatements(record: RecordType): Promise<capSQLiteSet[]> {
+    const { record: reference, blobs } = extractInlineAttachments(record);
+    const statements: capSQLiteSet[] = [];
+    for (const { id, blob } of blobs) {
+      statements.push({
+        statement: 'INSERT OR REPLACE INTO attachments (id, mime_type, data) VALUES (?, ?, ?);',
+        values: [id, blob.type || 'application/octet-stream', await blobToBase64(blob)],
+      });
+    }
+    statements.push({
+      statement: 'INSERT OR REPLACE INTO records (id, data) VALUES (?, ?);',
+      values: [reference.id, JSON.stringify(reference)],
+    });
+    return statements;
   }
 
   /**
-   * Save evidence record with cryptographic hash
+   * Save all records
    */
-  async saveRecord(record: Omit<EncryptedRecord, 'id' | 'hash'>): Promise<number> {
+  async saveRecords(records: RecordType[]): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    const statements: capSQLiteSet[] = [{ statement: 'DELETE FROM records;', values: [] }];
+    for (const record of records) {
+      statements.push(...await this.recordStatements(record));
+    }
+
     try {
-      // Generate hash for integrity verification
-      const hash = await this.generateHash(record);
-      const recordWithHash = { ...record, hash };
-
-      if (this.isNative && this.db) {
-        const query = `
-          INSERT INTO evidence_records (timestamp, type, content, tags, attachments, hash)
-          VALUES (?, ?, ?, ?, ?, ?);
-        `;
-        const values = [
-          recordWithHash.timestamp,
-          recordWithHash.type,
-          recordWithHash.content,
-          recordWithHash.tags,
-          recordWithHash.attachments || null,
-          recordWithHash.hash
-        ];
-
-        const result = await this.db.run(query, values);
-        return result.changes?.lastId || 0;
-      } else {
-        // Web fallback
-        return this.saveToLocalStorage(recordWithHash);
-      }
+      await this.db!.executeSet(statements, true);
+      console.log(`Saved ${records.length} records to encrypted storage`);
     } catch (error) {
-      console.error('Failed to save record:', error);
+      console.error('Failed to save records:', error);
       throw error;
     }
   }
 
   /**
-   * Get all evidence records
+   * Get all records
    */
-  async getAllRecords(): Promise<EncryptedRecord[]> {
+  async getRecords(): Promise<RecordType[]> {
+    if (!this.db) await this.initialize();
+
     try {
-      if (this.isNative && this.db) {
-        const query = 'SELECT * FROM evidence_records ORDER BY timestamp DESC;';
-        const result = await this.db.query(query);
-        return result.values || [];
-      } else {
-        return this.getFromLocalStorage();
-      }
+      const result = await this.db!.query('SELECT data FROM records ORDER BY rowid;');
+      const records = (result.values ?? []).map(row => JSON.parse(row.data) as RecordType);
+      console.log(`Retrieved ${records.length} records from encrypted storage`);
+      return records;
     } catch (error) {
       console.error('Failed to get records:', error);
       throw error;
@@ -155,113 +223,167 @@ export class EncryptedStorageService {
   }
 
   /**
-   * Get records by tag
+   * Add a single record
    */
-  async getRecordsByTag(tag: string): Promise<EncryptedRecord[]> {
+  async addRecord(record: RecordType): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    const existing = await this.db!.query('SELECT id FROM records WHERE id = ?;', [record.id]);
+    if ((existing.values ?? []).length > 0) {
+      throw new Error(`Record ${record.id} already exists`);
+    }
+
     try {
-      if (this.isNative && this.db) {
-        const query = 'SELECT * FROM evidence_records WHERE tags LIKE ? ORDER BY timestamp DESC;';
-        const result = await this.db.query(query, [`%${tag}%`]);
-        return result.values || [];
-      } else {
-        const all = this.getFromLocalStorage();
-        return all.filter(r => r.tags.includes(tag));
-      }
+      await this.db!.executeSet(await this.recordStatements(record), true);
+      console.log('Record added to encrypted storage:', record.id);
     } catch (error) {
-      console.error('Failed to get records by tag:', error);
+      console.error('Failed to add record:', error);
       throw error;
     }
   }
 
   /**
-   * Delete record by ID
+   * Update a single record
    */
-  async deleteRecord(id: number): Promise<void> {
+  async updateRecord(record: RecordType): Promise<void> {
+    if (!this.db) await this.initialize();
+
     try {
-      if (this.isNative && this.db) {
-        const query = 'DELETE FROM evidence_records WHERE id = ?;';
-        await this.db.run(query, [id]);
-      } else {
-        const records = this.getFromLocalStorage();
-        const filtered = records.filter(r => r.id !== id);
-        localStorage.setItem('evidence_records', JSON.stringify(filtered));
-      }
+      await this.db!.executeSet(await this.recordStatements(record), true);
+      console.log('Record updated in encrypted storage:', record.id);
     } catch (error) {
-      console.error('Failed to delete record:', error);
+      console.error('Failed to update record:', error);
       throw error;
     }
   }
 
   /**
-   * Verify record integrity using hash
+   * Delete a record
    */
-  async verifyRecordIntegrity(record: EncryptedRecord): Promise<boolean> {
-    const { hash, ...recordWithoutHash } = record;
-    const calculatedHash = await this.generateHash(recordWithoutHash);
-    return hash === calculatedHash;
+  async deleteRecord(id: string): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    try {
+      await this.db!.run('DELETE FROM records WHERE id = ?;', [id]);
+      console.log('Record deleted from encrypted storage:', id);
+    } catch (error) {
+      console.error('Failed to delete record:', error);
+      throw error;
+    }
   }
 
   /**
-   * Generate cryptographic hash for record integrity
+   * Clear all records and their attachments
    */
-  private async generateHash(record: Omit<EncryptedRecord, 'id' | 'hash'>): Promise<string> {
-    const data = JSON.stringify(record);
-
-    if (typeof crypto !== 'undefined' && crypto.subtle) {
-      const encoder = new TextEncoder();
-      const dataBuffer = encoder.encode(data);
-      const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-    } else {
-      // Fallback for environments without Web Crypto API
-      return btoa(data).substring(0, 64);
+  async clearRecords(): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    try {
+      await this.db!.execute('DELETE FROM records; DELETE FROM attachments;');
+      console.log('All records cleared from encrypted storage');
+    } catch (error) {
+      console.error('Failed to clear records:', error);
+      throw error;
     }
   }
 
   /**
-   * Web storage fallback methods
+   * Store an attachment's binary content
    */
-  private saveToLocalStorage(record: Omit<EncryptedRecord, 'id'> & { hash: string }): number {
-    const records = this.getFromLocalStorage();
-    const id = records.length > 0 ? Math.max(...records.map(r => r.id || 0)) + 1 : 1;
-    const newRecord = { ...record, id };
-    records.push(newRecord);
-    localStorage.setItem('evidence_records', JSON.stringify(records));
-    return id;
+  async saveAttachment(id: string, blob: Blob): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    try {
+      await this.db!.run(
+        'INSERT OR REPLACE INTO attachments (id, mime_type, data) VALUES (?, ?, ?);',
+        [id, blob.type || 'application/octet-stream', await blobToBase64(blob)]
+      );
+    } catch (error) {
+      console.error('Failed to save attachment:', error);
+      throw error;
+    }
   }
 
-  private getFromLocalStorage(): EncryptedRecord[] {
-    const data = localStorage.getItem('evidence_records');
-    return data ? JSON.parse(data) : [];
+  /**
+   * Load an attachment's binary content
+   */
+  async getAttachment(id: string): Promise<Blob | null> {
+    if (!this.db) await this.initialize();
+
+    try {
+      const result = await this.db!.query('SELECT mime_type, data FROM attachments WHERE id = ?;', [id]);
+      const row = result.values?.[0];
+      return row ? base64ToBlob(row.data, row.mime_type) : null;
+    } catch (error) {
+      console.error('Failed to get attachment:', error);
+      throw error;
+    }
   }
 
   /**
-   * Close database connection
+   * Delete attachments by id
    */
-  async close(): Promise<void> {
-    if (this.isNative && this.db) {
-      await this.sqlite.closeConnection(this.dbName, false);
-      this.db = null;
+  async deleteAttachments(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    if (!this.db) await this.initialize();
+
+    try {
+      await this.db!.executeSet(
+        ids.map(id => ({ statement: 'DELETE FROM attachments WHERE id = ?;', values: [id] })),
+        true
+      );
+    } catch (error) {
+      console.error('Failed to delete attachments:', error);
+      throw error;
     }
   }
 
   /**
-   * Export all records for backup
+   * Store a small secret alongside the records
    */
-  async exportAllRecords(): Promise<string> {
-    const records = await this.getAllRecords();
-    return JSON.stringify(records, null, 2);
+  async saveSecret(name: string, value: string): Promise<void> {
+    if (!this.db) await this.initialize();
+    await this.db!.run('INSERT OR REPLACE INTO secrets (name, value) VALUES (?, ?);', [name, value]);
+  }
+
+  async getSecret(name: string): Promise<string | null> {
+    if (!this.db) await this.initialize();
+    const result = await this.db!.query('SELECT value FROM secrets WHERE name = ?;', [name]);
+    return result.values?.[0]?.value ?? null;
   }
 
   /**
-   * Clear all records (use with caution!)
+   * Delete one secret, or every secret when no name is given
    */
-  async clearAllRecords(): Promise<void> {
-    if (this.isNative && this.db) {
-      await this.db.execute('DELETE FROM evidence_records;');
+  async deleteSecret(name?: string): Promise<void> {
+    if (!this.db) await this.initialize();
+    if (name) {
+      await this.db!.run('DELETE FROM secrets WHERE name = ?;', [name]);
     } else {
-      localStorage.removeItem('evidence_records');
+      await this.db!.execute('DELETE FROM secrets;');
+    }
+  }
+
+  /**
+   * Close database connection
+   */
+  async close(): Promise<void> {
+    if (this.db) {
+      await this.sqlite.closeConnection(this.dbName!, false);
+      this.db = null;
+      this.dbName = null;
+      this.initPromise = null;
+    }
+  }
+
+  /**
+   * Close the database and remove its passphrase from the Keychain / Keystore,
+   * so it can only be opened again after the PIN unlocks storage
+   */
+  async forgetKey(): Promise<void> {
+    await this.close();
+    if ((await this.sqlite.isSecretStored()).result) {
+      await this.sqlite.clearEncryptionSecret();
     }
   }
 }
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { RecordEvent } from '../../App';
+import { appendEvent, GENESIS_HASH, verifyEventChain } from './eventLog';
+
+async function chain(): Promise<RecordEvent[]> {
+  let log = await appendEvent([], 'created', undefined, '2024-01-01T09:00:00.000Z');
+  log = await appendEvent(log, 'edited', [{ field: 'description', from: 'a', to: 'b' }], '2024-01-02T09:00:00.000Z');
+  log = await appendEvent(log, 'tags_changed', [{ field: 'tags', from: [], to: ['school'] }], '2024-01-03T09:00:00.000Z');
+  return log;
+}
+
+describe('verifyEventChain', () => {
+  it('accepts an empty or missing log', async () => {
+    expect(await verifyEventChain(undefined)).toEqual({ valid: true, unchainedCount: 0 });
+    expect(await verifyEventChain([])).toEqual({ valid: true, unchainedCount: 0 });
+  });
+
+  it('accepts an untouched chain', async () => {
+    const log = await chain();
+    expect(log[0].prevHash).toBe(GENESIS_HASH);
+    expect(await verifyEventChain(log)).toEqual({ valid: true, unchainedCount: 0 });
+  });
+
+  it('finds an entry whose content was rewritten', async () => {
+    const log = await chain();
+    log[1] = { ...log[1], changes: [{ field: 'description', from: 'a', to: 'c' }] };
+    expect(await verifyEventChain(log)).toEqual({ valid: false, brokenAt: 1, unchainedCount: 0 });
+  });
+
+  it('finds a rewritten entry even when its hash was recomputed', async () => {
+    const log = await chain();
+    const forged = await appendEvent(log.slice(0, 1), 'edited', [{ field: 'description', from: 'a', to: 'c' }], log[1].timestamp);
+    log[1] = forged[1];
+    expect(await verifyEventChain(log)).toEqual({ valid: false, brokenAt: 2, unchainedCount: 0 });
+  });
+
+  it('finds a removed entry', async () => {
+    const log = await chain();
+    expect(await verifyEventChain([log[0], log[2]])).toEqual({ valid: false, brokenAt: 1, unchainedCount: 0 });
+  });
+
+  it('finds reordered entries', async () => {
+    const log = await chain();
+    expect(await verifyEventChain([log[0], log[2], log[1]])).toEqual({ valid: false, brokenAt: 1, unchainedCount: 0 });
+  });
+
+  it('finds a missing hash after the chain starts', async () => {
+    const log = await chain();
+    const { hash: _hash, ...unhashed } = log[2];
+    expect(await verifyEventChain([log[0], log[1], unhashed])).toEqual({ valid: false, brokenAt: 2, unchainedCount: 0 });
+  });
+
+  it('counts entries from before chaining without verifying them', async () => {
+    const legacy: RecordEvent[] = [
+      { timestamp: '2023-12-01T09:00:00.000Z', action: 'created' },
+      { timestamp: '2023-12-02T09:00:00.000Z', action: 'edited' },
+    ];
+    const log = await appendEvent(legacy, 'edited', [{ field: 'location', from: null, to: 'Home' }], '2024-01-01T09:00:00.000Z');
+
+    // Legacy entries have no hash, so the first chained entry starts from the genesis hash
+    expect(log[2].prevHash).toBe(GENESIS_HASH);
+    expect(await verifyEventChain(log)).toEqual({ valid: true, unchainedCount: 2 });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Record Event Log
+ * Append-only, hash-chained history for each evidence record.
+ * Every entry stores the hash of the entry before it, so removing,
+ * reordering or rewriting any entry breaks the chain on verification.
+ */
+
+import { RecordType, RecordEvent, FieldChange, AttachmentType } from '../../App';
+import { sha256Hex } from './recordIntegrity';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface ChainVerification {
+  valid: boolean;
+  /** Index of the first entry whose hash or link does not verify */
+  brokenAt?: number;
+  /** Entries written before chaining was introduced */
+  unchainedCount: number;
+}
+
+const TRACKED_FIELDS = ['dateTime', 'description', 'people', 'location', 'severity', 'caseLabel'] as const;
+
+function summarizeAttachment(file: AttachmentType) {
+  return { id: file.id, name: file.name, fileHash: file.fileHash ?? null };
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Hash an event's content together with the hash of its predecessor
+ */
+async function hashEvent(event: Omit<RecordEvent, 'hash'>): Promise<string> {
+  return sha256Hex(JSON.stringify([
+    event.timestamp,
+    event.action,
+    event.changes ?? [],
+    event.prevHash ?? GENESIS_HASH,
+  ]));
+}
+
+/**
+ * Return a new log with one chained entry appended. The input log is never mutated.
+ */
+export async function appendEvent(
+  log: RecordEvent[] | undefined,
+  action: RecordEvent['action'],
+  changes?: FieldChange[],
+  timestamp: string = new Date().toISOString()
+): Promise<RecordEvent[]> {
+  const existing = log ?? [];
+  const prevHash = existing[existing.length - 1]?.hash ?? GENESIS_HASH;
+  const entry: Omit<RecordEvent, 'hash'> = {
+    timestamp,
+    action,
+    ...(changes && changes.length > 0 ? { changes } : {}),
+    prevHash,
+  };
+  return [...existing, { ...entry, hash: await hashEvent(entry) }];
+}
+
+/**
+ * Group the differences between two versions of a record into log events:
+ * tag changes, each attachment added or removed, and all other field edits.
+ */
+export function diffRecordEvents(
+  before: RecordType,
+  after: RecordType
+): { action: RecordEvent['action']; changes: FieldChange[] }[] {
+  const events: { action: RecordEvent['action']; changes: FieldChange[] }[] = [];
+
+  const fieldChanges: FieldChange[] = TRACKED_FIELDS
+    .filter(field => !isEqual(before[field], after[field]))
+    .map(field => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+  if (fieldChanges.length > 0) {
+    events.push({ action: 'edited', changes: fieldChanges });
+  }
+
+  if (!isEqual(before.tags, after.tags)) {
+    events.push({ action: 'tags_changed', changes: [{ field: 'tags', from: before.tags, to: after.tags }] });
+  }
+
+  const beforeFiles = before.files ?? [];
+  const afterFiles = after.files ?? [];
+  const beforeIds = new Set(beforeFiles.map(f => f.id));
+  const afterIds = new Set(afterFiles.map(f => f.id));
+
+  afterFiles
+    .filter(file => !beforeIds.has(file.id))
+    .forEach(file => {
+      events.push({ action: 'attachment_added', changes: [{ field: 'files', from: null, to: summarizeAttachment(file) }] });
+    });
+
+  beforeFiles
+    .filter(file => !afterIds.has(file.id))
+    .forEach(file => {
+      events.push({ action: 'attachment_removed', changes: [{ field: 'files', from: summarizeAttachment(file), to: null }] });
+    });
+
+  return events;
+}
+
+/**
+ * Walk the chain and confirm every entry links to and hashes over its predecessor.
+ * Leading entries from before chaining existed are counted but not verified.
+ */
+export async function verifyEventChain(log: RecordEvent[] | undefined): Promise<ChainVerification> {
+  const entries = log ?? [];
+  let index = 0;
+  while (index < entries.length && !entries[index].hash) {
+    index++;
+  }
+  const unchainedCount = index;
+
+  let expectedPrev = GENESIS_HASH;
+  for (; index < entries.length; index++) {
+    const { hash, ...entry } = entries[index];
+    if (!hash || (entry.prevHash ?? GENESIS_HASH) !== expectedPrev) {
+      return { valid: false, brokenAt: index, unchainedCount };
+    }
+    if ((await hashEvent(entry)) !== hash) {
+      return { valid: false, brokenAt: index, unchainedCount };
+    }
+    expectedPrev = hash;
+  }
+
+  return { valid: true, unchainedCount };
+}
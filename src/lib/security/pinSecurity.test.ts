@@ -0,0 +1,137 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PinVerifier } from './pinSecurity';
+
+const storage = vi.hoisted(() => ({
+  settings: new Map<string, unknown>(),
+  wipeAllData: null as unknown as () => Promise<void>,
+}));
+
+vi.mock('../storage/indexedDBStorage', () => ({
+  indexedDBStorage: {
+    getSetting: async (key: string) => structuredClone(storage.settings.get(key)) ?? null,
+    saveSetting: async (key: string, value: unknown) => {
+      storage.settings.set(key, structuredClone(value));
+    },
+  },
+}));
+
+vi.mock('../storage/recordStorage', () => ({
+  wipeAllData: () => storage.wipeAllData(),
+}));
+
+const { pinSecurity } = await import('./pinSecurity');
+
+const MAIN_PIN = '2580';
+const START = new Date('2024-01-01T09:00:00.000Z');
+
+/** A verifier with few iterations, so failed attempts stay quick */
+async function quickVerifier(pin: string): Promise<PinVerifier> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const hash = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations: 1000, hash: 'SHA-256' }, baseKey, 256);
+  return {
+    format: 'pin4',
+    salt: btoa(String.fromCharCode(...salt)),
+    iterations: 1000,
+    hash: btoa(String.fromCharCode(...new Uint8Array(hash))),
+  };
+}
+
+/** Milliseconds until the lockout ends, or null when none is set */
+function lockedFor(lockedUntil?: string): number | null {
+  return lockedUntil ? new Date(lockedUntil).getTime() - Date.now() : null;
+}
+
+describe('pinSecurity.attemptUnlock', () => {
+  beforeAll(() => {
+    vi.stubGlobal('localStorage', { removeItem: () => undefined });
+  });
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(START);
+    storage.settings.clear();
+    storage.settings.set('recordKeeper_pin', await quickVerifier(MAIN_PIN));
+    storage.wipeAllData = vi.fn(async () => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows four failed attempts without a delay', async () => {
+    for (let failures = 1; failures <= 4; failures++) {
+      const result = await pinSecurity.attemptUnlock('0000');
+      expect(result).toEqual({ outcome: 'failed', lockout: { failures }, attemptsBeforeWipe: undefined });
+    }
+  });
+
+  it('locks for longer after each further failure, up to an hour', async () => {
+    const delays: (number | null)[] = [];
+    for (let attempt = 1; attempt <= 11; attempt++) {
+      const result = await pinSecurity.attemptUnlock('0000');
+      expect(result.outcome).toBe('failed');
+      const { lockedUntil } = await pinSecurity.getLockout();
+      delays.push(lockedFor(lockedUntil));
+      if (lockedUntil) vi.setSystemTime(new Date(lockedUntil));
+    }
+
+    const seconds = delays.map(ms => (ms === null ? null : ms / 1000));
+    expect(seconds).toEqual([null, null, null, null, 30, 60, 300, 900, 3600, 3600, 3600]);
+  });
+
+  it('refuses every passcode while locked, without counting a failure', async () => {
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      await pinSecurity.attemptUnlock('0000');
+    }
+
+    vi.setSystemTime(START.getTime() + 29 * 1000);
+    const result = await pinSecurity.attemptUnlock(MAIN_PIN);
+    expect(result.outcome).toBe('throttled');
+    expect((await pinSecurity.getLockout()).failures).toBe(5);
+
+    vi.setSystemTime(START.getTime() + 30 * 1000);
+    expect(await pinSecurity.attemptUnlock(MAIN_PIN)).toEqual({ outcome: 'main' });
+    expect(await pinSecurity.getLockout()).toEqual({ failures: 0 });
+  });
+
+  it('counts down to the wipe threshold and erases all data when it is reached', async () => {
+    await pinSecurity.setWipeThreshold(10);
+    storage.settings.set('recordKeeper_pinAttempts', { failures: 8 });
+
+    const warning = await pinSecurity.attemptUnlock('0000');
+    expect(warning).toMatchObject({ outcome: 'failed', attemptsBeforeWipe: 1 });
+    expect(storage.wipeAllData).not.toHaveBeenCalled();
+
+    vi.setSystemTime(new Date((await pinSecurity.getLockout()).lockedUntil!));
+    expect(await pinSecurity.attemptUnlock('0000')).toEqual({ outcome: 'wiped' });
+    expect(storage.wipeAllData).toHaveBeenCalledOnce();
+  });
+
+  it('never wipes when no threshold is set', async () => {
+    storage.settings.set('recordKeeper_pinAttempts', { failures: 50 });
+
+    expect((await pinSecurity.attemptUnlock('0000')).outcome).toBe('failed');
+    expect(storage.wipeAllData).not.toHaveBeenCalled();
+  });
+
+  it('replaces a PIN stored in plain text with a verifier after it unlocks', async () => {
+    storage.settings.set('recordKeeper_pin', MAIN_PIN);
+    storage.settings.set('recordKeeper_decoyPin', '1111');
+
+    expect(await pinSecurity.attemptUnlock(MAIN_PIN)).toEqual({ outcome: 'main' });
+
+    for (const key of ['recordKeeper_pin', 'recordKeeper_decoyPin']) {
+      expect(storage.settings.get(key)).toMatchObject({ format: 'pin4', iterations: 600000 });
+    }
+    expect(await pinSecurity.matches('main', MAIN_PIN)).toBe(true);
+    expect(await pinSecurity.matches('decoy', '1111')).toBe(true);
+  });
+
+  it('leaves a plain-text PIN in place after a failed attempt', async () => {
+    storage.settings.set('recordKeeper_pin', MAIN_PIN);
+
+    expect((await pinSecurity.attemptUnlock('0000')).outcome).toBe('failed');
+    expect(storage.settings.get('recordKeeper_pin')).toBe(MAIN_PIN);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * PIN Security
+ * Checks the main and decoy passcodes against salted PBKDF2 verifiers, so
+ * neither is ever stored. Failed attempts are counted across restarts and
+ * each failure from the fifth on locks the screen for longer. An optional
+ * threshold erases all data on this device after too many failures.
+ */
+
+import { indexedDBStorage } from '../storage/indexedDBStorage';
+import { wipeAllData } from '../storage/recordStorage';
+
+/** 'pin4' is the original 4-digit PIN; 'numeric' is 6 or more digits */
+export type PasscodeFormat = 'pin4' | 'numeric' | 'alphanumeric';
+
+export type PinSlot = 'main' | 'decoy';
+
+export interface PinVerifier {
+  format: PasscodeFormat;
+  /** Base64 */
+  salt: string;
+  iterations: number;
+  /** Base64 PBKDF2-SHA-256 output */
+  hash: string;
+}
+
+/** Older versions stored the PIN itself */
+export type StoredPin = PinVerifier | string;
+
+export interface LockoutState {
+  failures: number;
+  /** No attempt is accepted before this time */
+  lockedUntil?: string;
+}
+
+export type UnlockResult =
+  | { outcome: 'main' }
+  | { outcome: 'decoy' }
+  | { outcome: 'failed'; lockout: LockoutState; attemptsBeforeWipe?: number }
+  | { outcome: 'throttled'; lockout: LockoutState }
+  | { outcome: 'wiped' };
+
+export const PIN_KDF_ITERATIONS = 600000;
+export const WIPE_THRESHOLD_OPTIONS = [10, 15, 20];
+
+const SLOT_KEYS: Record<PinSlot, string> = {
+  main: 'recordKeeper_pin',
+  decoy: 'recordKeeper_decoyPin',
+};
+const ATTEMPTS_KEY = 'recordKeeper_pinAttempts';
+const WIPE_THRESHOLD_KEY = 'recordKeeper_wipeAfterFailures';
+/** Failures allowed before the first delay */
+const FREE_ATTEMPTS = 4;
+const LOCKOUT_STEPS_MS = [30 * 1000, 60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000, 60 * 60 * 1000];
+
+export const PASSCODE_FORMAT_LABELS: Record<PasscodeFormat, string> = {
+  pin4: '4-digit PIN',
+  numeric: '6+ digit PIN',
+  alphanumeric: 'Password',
+};
+
+function bytesToBase64(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function derive(pin: string, salt: BufferSource, iterations: number): Promise<ArrayBuffer> {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  return crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, baseKey, 256);
+}
+
+/**
+ * Compare without stopping at the first difference
+ */
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+export class PinSecurityService {
+  private static instance: PinSecurityService;
+
+  private constructor() {}
+
+  static getInstance(): PinSecurityService {
+    if (!PinSecurityService.instance) {
+      PinSecurityService.instance = new PinSecurityService();
+    }
+    return PinSecurityService.instance;
+  }
+
+  /**
+   * Why a passcode is not acceptable for a format, or null if it is
+   */
+  validate(pin: string, format: PasscodeFormat): string | null {
+    switch (format) {
+      case 'pin4':
+        return /^\d{4}$/.test(pin) ? null : 'PIN must be 4 digits';
+      case 'numeric':
+        return /^\d{6,}$/.test(pin) ? null : 'PIN must be at least 6 digits';
+      case 'alphanumeric':
+        return pin.length >= 6 ? null : 'Password must be at least 6 characters';
+    }
+  }
+
+  async createVerifier(pin: string, format: PasscodeFormat): Promise<PinVerifier> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const hash = await derive(pin, salt, PIN_KDF_ITERATIONS);
+    return { format, salt: bytesToBase64(salt.buffer), iterations: PIN_KDF_ITERATIONS, hash: bytesToBase64(hash) };
+  }
+
+  private async verify(stored: StoredPin | null | undefined, pin: string): Promise<boolean> {
+    if (!stored) return false;
+    if (typeof stored === 'string') return stored === pin;
+    const hash = await derive(pin, base64ToBytes(stored.salt), stored.iterations);
+    return equalBytes(new Uint8Array(hash), base64ToBytes(stored.hash));
+  }
+
+  private async getStored(slot: PinSlot): Promise<StoredPin | null> {
+    return (await indexedDBStorage.getSetting(SLOT_KEYS[slot])) ?? null;
+  }
+
+  async hasPin(slot: PinSlot): Promise<boolean> {
+    return !!(await this.getStored(slot));
+  }
+
+  /**
+   * Format the lock screen should ask for. The decoy PIN always shares the main PIN's format.
+   */
+  async getFormat(): Promise<PasscodeFormat> {
+    const stored = await this.getStored('main');
+    return stored && typeof stored !== 'string' ? stored.format : 'pin4';
+  }
+
+  async setPin(slot: PinSlot, pin: string, format: PasscodeFormat): Promise<void> {
+    await indexedDBStorage.saveSetting(SLOT_KEYS[slot], await this.createVerifier(pin, format));
+    localStorage.removeItem(SLOT_KEYS[slot]);
+  }
+
+  async clearPin(slot: PinSlot): Promise<void> {
+    await indexedDBStorage.saveSetting(SLOT_KEYS[slot], null);
+    localStorage.removeItem(SLOT_KEYS[slot]);
+  }
+
+  /**
+   * Whether a passcode matches the one stored for a slot, e.g. to keep main and decoy different
+   */
+  async matches(slot: PinSlot, pin: string): Promise<boolean> {
+    return this.verify(await this.getStored(slot), pin);
+  }
+
+  /**
+   * Replace PINs stored in plain text by earlier versions with verifiers
+   */
+  private async migrateLegacyPins(): Promise<void> {
+    for (const slot of ['main', 'decoy'] as PinSlot[]) {
+      const stored = await this.getStored(slot);
+      if (typeof stored === 'string') {
+        await this.setPin(slot, stored, 'pin4');
+        console.log(`Replaced stored ${slot} PIN with a verifier`);
+      }
+    }
+  }
+
+  async getLockout(): Promise<LockoutState> {
+    return (await indexedDBStorage.getSetting(ATTEMPTS_KEY)) ?? { failures: 0 };
+  }
+
+  /**
+   * Reset the failed attempt count after a successful unlock
+   */
+  async clearFailures(): Promise<void> {
+    await indexedDBStorage.saveSetting(ATTEMPTS_KEY, null);
+  }
+
+  /**
+   * Failures after which all data is erased, or null when wiping is off
+   */
+  async getWipeThreshold(): Promise<number | null> {
+    return (await indexedDBStorage.getSetting(WIPE_THRESHOLD_KEY)) ?? null;
+  }
+
+  async setWipeThreshold(failures: number | null): Promise<void> {
+    await indexedDBStorage.saveSetting(WIPE_THRESHOLD_KEY, failures);
+  }
+
+  /**
+   * Check a passcode entered on the lock screen, applying throttling and the wipe threshold
+   */
+  async attemptUnlock(pin: string): Promise<UnlockResult> {
+    const lockout = await this.getLockout();
+    if (lockout.lockedUntil && new Date(lockout.lockedUntil).getTime() > Date.now()) {
+      return { outcome: 'throttled', lockout };
+    }
+
+    // Check both slots every time so the response time does not reveal which one matched
+    const [isMain, isDecoy] = await Promise.all([
+      this.verify(await this.getStored('main'), pin),
+      this.verify(await this.getStored('decoy'), pin),
+    ]);
+
+    if (isMain || isDecoy) {
+      await this.clearFailures();
+      await this.migrateLegacyPins();
+      return { outcome: isMain ? 'main' : 'decoy' };
+    }
+
+    const failures = lockout.failures + 1;
+    const wipeThreshold = await this.getWipeThreshold();
+    if (wipeThreshold && failures >= wipeThreshold) {
+      console.warn(`${failures} failed unlock attempts; erasing all data`);
+      await wipeAllData();
+      return { outcome: 'wiped' };
+    }
+
+    const step = failures - FREE_ATTEMPTS - 1;
+    const next: LockoutState = step >= 0
+      ? { failures, lockedUntil: new Date(Date.now() + LOCKOUT_STEPS_MS[Math.min(step, LOCKOUT_STEPS_MS.length - 1)]).toISOString() }
+      : { failures };
+    await indexedDBStorage.saveSetting(ATTEMPTS_KEY, next);
+    return {
+      outcome: 'failed',
+      lockout: next,
+      attemptsBeforeWipe: wipeThreshold ? wipeThreshold - failures : undefined,
+    };
+  }
+}
+
+export const pinSecurity = PinSecurityService.getInstance();
@@ -0,0 +1,107 @@
+/**
+ * Record Integrity
+ * Canonical serialization and SHA-256 content hashing for evidence records.
+ * The hash covers only the evidentiary content of a record, so it can be
+ * recomputed at any time to prove an entry has not been altered.
+ */
+
+import { RecordType, AttachmentType } from '../../App';
+
+export type IntegrityStatus = 'valid' | 'mismatch' | 'missing';
+
+export interface IntegrityResult {
+  recordId: string;
+  status: IntegrityStatus;
+  expectedHash?: string;
+  actualHash: string;
+}
+
+type HashableRecord = Pick<
+  RecordType,
+  'dateTime' | 'description' | 'tags' | 'people' | 'location' | 'severity' | 'files'
+>;
+
+/**
+ * Hex-encoded SHA-256 digest of a string or raw bytes
+ */
+export async function sha256Hex(data: string | ArrayBuffer): Promise<string> {
+  const buffer = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const hashBuffer = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Serialize the evidentiary fields of a record in a fixed order.
+ * Optional fields are normalized to null so that "absent" and "undefined"
+ * hash identically. Attachments contribute only their file hashes.
+ */
+export function canonicalizeRecord(record: HashableRecord): string {
+  return JSON.stringify([
+    ['dateTime', record.dateTime],
+    ['description', record.description],
+    ['tags', record.tags],
+    ['people', record.people ?? null],
+    ['location', record.location ?? null],
+    ['severity', record.severity ?? null],
+    ['fileHashes', (record.files ?? []).map(file => file.fileHash ?? null)],
+  ]);
+}
+
+/**
+ * Compute the SHA-256 content hash for a record
+ */
+export async function computeContentHash(record: HashableRecord): Promise<string> {
+  return sha256Hex(canonicalizeRecord(record));
+}
+
+/**
+ * Re-hash a record and compare it against its stored content hash
+ */
+export async function verifyRecordIntegrity(record: RecordType): Promise<IntegrityResult> {
+  const actualHash = await computeContentHash(record);
+
+  if (!record.contentHash) {
+    return { recordId: record.id, status: 'missing', actualHash };
+  }
+
+  return {
+    recordId: record.id,
+    status: record.contentHash === actualHash ? 'valid' : 'mismatch',
+    expectedHash: record.contentHash,
+    actualHash,
+  };
+}
+
+/**
+ * Verify every record, returning one result per record
+ */
+export async function verifyAllRecords(records: RecordType[]): Promise<IntegrityResult[]> {
+  return Promise.all(records.map(record => verifyRecordIntegrity(record)));
+}
+
+/**
+ * Hash the raw bytes of a file or blob, before any encoding is applied
+ */
+export async function hashFileBytes(file: Blob): Promise<string> {
+  return sha256Hex(await file.arrayBuffer());
+}
+
+/**
+ * Re-read an attachment's stored bytes and compare them against the
+ * fingerprint captured at ingest
+ */
+export async function verifyAttachmentIntegrity(file: AttachmentType): Promise<IntegrityStatus> {
+  if (!file.fileHash) {
+    return 'missing';
+  }
+
+  if (!file.url) {
+    throw new Error(`Attachment content not loaded: ${file.name}`);
+  }
+
+  const response = await fetch(file.url);
+  const actualHash = await hashFileBytes(await response.blob());
+  return actualHash === file.fileHash ? 'valid' : 'mismatch';
+}
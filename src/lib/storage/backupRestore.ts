@@ -0,0 +1,116 @@
+/**
+ * Backup Restore Planning
+ * Works out what restoring a backup would do to the records on this device
+ * before anything is written, so the user can preview it. Three modes:
+ *
+ *   replace      the device ends up with exactly the backup's records
+ *   merge        backup records are added or, where newer, overwrite the
+ *                device's copy; nothing on the device is deleted
+ *   importAsNew  backup records are added as separate new records
+ *
+ * Duplicates are found by record id and, across different ids, by content
+ * hash.
+ */
+
+import { RecordType } from '../../App';
+import { lastChangedAt } from './backupScope';
+
+export type RestoreMode = 'replace' | 'merge' | 'importAsNew';
+
+export type RestoreSkipReason = 'identical' | 'newerOnDevice' | 'duplicateContent';
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  /** Backup records that will be new on this device */
+  added: RecordType[];
+  /** Backup records replacing the device's copy */
+  overwritten: { local: RecordType; restored: RecordType }[];
+  skipped: { record: RecordType; reason: RestoreSkipReason }[];
+  /** Device records the restore deletes (replace mode only) */
+  removed: RecordType[];
+  /** Attachment blobs to duplicate for records imported under new attachment ids */
+  attachmentCopies: { from: string; to: string }[];
+  /** The device's records after the restore, newest first */
+  result: RecordType[];
+}
+
+export const SKIP_REASON_LABELS: Record<RestoreSkipReason, string> = {
+  identical: 'Already on this device',
+  newerOnDevice: 'Newer version on this device',
+  duplicateContent: 'Same content as an existing record',
+};
+
+function sameVersion(a: RecordType, b: RecordType): boolean {
+  return lastChangedAt(a) === lastChangedAt(b) && a.contentHash === b.contentHash;
+}
+
+/**
+ * Give a record a fresh id, and fresh attachment ids wherever they collide
+ * with attachments already on the device, since deleting a record deletes
+ * its attachment blobs
+ */
+function asNewRecord(
+  record: RecordType,
+  usedAttachmentIds: Set<string>,
+  copies: { from: string; to: string }[]
+): RecordType {
+  const files = record.files?.map(file => {
+    if (!usedAttachmentIds.has(file.id)) {
+      usedAttachmentIds.add(file.id);
+      return file;
+    }
+    const id = crypto.randomUUID();
+    copies.push({ from: file.id, to: id });
+    return { ...file, id };
+  });
+  return { ...record, id: crypto.randomUUID(), ...(files ? { files } : {}) };
+}
+
+export function planRestore(backupRecords: RecordType[], localRecords: RecordType[], mode: RestoreMode): RestorePlan {
+  const plan: RestorePlan = { mode, added: [], overwritten: [], skipped: [], removed: [], attachmentCopies: [], result: [] };
+  const localById = new Map(localRecords.map(record => [record.id, record]));
+  const localHashes = new Set(localRecords.flatMap(record => record.contentHash ? [record.contentHash] : []));
+
+  if (mode === 'replace') {
+    const backupIds = new Set(backupRecords.map(record => record.id));
+    for (const record of backupRecords) {
+      const local = localById.get(record.id);
+      if (!local) plan.added.push(record);
+      else if (sameVersion(local, record)) plan.skipped.push({ record, reason: 'identical' });
+      else plan.overwritten.push({ local, restored: record });
+    }
+    plan.removed = localRecords.filter(record => !backupIds.has(record.id));
+    plan.result = [...backupRecords];
+  } else if (mode === 'merge') {
+    const replaced = new Map<string, RecordType>();
+    for (const record of backupRecords) {
+      const local = localById.get(record.id);
+      if (local) {
+        if (lastChangedAt(record) > lastChangedAt(local)) {
+          plan.overwritten.push({ local, restored: record });
+          replaced.set(record.id, record);
+        } else {
+          plan.skipped.push({ record, reason: sameVersion(local, record) ? 'identical' : 'newerOnDevice' });
+        }
+      } else if (record.contentHash && localHashes.has(record.contentHash)) {
+        plan.skipped.push({ record, reason: 'duplicateContent' });
+      } else {
+        plan.added.push(record);
+      }
+    }
+    plan.result = [...plan.added, ...localRecords.map(record => replaced.get(record.id) ?? record)];
+  } else {
+    const usedAttachmentIds = new Set(localRecords.flatMap(record => (record.files ?? []).map(file => file.id)));
+    for (const record of backupRecords) {
+      if (record.contentHash && localHashes.has(record.contentHash)) {
+        plan.skipped.push({ record, reason: 'duplicateContent' });
+      } else {
+        plan.added.push(asNewRecord(record, usedAttachmentIds, plan.attachmentCopies));
+      }
+    }
+    plan.result = [...plan.added, ...localRecords];
+  }
+
+  plan.result.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return plan;
+}
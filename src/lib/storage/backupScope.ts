@@ -0,0 +1,104 @@
+/**
+ * Backup Scope
+ * Which records a backup covers: a date range, a set of tags, a single
+ * case, or any combination. An empty scope covers every record.
+ * Incremental backups further narrow this to records changed since an
+ * earlier backup.
+ */
+
+import { RecordType } from '../../App';
+
+export interface BackupScope {
+  /** First day included, YYYY-MM-DD */
+  from?: string;
+  /** Last day included, YYYY-MM-DD */
+  to?: string;
+  /** Records carrying any of these tags */
+  tags?: string[];
+  caseLabel?: string;
+}
+
+/**
+ * Drop empty criteria so an unrestricted scope is always {}
+ */
+export function normalizeScope(scope: BackupScope = {}): BackupScope {
+  const normalized: BackupScope = {};
+  if (scope.from) normalized.from = scope.from;
+  if (scope.to) normalized.to = scope.to;
+  if (scope.tags && scope.tags.length > 0) normalized.tags = [...scope.tags].sort();
+  if (scope.caseLabel?.trim()) normalized.caseLabel = scope.caseLabel.trim();
+  return normalized;
+}
+
+export function isFullScope(scope: BackupScope = {}): boolean {
+  return Object.keys(normalizeScope(scope)).length === 0;
+}
+
+export function recordInScope(record: RecordType, scope: BackupScope = {}): boolean {
+  const day = record.dateTime.slice(0, 10);
+  if (scope.from && day < scope.from) return false;
+  if (scope.to && day > scope.to) return false;
+  if (scope.tags && scope.tags.length > 0 && !record.tags.some(tag => scope.tags!.includes(tag))) return false;
+  if (scope.caseLabel && record.caseLabel !== scope.caseLabel) return false;
+  return true;
+}
+
+export function filterRecordsByScope(records: RecordType[], scope: BackupScope = {}): RecordType[] {
+  return records.filter(record => recordInScope(record, scope));
+}
+
+/**
+ * Short description for backup lists, e.g. "Case: Smith · #Threats · from 2024-01-01"
+ */
+export function describeScope(scope: BackupScope = {}): string {
+  const parts: string[] = [];
+  if (scope.caseLabel) parts.push(`Case: ${scope.caseLabel}`);
+  if (scope.tags && scope.tags.length > 0) parts.push(scope.tags.map(tag => `#${tag}`).join(' '));
+  if (scope.from && scope.to) parts.push(`${scope.from} to ${scope.to}`);
+  else if (scope.from) parts.push(`from ${scope.from}`);
+  else if (scope.to) parts.push(`until ${scope.to}`);
+  return parts.length > 0 ? parts.join(' · ') : 'All records';
+}
+
+/**
+ * When a record last changed, counting log-only events such as exports
+ */
+export function lastChangedAt(record: RecordType): string {
+  const lastEvent = record.eventLog?.[record.eventLog.length - 1]?.timestamp ?? '';
+  const edited = record.editedAt ?? record.createdAt;
+  return lastEvent > edited ? lastEvent : edited;
+}
+
+export interface BackupSelection {
+  /** Records to write into the backup */
+  records: RecordType[];
+  /** Every record in scope, whether written or not */
+  scopedIds: string[];
+  /** Records in the base backup that are gone or out of scope now */
+  deletedRecordIds: string[];
+}
+
+/**
+ * Pick the records for a backup. With a base backup only records changed
+ * since it (or missing from it, such as records synced in from another
+ * device) are included.
+ */
+export function selectBackupRecords(
+  records: RecordType[],
+  scope: BackupScope,
+  base?: { createdAt: string; recordIds: string[] }
+): BackupSelection {
+  const scoped = filterRecordsByScope(records, scope);
+  const scopedIds = scoped.map(r => r.id);
+  if (!base) {
+    return { records: scoped, scopedIds, deletedRecordIds: [] };
+  }
+
+  const baseIds = new Set(base.recordIds);
+  const current = new Set(scopedIds);
+  return {
+    records: scoped.filter(r => !baseIds.has(r.id) || lastChangedAt(r) > base.createdAt),
+    scopedIds,
+    deletedRecordIds: base.recordIds.filter(id => !current.has(id)),
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Decoy Store
+ * The journal shown after unlocking with the decoy PIN. It is kept apart
+ * from the real records and never touches the record store, the vault or
+ * sync, so it can be read and written without unlocking anything. The
+ * first decoy unlock fills it with everyday entries generated from
+ * templates, so the app never looks suspiciously empty; entries added or
+ * deleted in decoy mode persist like real ones.
+ *
+ * Entries are stored unencrypted, as their content is meant to be harmless.
+ * Attachments added in decoy mode are kept inline in their entry as data
+ * URLs, so the real attachment store is never touched.
+ */
+
+import { RecordType, AttachmentType } from '../../App';
+import { computeContentHash } from '../security/recordIntegrity';
+import { appendEvent } from '../security/eventLog';
+import { indexedDBStorage } from './indexedDBStorage';
+
+type DecoyTemplate = Pick<RecordType, 'description' | 'tags' | 'location' | 'people'>;
+
+const DECOY_TEMPLATES: DecoyTemplate[] = [
+  { description: 'Big grocery run. Remember to try the new bakery next to the pharmacy, the bread samples were great.', tags: ['Errands'] },
+  { description: 'Made lentil soup for the week. Needed more lemon and a little less cumin than the recipe said.', tags: ['Cooking', 'Home'] },
+  { description: 'Walked the long loop around the park before work. Legs tired but felt good all morning.', tags: ['Exercise', 'Mood'], location: 'Riverside park' },
+  { description: 'Slept badly, too much coffee after 3pm again. Switching to decaf in the afternoon.', tags: ['Sleep'] },
+  { description: 'Long call with Mom. She wants to plan a weekend visit next month.', tags: ['Family'] },
+  { description: 'Three things I am grateful for: sunny lunch break, a kind note from a coworker, finishing the laundry.', tags: ['Gratitude'] },
+  { description: 'Team meeting ran long. Need to send the updated schedule to everyone by Thursday.', tags: ['Work'] },
+  { description: 'Went through the budget. Cancelled one streaming service, moving that money to the holiday fund.', tags: ['Budget'] },
+  { description: 'Coffee with Sam. Talked about her new job and maybe signing up for a pottery class together.', tags: ['Friends'], people: ['Sam'] },
+  { description: 'Started a new book from the library. Slow first chapter but the characters are interesting.', tags: ['Reading'] },
+  { description: 'Kids had a school project on volcanoes. Baking soda everywhere, but they loved it.', tags: ['Kids', 'Home'] },
+  { description: 'Idea: label the pantry shelves and keep a running shopping list on the fridge.', tags: ['Ideas', 'Home'] },
+  { description: 'Yoga video before bed, 20 minutes. Fell asleep much faster than usual.', tags: ['Exercise', 'Sleep'] },
+  { description: 'Looked up train tickets for the coast in the spring. Cheaper if booked six weeks ahead.', tags: ['Travel', 'Budget'] },
+  { description: 'Tired and a bit low today. A short walk and an early night should help.', tags: ['Mood'] },
+  { description: 'Dentist appointment moved to next Tuesday at 10. Need to ask about the night guard.', tags: ['Errands'] },
+  { description: 'Tried a new pasta recipe with roasted peppers. Definitely making it again.', tags: ['Cooking'] },
+  { description: 'Cleared out the hall closet and donated two bags of clothes.', tags: ['Home'] },
+];
+
+const DECOY_RECORDS_KEY = 'recordKeeper_decoyRecords';
+const DEFAULT_ENTRY_COUNT = 12;
+/** Generated entries are spread over this many past days */
+const SPREAD_DAYS = 45;
+
+/**
+ * Local "YYYY-MM-DDTHH:mm", the format AddRecord stores
+ */
+function toLocalDateTime(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+async function blobToDataUrl(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+}
+
+export class DecoyStoreService {
+  private static instance: DecoyStoreService;
+
+  private constructor() {}
+
+  static getInstance(): DecoyStoreService {
+    if (!DecoyStoreService.instance) {
+      DecoyStoreService.instance = new DecoyStoreService();
+    }
+    return DecoyStoreService.instance;
+  }
+
+  /**
+   * Load the decoy journal, generating it on first use
+   */
+  async getRecords(): Promise<RecordType[]> {
+    const stored: RecordType[] | undefined = await indexedDBStorage.getSetting(DECOY_RECORDS_KEY);
+    if (stored) return stored;
+
+    const generated = await this.generate();
+    await this.saveRecords(generated);
+    return generated;
+  }
+
+  async saveRecords(records: RecordType[]): Promise<void> {
+    await indexedDBStorage.saveSetting(DECOY_RECORDS_KEY, records);
+  }
+
+  /**
+   * Embed each attachment's content in the attachment itself, for an entry
+   * about to be added. Attachments without content are left out.
+   */
+  async inlineAttachments(files: AttachmentType[], blobs: Record<string, Blob>): Promise<AttachmentType[]> {
+    const inlined: AttachmentType[] = [];
+    for (const file of files) {
+      if (file.url) {
+        inlined.push(file);
+      } else if (blobs[file.id]) {
+        inlined.push({ ...file, url: await blobToDataUrl(blobs[file.id]) });
+      }
+    }
+    return inlined;
+  }
+
+  /**
+   * Number of entries without generating any, for Settings in the real app
+   */
+  async count(): Promise<number> {
+    const stored: RecordType[] | undefined = await indexedDBStorage.getSetting(DECOY_RECORDS_KEY);
+    return stored?.length ?? 0;
+  }
+
+  /**
+   * Replace the decoy journal with freshly generated entries
+   */
+  async reset(count: number = DEFAULT_ENTRY_COUNT): Promise<void> {
+    await this.saveRecords(await this.generate(count));
+  }
+
+  /**
+   * Build entries from random templates at plausible times over the past weeks, newest first
+   */
+  async generate(count: number = DEFAULT_ENTRY_COUNT): Promise<RecordType[]> {
+    const templates = [...DECOY_TEMPLATES]
+      .sort(() => Math.random() - 0.5)
+      .slice(0, Math.min(count, DECOY_TEMPLATES.length));
+
+    const dates = templates
+      .map(() => {
+        const date = new Date();
+        date.setDate(date.getDate() - Math.floor(Math.random() * SPREAD_DAYS));
+        date.setHours(7 + Math.floor(Math.random() * 15), Math.floor(Math.random() * 60), 0, 0);
+        return date.getTime() > Date.now() ? new Date(Date.now() - 60 * 60 * 1000) : date;
+      })
+      .sort((a, b) => b.getTime() - a.getTime());
+
+    return Promise.all(templates.map(async (template, i) => {
+      const content = { ...template, dateTime: toLocalDateTime(dates[i]) };
+      // Written down a few minutes after the fact, like a real entry
+      const createdAt = new Date(dates[i].getTime() + Math.floor(Math.random() * 20) * 60 * 1000).toISOString();
+      return {
+        ...content,
+        id: crypto.randomUUID(),
+        createdAt,
+        contentHash: await computeContentHash(content),
+        eventLog: await appendEvent([], 'created', undefined, createdAt),
+      };
+    }));
+  }
+
+  async clear(): Promise<void> {
+    await indexedDBStorage.saveSetting(DECOY_RECORDS_KEY, null);
+  }
+}
+
+export const decoyStore = DecoyStoreService.getInstance();
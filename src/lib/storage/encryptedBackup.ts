@@ -2,39 +2,163 @@
  * Encrypted Backup Service
  * Creates password-protected encrypted backups of all user data
  * Uses Web Crypto API with AES-GCM encryption
+ *
+ * A backup is either full or incremental. A full backup holds every record
+ * in its scope; an incremental holds only what changed since an earlier
+ * backup made on this device, and restores on top of its chain.
  */
 
 import { RecordType } from '../../App';
+import type { StoredPin } from '../security/pinSecurity';
 import { indexedDBStorage } from './indexedDBStorage';
+import { recordStorage } from './recordStorage';
+import { BackupScope, normalizeScope, selectBackupRecords } from './backupScope';
+import { RestorePlan, planRestore } from './backupRestore';
+
+export type BackupKind = 'full' | 'incremental';
+
+/**
+ * Layout of the decrypted payload. Backups without a schemaVersion are 1.
+ *   1  records and security settings
+ *   2  adds the tag taxonomy and attachment content
+ */
+export const BACKUP_SCHEMA_VERSION = 2;
+
+/** Attachment content, which lives outside the records since attachments moved to their own store */
+export interface BackupAttachment {
+  id: string;
+  mimeType: string;
+  /** Base64 */
+  data: string;
+}
 
 export interface BackupData {
+  /** Payload format of the 1.x app; kept for older readers */
   version: string;
+  schemaVersion?: number;
   exportDate: string;
   records: RecordType[];
   settings: {
-    pin?: string;
-    decoyPin?: string;
+    pin?: StoredPin;
+    decoyPin?: StoredPin;
     lockEnabled?: string;
     userName?: string;
     welcomeCompleted?: string;
+    /** Custom tag taxonomy, as stored */
+    taxonomy?: string;
   };
+  /** Content of every attachment the records reference */
+  attachments?: BackupAttachment[];
+  /** Lets later incrementals name this backup as their base. Missing in older backups. */
+  backupId?: string;
+  /** Older backups have no kind and are full */
+  kind?: BackupKind;
+  /** Records the backup covers; absent or empty means all */
+  scope?: BackupScope;
+  /** For incrementals, the backup this one builds on */
+  baseBackupId?: string;
+  /** For incrementals, records deleted or moved out of scope since the base */
+  deletedRecordIds?: string[];
 }
 
-export interface EncryptedBackup {
-  version: string;
+/**
+ * What this device remembers about a backup it made, so incrementals can
+ * be created against it without reading the file back
+ */
+export interface BackupHistoryEntry {
+  id: string;
+  createdAt: string;
+  kind: BackupKind;
+  scope: BackupScope;
+  baseBackupId?: string;
+  filename: string;
+  recordCount: number;
+  /** Every record in scope at the time, to detect later deletions */
+  recordIds: string[];
+}
+
+/**
+ * A password-derived wrapping key with the parameters it was derived with.
+ * The key is non-extractable, so it can be kept on the device to write
+ * scheduled backups without storing the password.
+ */
+export interface BackupKey {
+  key: CryptoKey;
+  kdf: BackupKdfParams;
+}
+
+export interface BackupOptions extends BackupKdfOptions {
+  scope?: BackupScope;
+  /** Make an incremental backup of changes since this earlier backup */
+  baseBackupId?: string;
+}
+
+export interface BackupKdfParams {
+  algorithm: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  salt: string;
+}
+
+export interface BackupKdfOptions {
+  /** PBKDF2 iterations; defaults to DEFAULT_BACKUP_KDF_ITERATIONS */
+  iterations?: number;
+}
+
+/**
+ * Format 1.0: a key derived from the password (PBKDF2, 100,000 iterations)
+ * encrypts the data directly. Still restorable, no longer written.
+ */
+export interface EncryptedBackupV1 {
+  version: '1.0';
   salt: string;
   iv: string;
   data: string;
 }
 
+/**
+ * Format 2.0: a random data key encrypts the data and is stored wrapped
+ * under a key derived from the password. The header records the KDF
+ * parameters, so they can be raised without breaking older files, and
+ * changing the password only re-wraps the data key.
+ */
+export interface EncryptedBackupV2 {
+  version: '2.0';
+  kdf: BackupKdfParams;
+  cipher: 'AES-GCM-256';
+  wrappedKey: {
+    iv: string;
+    data: string;
+  };
+  iv: string;
+  data: string;
+}
+
+export type EncryptedBackup = EncryptedBackupV1 | EncryptedBackupV2;
+
+/** PBKDF2 iterations for new backups and re-keyed ones. Raise over time. */
+export const DEFAULT_BACKUP_KDF_ITERATIONS = 600000;
+const LEGACY_KDF_ITERATIONS = 100000;
+/** Headers asking for more work than this are rejected, so a crafted file cannot hang the app */
+const MAX_KDF_ITERATIONS = 10000000;
+const BACKUP_HISTORY_KEY = 'recordKeeper_backupHistory';
+const BACKUP_HISTORY_LIMIT = 30;
+const TAXONOMY_KEY = 'recordKeeper_taxonomy';
+
 class EncryptedBackupService {
-  private readonly BACKUP_VERSION = '1.0';
-  private readonly ITERATIONS = 100000; // PBKDF2 iterations
+  private readonly BACKUP_VERSION = '2.0';
+  /** Legacy payload version, still written for older readers; schemaVersion is what restores check */
+  private readonly DATA_VERSION = '1.0';
 
   /**
-   * Derive encryption key from password using PBKDF2
+   * Derive a key from the password using PBKDF2
    */
-  private async deriveKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+  private async deriveKey(
+    password: string,
+    salt: BufferSource,
+    iterations: number,
+    usages: KeyUsage[]
+  ): Promise<CryptoKey> {
     const encoder = new TextEncoder();
     const passwordBuffer = encoder.encode(password);
 
@@ -52,16 +176,127 @@ class EncryptedBackupService {
       {
         name: 'PBKDF2',
         salt,
-        iterations: this.ITERATIONS,
+        iterations,
         hash: 'SHA-256',
       },
       keyMaterial,
       { name: 'AES-GCM', length: 256 },
       false,
+      usages
+    );
+  }
+
+  /**
+   * Derive a wrapping key from a password with fresh KDF parameters
+   */
+  async createBackupKey(password: string, options: BackupKdfOptions = {}): Promise<BackupKey> {
+    if (!password || password.length < 6) {
+      throw new Error('Password must be at least 6 characters');
+    }
+    const iterations = options.iterations ?? DEFAULT_BACKUP_KDF_ITERATIONS;
+    if (iterations < LEGACY_KDF_ITERATIONS || iterations > MAX_KDF_ITERATIONS) {
+      throw new Error(`Iterations must be between ${LEGACY_KDF_ITERATIONS} and ${MAX_KDF_ITERATIONS}`);
+    }
+
+    const salt = window.crypto.getRandomValues(new Uint8Array(16));
+    return {
+      key: await this.deriveKey(password, salt, iterations, ['wrapKey']),
+      kdf: { algorithm: 'PBKDF2', hash: 'SHA-256', iterations, salt: this.arrayBufferToBase64(salt.buffer) },
+    };
+  }
+
+  /**
+   * Wrap a data key under a backup key
+   */
+  private async wrapDataKey(dataKey: CryptoKey, backupKey: BackupKey): Promise<Pick<EncryptedBackupV2, 'kdf' | 'wrappedKey'>> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = await window.crypto.subtle.wrapKey('raw', dataKey, backupKey.key, { name: 'AES-GCM', iv });
+
+    return {
+      kdf: backupKey.kdf,
+      wrappedKey: { iv: this.arrayBufferToBase64(iv.buffer), data: this.arrayBufferToBase64(wrapped) },
+    };
+  }
+
+  /**
+   * Unwrap a 2.0 backup's data key with its password
+   */
+  private async unwrapDataKey(password: string, backup: EncryptedBackupV2, extractable: boolean): Promise<CryptoKey> {
+    const { kdf } = backup;
+    if (kdf?.algorithm !== 'PBKDF2' || kdf.hash !== 'SHA-256') {
+      throw new Error('Unsupported backup encryption');
+    }
+    if (!Number.isInteger(kdf.iterations) || kdf.iterations < 1 || kdf.iterations > MAX_KDF_ITERATIONS) {
+      throw new Error('Backup file has invalid encryption settings');
+    }
+
+    const wrappingKey = await this.deriveKey(
+      password,
+      this.base64ToArrayBuffer(kdf.salt),
+      kdf.iterations,
+      ['unwrapKey']
+    );
+    return window.crypto.subtle.unwrapKey(
+      'raw',
+      this.base64ToArrayBuffer(backup.wrappedKey.data),
+      wrappingKey,
+      { name: 'AES-GCM', iv: this.base64ToArrayBuffer(backup.wrappedKey.iv) },
+      { name: 'AES-GCM', length: 256 },
+      extractable,
       ['encrypt', 'decrypt']
     );
   }
 
+  /**
+   * Encrypt a payload under a new random data key, wrapped with the password
+   */
+  private async encryptPayload(payload: BufferSource, backupKey: BackupKey): Promise<EncryptedBackupV2> {
+    const dataKey = await window.crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const encryptedBuffer = await window.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, payload);
+
+    return {
+      version: '2.0',
+      ...(await this.wrapDataKey(dataKey, backupKey)),
+      cipher: 'AES-GCM-256',
+      iv: this.arrayBufferToBase64(iv.buffer),
+      data: this.arrayBufferToBase64(encryptedBuffer),
+    };
+  }
+
+  /**
+   * Decrypt a backup file's payload, whatever its format
+   */
+  private async decryptPayload(password: string, backup: EncryptedBackup): Promise<ArrayBuffer> {
+    let key: CryptoKey;
+    if (backup.version === '2.0') {
+      key = await this.unwrapDataKey(password, backup, false);
+    } else if (backup.version === '1.0') {
+      key = await this.deriveKey(password, this.base64ToArrayBuffer(backup.salt), LEGACY_KDF_ITERATIONS, ['decrypt']);
+    } else {
+      throw new Error('Unsupported backup format. Update the app to restore this backup.');
+    }
+
+    return window.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.base64ToArrayBuffer(backup.iv) },
+      key,
+      this.base64ToArrayBuffer(backup.data)
+    );
+  }
+
+  /**
+   * Turn Web Crypto's failure on a wrong key into a message the user can act on
+   */
+  private describeError(error: unknown, fallback: string): Error {
+    if (error instanceof DOMException && error.name === 'OperationError') {
+      return new Error('Incorrect password or corrupted backup file');
+    }
+    if (error instanceof Error && /Unsupported|invalid encryption|Iterations must/.test(error.message)) {
+      return error;
+    }
+    return new Error(fallback);
+  }
+
   /**
    * Convert array buffer to base64 string
    */
@@ -87,62 +322,116 @@ class EncryptedBackupService {
   }
 
   /**
-   * Create encrypted backup of all data
+   * Backups made on this device, newest first
    */
-  async createBackup(password: string, records: RecordType[]): Promise<EncryptedBackup> {
-    if (!password || password.length < 6) {
-      throw new Error('Password must be at least 6 characters');
+  async getBackupHistory(): Promise<BackupHistoryEntry[]> {
+    return (await indexedDBStorage.getSetting(BACKUP_HISTORY_KEY)) ?? [];
+  }
+
+  private async addToHistory(entry: BackupHistoryEntry): Promise<void> {
+    const history = await this.getBackupHistory();
+    await indexedDBStorage.saveSetting(BACKUP_HISTORY_KEY, [entry, ...history].slice(0, BACKUP_HISTORY_LIMIT));
+  }
+
+  /**
+   * Gather the payload for a backup. Incrementals inherit their base's scope.
+   */
+  private async buildBackup(
+    records: RecordType[],
+    options: BackupOptions,
+    base?: BackupHistoryEntry
+  ): Promise<{ data: BackupData; entry: Omit<BackupHistoryEntry, 'filename'> }> {
+    const scope = base ? base.scope : normalizeScope(options.scope);
+    const selection = selectBackupRecords(records, scope, base);
+    const kind: BackupKind = base ? 'incremental' : 'full';
+
+    const settings = {
+      pin: await indexedDBStorage.getSetting('recordKeeper_pin'),
+      decoyPin: await indexedDBStorage.getSetting('recordKeeper_decoyPin'),
+      lockEnabled: await indexedDBStorage.getSetting('recordKeeper_lockEnabled'),
+      userName: await indexedDBStorage.getSetting('recordKeeper_userName'),
+      welcomeCompleted: await indexedDBStorage.getSetting('recordKeeper_welcomeCompleted'),
+      taxonomy: localStorage.getItem(TAXONOMY_KEY) ?? undefined,
+    };
+
+    const attachments: BackupAttachment[] = [];
+    for (const file of selection.records.flatMap(record => record.files ?? [])) {
+      const blob = await recordStorage.getAttachment(file.id);
+      if (!blob) {
+        console.warn('Attachment missing from storage, not backed up:', file.id);
+        continue;
+      }
+      attachments.push({
+        id: file.id,
+        mimeType: blob.type || file.mimeType || 'application/octet-stream',
+        data: this.arrayBufferToBase64(await blob.arrayBuffer()),
+      });
     }
 
-    try {
-      // Gather all data
-      const settings = {
-        pin: await indexedDBStorage.getSetting('recordKeeper_pin'),
-        decoyPin: await indexedDBStorage.getSetting('recordKeeper_decoyPin'),
-        lockEnabled: await indexedDBStorage.getSetting('recordKeeper_lockEnabled'),
-        userName: await indexedDBStorage.getSetting('recordKeeper_userName'),
-        welcomeCompleted: await indexedDBStorage.getSetting('recordKeeper_welcomeCompleted'),
-      };
+    const data: BackupData = {
+      version: this.DATA_VERSION,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      exportDate: new Date().toISOString(),
+      records: selection.records,
+      settings,
+      attachments,
+      backupId: crypto.randomUUID(),
+      kind,
+      scope,
+      ...(base ? { baseBackupId: base.id, deletedRecordIds: selection.deletedRecordIds } : {}),
+    };
+
+    return {
+      data,
+      entry: {
+        id: data.backupId!,
+        createdAt: data.exportDate,
+        kind,
+        scope,
+        baseBackupId: base?.id,
+        recordCount: selection.records.length,
+        recordIds: selection.scopedIds,
+      },
+    };
+  }
 
-      const backupData: BackupData = {
-        version: this.BACKUP_VERSION,
-        exportDate: new Date().toISOString(),
-        records,
-        settings,
-      };
+  /**
+   * Create encrypted backup of all data, or of the records selected by the options
+   */
+  async createBackup(password: string, records: RecordType[], options: BackupOptions = {}): Promise<EncryptedBackupV2> {
+    return (await this.createBackupWithEntry(password, records, options)).backup;
+  }
 
-      // Convert to JSON
-      const jsonData = JSON.stringify(backupData);
-      const encoder = new TextEncoder();
-      const dataBuffer = encoder.encode(jsonData);
-
-      // Generate random salt and IV
-      const salt = window.crypto.getRandomValues(new Uint8Array(16));
-      const iv = window.crypto.getRandomValues(new Uint8Array(12));
-
-      // Derive key from password
-      const key = await this.deriveKey(password, salt);
-
-      // Encrypt data
-      const encryptedBuffer = await window.crypto.subtle.encrypt(
-        {
-          name: 'AES-GCM',
-          iv,
-        },
-        key,
-        dataBuffer
-      );
+  /**
+   * Create a full backup of all records under a kept backup key. These are
+   * not added to the backup history, since they can be rotated away.
+   */
+  async createBackupWithKey(backupKey: BackupKey, records: RecordType[]): Promise<EncryptedBackupV2> {
+    return (await this.createBackupWithEntry(backupKey, records, {})).backup;
+  }
 
-      // Create encrypted backup object
-      return {
-        version: this.BACKUP_VERSION,
-        salt: this.arrayBufferToBase64(salt),
-        iv: this.arrayBufferToBase64(iv),
-        data: this.arrayBufferToBase64(encryptedBuffer),
-      };
+  private async createBackupWithEntry(
+    password: string | BackupKey,
+    records: RecordType[],
+    options: BackupOptions
+  ): Promise<{ backup: EncryptedBackupV2; entry: Omit<BackupHistoryEntry, 'filename'> }> {
+    const backupKey = typeof password === 'string' ? await this.createBackupKey(password, options) : password;
+
+    let base: BackupHistoryEntry | undefined;
+    if (options.baseBackupId) {
+      base = (await this.getBackupHistory()).find(entry => entry.id === options.baseBackupId);
+      if (!base) {
+        throw new Error('The earlier backup was not made on this device, so an incremental backup cannot be based on it');
+      }
+    }
+
+    try {
+      const { data, entry } = await this.buildBackup(records, options, base);
+      const backup = await this.encryptPayload(new TextEncoder().encode(JSON.stringify(data)), backupKey);
+      return { backup, entry };
     } catch (error) {
       console.error('Backup creation failed:', error);
-      throw new Error('Failed to create encrypted backup');
+      throw this.describeError(error, 'Failed to create encrypted backup');
     }
   }
 
@@ -154,61 +443,74 @@ class EncryptedBackupService {
       throw new Error('Password is required');
     }
 
+    let backupData: BackupData;
     try {
-      // Convert base64 strings back to array buffers
-      const salt = new Uint8Array(this.base64ToArrayBuffer(encryptedBackup.salt));
-      const iv = new Uint8Array(this.base64ToArrayBuffer(encryptedBackup.iv));
-      const encryptedData = this.base64ToArrayBuffer(encryptedBackup.data);
-
-      // Derive key from password
-      const key = await this.deriveKey(password, salt);
-
-      // Decrypt data
-      const decryptedBuffer = await window.crypto.subtle.decrypt(
-        {
-          name: 'AES-GCM',
-          iv,
-        },
-        key,
-        encryptedData
-      );
+      const decryptedBuffer = await this.decryptPayload(password, encryptedBackup);
 
       // Convert back to JSON
       const decoder = new TextDecoder();
       const jsonData = decoder.decode(decryptedBuffer);
-      const backupData: BackupData = JSON.parse(jsonData);
+      backupData = JSON.parse(jsonData);
+    } catch (error) {
+      console.error('Backup restoration failed:', error);
+      throw this.describeError(error, 'Failed to restore backup');
+    }
+
+    // Validate schema version
+    const schemaVersion = backupData.schemaVersion ?? 1;
+    if (schemaVersion > BACKUP_SCHEMA_VERSION) {
+      throw new Error('This backup was made by a newer version of the app. Update the app to restore it.');
+    }
+    if (!Number.isInteger(schemaVersion) || schemaVersion < 1
+      || !Array.isArray(backupData.records) || typeof backupData.settings !== 'object' || backupData.settings === null
+      || (backupData.attachments !== undefined && !Array.isArray(backupData.attachments))) {
+      throw new Error('Backup file is damaged');
+    }
+
+    return backupData;
+  }
+
+  /**
+   * Re-encrypt a backup under a new password. For 2.0 backups only the data
+   * key is re-wrapped and the encrypted records are copied unchanged; older
+   * backups are decrypted in memory and re-encrypted as 2.0. Either way the
+   * records are never written out unencrypted.
+   */
+  async changeBackupPassword(
+    encryptedBackup: EncryptedBackup,
+    currentPassword: string,
+    newPassword: string,
+    options?: BackupKdfOptions
+  ): Promise<EncryptedBackupV2> {
+    if (!newPassword || newPassword.length < 6) {
+      throw new Error('Password must be at least 6 characters');
+    }
 
-      // Validate backup version
-      if (backupData.version !== this.BACKUP_VERSION) {
-        console.warn('Backup version mismatch:', backupData.version, 'vs', this.BACKUP_VERSION);
+    try {
+      if (encryptedBackup.version === '2.0') {
+        const dataKey = await this.unwrapDataKey(currentPassword, encryptedBackup, true);
+        return { ...encryptedBackup, ...(await this.wrapDataKey(dataKey, await this.createBackupKey(newPassword, options))) };
       }
 
-      return backupData;
+      const payload = await this.decryptPayload(currentPassword, encryptedBackup);
+      return await this.encryptPayload(payload, await this.createBackupKey(newPassword, options));
     } catch (error) {
-      console.error('Backup restoration failed:', error);
-      if (error instanceof Error && error.message.includes('OperationError')) {
-        throw new Error('Incorrect password or corrupted backup file');
-      }
-      throw new Error('Failed to restore backup');
+      console.error('Backup re-key failed:', error);
+      throw this.describeError(error, 'Failed to change backup password');
     }
   }
 
   /**
-   * Download encrypted backup as file
+   * Save an encrypted backup as a file download
    */
-  async downloadBackup(password: string, records: RecordType[], filename?: string): Promise<void> {
-    const encryptedBackup = await this.createBackup(password, records);
-    const jsonString = JSON.stringify(encryptedBackup, null, 2);
+  saveBackupFile(backup: EncryptedBackup, filename: string): void {
+    const jsonString = JSON.stringify(backup, null, 2);
     const blob = new Blob([jsonString], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
 
     const a = document.createElement('a');
     a.href = url;
-
-    // Generate filename with date
-    const today = new Date();
-    const dateStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
-    a.download = filename || `herlaw-backup-${dateStr}.encrypted`;
+    a.download = filename;
 
     document.body.appendChild(a);
     a.click();
@@ -217,20 +519,36 @@ class EncryptedBackupService {
   }
 
   /**
-   * Restore from uploaded backup file
+   * Download encrypted backup as file
    */
-  async restoreFromFile(password: string, file: File): Promise<BackupData> {
+  async downloadBackup(password: string, records: RecordType[], options: BackupOptions & { filename?: string } = {}): Promise<BackupHistoryEntry> {
+    const { backup, entry } = await this.createBackupWithEntry(password, records, options);
+
+    // Generate filename with date
+    const today = new Date();
+    const dateStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+    const suffix = entry.kind === 'incremental' ? '-incremental' : '';
+    const filename = options.filename || `herlaw-backup-${dateStr}${suffix}.encrypted`;
+    this.saveBackupFile(backup, filename);
+
+    const saved = { ...entry, filename };
+    await this.addToHistory(saved);
+    return saved;
+  }
+
+  /**
+   * Read an encrypted backup file without decrypting it
+   */
+  async readBackupFile(file: File): Promise<EncryptedBackup> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
 
-      reader.onload = async (e) => {
+      reader.onload = (e) => {
         try {
           const content = e.target?.result as string;
-          const encryptedBackup: EncryptedBackup = JSON.parse(content);
-          const backupData = await this.restoreBackup(password, encryptedBackup);
-          resolve(backupData);
+          resolve(JSON.parse(content));
         } catch (error) {
-          reject(error);
+          reject(new Error('This is not a backup file'));
         }
       };
 
@@ -243,31 +561,131 @@ class EncryptedBackupService {
   }
 
   /**
-   * Apply restored backup data to storage
+   * Restore from uploaded backup file
    */
-  async applyBackup(backupData: BackupData): Promise<void> {
-    try {
-      // Restore records
-      await indexedDBStorage.saveRecords(backupData.records);
+  async restoreFromFile(password: string, file: File): Promise<BackupData> {
+    const encryptedBackup = await this.readBackupFile(file);
+    return this.restoreBackup(password, encryptedBackup);
+  }
 
-      // Restore settings
-      if (backupData.settings.pin) {
-        await indexedDBStorage.saveSetting('recordKeeper_pin', backupData.settings.pin);
+  /**
+   * Restore a full backup together with any incrementals made after it.
+   * Files may be given in any order; they must share one password and form
+   * a single unbroken chain.
+   */
+  async restoreChain(password: string, files: File[]): Promise<BackupData> {
+    const backups: BackupData[] = [];
+    for (const file of files) {
+      try {
+        backups.push(await this.restoreFromFile(password, file));
+      } catch (error) {
+        throw new Error(`${file.name}: ${error instanceof Error ? error.message : 'Failed to restore backup'}`);
       }
-      if (backupData.settings.decoyPin) {
-        await indexedDBStorage.saveSetting('recordKeeper_decoyPin', backupData.settings.decoyPin);
+    }
+
+    const fulls = backups.filter(b => b.kind !== 'incremental');
+    if (fulls.length !== 1) {
+      throw new Error(fulls.length === 0
+        ? 'Choose the full backup that these incremental backups were made from'
+        : 'Choose only one full backup, plus any incremental backups made after it');
+    }
+
+    // Follow the chain from the full backup, one incremental per link
+    const chain = [fulls[0]];
+    const remaining = backups.filter(b => b.kind === 'incremental');
+    for (;;) {
+      const tip = chain[chain.length - 1];
+      const next = tip.backupId ? remaining.find(b => b.baseBackupId === tip.backupId) : undefined;
+      if (!next) break;
+      chain.push(next);
+      remaining.splice(remaining.indexOf(next), 1);
+    }
+    if (remaining.length > 0) {
+      throw new Error(`${remaining.length} incremental backup${remaining.length === 1 ? '' : 's'} could not be linked to the full backup. An earlier backup in the chain may be missing.`);
+    }
+
+    const merged = new Map<string, RecordType>();
+    const attachments = new Map<string, BackupAttachment>();
+    for (const backup of chain) {
+      backup.deletedRecordIds?.forEach(id => merged.delete(id));
+      backup.records.forEach(record => merged.set(record.id, record));
+      backup.attachments?.forEach(attachment => attachments.set(attachment.id, attachment));
+    }
+    const referenced = new Set(Array.from(merged.values()).flatMap(record => (record.files ?? []).map(file => file.id)));
+
+    const latest = chain[chain.length - 1];
+    return {
+      ...latest,
+      schemaVersion: Math.min(...chain.map(backup => backup.schemaVersion ?? 1)),
+      attachments: Array.from(attachments.values()).filter(attachment => referenced.has(attachment.id)),
+      kind: 'full',
+      scope: chain[0].scope,
+      baseBackupId: undefined,
+      deletedRecordIds: undefined,
+      // Newest first, as the app keeps them
+      records: Array.from(merged.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    };
+  }
+
+  /**
+   * Change the password of a backup file and download the result under the same name
+   */
+  async downloadRekeyedBackup(file: File, currentPassword: string, newPassword: string): Promise<void> {
+    const encryptedBackup = await this.readBackupFile(file);
+    const rekeyed = await this.changeBackupPassword(encryptedBackup, currentPassword, newPassword);
+    this.saveBackupFile(rekeyed, file.name);
+  }
+
+  /**
+   * Apply restored backup data to storage. Without a plan the backup replaces
+   * everything on the device. Replace restores the backup's settings; the
+   * other modes only fill in settings that are not set on this device.
+   */
+  async applyBackup(backupData: BackupData, plan: RestorePlan = planRestore(backupData.records, [], 'replace')): Promise<void> {
+    try {
+      // Store attachment content first so no record references a missing blob
+      const backupBlobs = new Map((backupData.attachments ?? []).map(attachment => [
+        attachment.id,
+        new Blob([this.base64ToArrayBuffer(attachment.data)], { type: attachment.mimeType }),
+      ]));
+      const referencedIds = new Set(plan.result.flatMap(record => (record.files ?? []).map(file => file.id)));
+      for (const [id, blob] of backupBlobs) {
+        if (referencedIds.has(id)) await recordStorage.saveAttachment(id, blob);
       }
-      if (backupData.settings.lockEnabled) {
-        await indexedDBStorage.saveSetting('recordKeeper_lockEnabled', backupData.settings.lockEnabled);
+      for (const { from, to } of plan.attachmentCopies) {
+        const blob = backupBlobs.get(from) ?? await recordStorage.getAttachment(from);
+        if (blob) await recordStorage.saveAttachment(to, blob);
       }
-      if (backupData.settings.userName) {
-        await indexedDBStorage.saveSetting('recordKeeper_userName', backupData.settings.userName);
+
+      // Restore records
+      await recordStorage.saveRecords(plan.result);
+
+      const keptAttachmentIds = new Set(plan.result.flatMap(record => (record.files ?? []).map(file => file.id)));
+      await recordStorage.deleteAttachments(
+        plan.removed.flatMap(record => (record.files ?? []).map(file => file.id)).filter(id => !keptAttachmentIds.has(id))
+      );
+
+      // Restore settings
+      const settingKeys: [Exclude<keyof BackupData['settings'], 'taxonomy'>, string][] = [
+        ['pin', 'recordKeeper_pin'],
+        ['decoyPin', 'recordKeeper_decoyPin'],
+        ['lockEnabled', 'recordKeeper_lockEnabled'],
+        ['userName', 'recordKeeper_userName'],
+        ['welcomeCompleted', 'recordKeeper_welcomeCompleted'],
+      ];
+      // Storage on this device is encrypted under the current PIN, so lock settings are never replaced
+      const lockSettings = new Set(['pin', 'decoyPin', 'lockEnabled']);
+      for (const [field, key] of settingKeys) {
+        const value = backupData.settings[field];
+        if (!value) continue;
+        if ((plan.mode !== 'replace' || lockSettings.has(field)) && await indexedDBStorage.getSetting(key)) continue;
+        await indexedDBStorage.saveSetting(key, value);
       }
-      if (backupData.settings.welcomeCompleted) {
-        await indexedDBStorage.saveSetting('recordKeeper_welcomeCompleted', backupData.settings.welcomeCompleted);
+      if (backupData.settings.taxonomy && (plan.mode === 'replace' || !localStorage.getItem(TAXONOMY_KEY))) {
+        localStorage.setItem(TAXONOMY_KEY, backupData.settings.taxonomy);
       }
 
-      console.log(`Restored ${backupData.records.length} records from backup`);
+      console.log(`Restored backup (${plan.mode}): ${plan.added.length} added, ${plan.overwritten.length} overwritten, ${plan.skipped.length} skipped, ${plan.removed.length} removed`);
     } catch (error) {
       console.error('Failed to apply backup:', error);
       throw new Error('Failed to apply backup data');
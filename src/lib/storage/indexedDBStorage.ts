@@ -2,18 +2,86 @@
  * IndexedDB Storage Service
  * Replaces localStorage with unlimited storage capacity
  * Handles images efficiently without base64 bloat
+ * Records, attachments and settings are encrypted at rest; see StorageVault
  */
 
 import { RecordType } from '../../App';
+import { StoredAttachment, extractInlineAttachments } from './inlineAttachments';
+import {
+  RECORDS_STORE,
+  SETTINGS_STORE,
+  ATTACHMENTS_STORE,
+  SCHEMA_VERSION,
+  runMigrations,
+} from './migrations';
+import { getDatabaseVersion, createMigrationSnapshot, deleteMigrationSnapshots } from './migrationSnapshot';
+import { StorageVault, StoredVaultKey, SealedValue } from './storageVault';
+import type { RecordStorage } from './recordStorage';
 
 const DB_NAME = 'HerLawDB';
-const DB_VERSION = 1;
-const RECORDS_STORE = 'records';
-const SETTINGS_STORE = 'settings';
+const LOCAL_STORAGE_MIGRATED_KEY = 'recordKeeper_localStorageMigrated';
+const LOCAL_STORAGE_RECORDS_KEY = 'recordKeeper_records';
+const VAULT_KEY_SETTING = 'recordKeeper_vaultKey';
+
+/** Settings needed before storage is unlocked, which are never encrypted */
+const PLAIN_SETTINGS = new Set([
+  VAULT_KEY_SETTING,
+  'recordKeeper_pin',
+  'recordKeeper_decoyPin',
+  'recordKeeper_lockEnabled',
+  'recordKeeper_welcomeCompleted',
+  'recordKeeper_pinAttempts',
+  'recordKeeper_wipeAfterFailures',
+  'recordKeeper_biometricUnlock',
+  'recordKeeper_autoLock',
+  'recordKeeper_decoyRecords',
+  'recordKeeper_databaseName',
+]);
+
+interface SealedRecordRow {
+  id: string;
+  sealed: SealedValue;
+}
+
+interface SealedAttachmentRow {
+  id: string;
+  type: string;
+  sealed: SealedValue;
+}
 
-export class IndexedDBStorage {
+interface SealedSettingRow {
+  key: string;
+  sealed: SealedValue;
+}
+
+/** A setting as stored before encryption, and for settings in PLAIN_SETTINGS */
+interface PlainSettingRow {
+  key: string;
+  value: unknown;
+}
+
+export interface MigrationStatus {
+  state: 'idle' | 'snapshotting' | 'migrating' | 'blocked' | 'complete' | 'failed';
+  fromVersion: number;
+  toVersion: number;
+  appliedVersions: number[];
+  snapshotId?: string;
+  error?: string;
+}
+
+export class IndexedDBStorage implements RecordStorage {
   private static instance: IndexedDBStorage;
   private db: IDBDatabase | null = null;
+  private initPromise: Promise<void> | null = null;
+  private migrationStatus: MigrationStatus = {
+    state: 'idle',
+    fromVersion: 0,
+    toVersion: SCHEMA_VERSION,
+    appliedVersions: [],
+  };
+  private statusListeners = new Set<(status: MigrationStatus) => void>();
+  private vault = new StorageVault();
+  private vaultQueue: Promise<void> = Promise.resolve();
 
   private constructor() {}
 
@@ -25,41 +93,261 @@ export class IndexedDBStorage {
   }
 
   /**
-   * Initialize IndexedDB
+   * Current state of the schema upgrade run during initialization
+   */
+  getMigrationStatus(): MigrationStatus {
+    return this.migrationStatus;
+  }
+
+  /**
+   * Subscribe to migration status changes. Returns an unsubscribe function.
+   */
+  onMigrationStatusChange(listener: (status: MigrationStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private setMigrationStatus(update: Partial<MigrationStatus>): void {
+    this.migrationStatus = { ...this.migrationStatus, ...update };
+    this.statusListeners.forEach(listener => listener(this.migrationStatus));
+  }
+
+  /**
+   * Initialize IndexedDB, snapshotting and migrating the schema if it is out of date.
+   * Concurrent callers share a single initialization.
    */
   async initialize(): Promise<void> {
+    if (this.db) return;
+    if (!this.initPromise) {
+      this.initPromise = this.openDatabase().catch((error) => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async openDatabase(): Promise<void> {
+    const currentVersion = await getDatabaseVersion(indexedDB, DB_NAME);
+    this.setMigrationStatus({ fromVersion: currentVersion, toVersion: SCHEMA_VERSION });
+
+    if (currentVersion > SCHEMA_VERSION) {
+      const error = new Error(`Stored data uses schema v${currentVersion}, newer than this app supports (v${SCHEMA_VERSION})`);
+      this.setMigrationStatus({ state: 'failed', error: error.message });
+      throw error;
+    }
+
+    // Existing evidence is copied aside before any migration touches it
+    if (currentVersion > 0 && currentVersion < SCHEMA_VERSION) {
+      this.setMigrationStatus({ state: 'snapshotting' });
+      try {
+        const snapshot = await createMigrationSnapshot(indexedDB, DB_NAME, currentVersion, SCHEMA_VERSION);
+        this.setMigrationStatus({ snapshotId: snapshot.id });
+      } catch (error) {
+        console.error('Pre-migration snapshot failed; leaving data untouched:', error);
+        this.setMigrationStatus({
+          state: 'failed',
+          error: `Could not create a safety snapshot: ${error instanceof Error ? error.message : String(error)}`,
+        });
+        throw error;
+      }
+    }
+
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
 
       request.onerror = () => {
         console.error('IndexedDB failed to open:', request.error);
+        // A failed upgrade transaction rolls back, so the previous schema and data remain intact
+        if (this.migrationStatus.state === 'migrating') {
+          this.setMigrationStatus({ state: 'failed', appliedVersions: [], error: request.error?.message ?? 'Upgrade failed' });
+        }
         reject(request.error);
       };
 
+      request.onblocked = () => {
+        console.warn('IndexedDB upgrade blocked by another open tab');
+        this.setMigrationStatus({ state: 'blocked' });
+      };
+
       request.onsuccess = () => {
         this.db = request.result;
+        // Let other tabs upgrade the schema later instead of blocking them
+        this.db.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+          this.initPromise = null;
+        };
+        if (this.migrationStatus.state !== 'idle') {
+          this.setMigrationStatus({ state: 'complete' });
+        }
         console.log('IndexedDB initialized successfully');
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
+        const db = request.result;
+        this.setMigrationStatus({ state: 'migrating' });
+        const applied = runMigrations(db, request.transaction!, event.oldVersion, SCHEMA_VERSION);
+        this.setMigrationStatus({ appliedVersions: applied });
+        console.log(`IndexedDB schema migrated from v${event.oldVersion} to v${SCHEMA_VERSION}`);
+      };
+    });
+  }
 
-        // Create records store
-        if (!db.objectStoreNames.contains(RECORDS_STORE)) {
-          const recordsStore = db.createObjectStore(RECORDS_STORE, { keyPath: 'id' });
-          recordsStore.createIndex('dateTime', 'dateTime', { unique: false });
-          recordsStore.createIndex('createdAt', 'createdAt', { unique: false });
-        }
+  /**
+   * Whether storage has been unlocked for this session
+   */
+  isUnlocked(): boolean {
+    return this.vault.isUnlocked();
+  }
 
-        // Create settings store
-        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
-          db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
-        }
+  /**
+   * Whether unlocking requires the lock PIN
+   */
+  async requiresPin(): Promise<boolean> {
+    const stored: StoredVaultKey | undefined = await this.getSetting(VAULT_KEY_SETTING);
+    return stored?.protection === 'pin';
+  }
 
-        console.log('IndexedDB schema created');
-      };
+  /**
+   * Unlock encrypted storage. The first unlock creates the data key and
+   * encrypts anything an earlier version stored in plain text. Passing a PIN
+   * to storage that is not yet PIN-protected protects it with that PIN.
+   * Vault operations run one at a time.
+   */
+  unlock(pin?: string): Promise<void> {
+    return this.runVaultTask(async () => {
+      if (this.vault.isUnlocked()) return;
+
+      const stored: StoredVaultKey | undefined = await this.getSetting(VAULT_KEY_SETTING);
+      if (!stored) {
+        await this.saveSetting(VAULT_KEY_SETTING, await this.vault.create(pin ?? null));
+        await this.sealPlaintextRows();
+        return;
+      }
+
+      await this.vault.unlock(stored, pin);
+      if (pin && stored.protection === 'device') {
+        await this.saveSetting(VAULT_KEY_SETTING, await this.vault.rewrap(stored, pin));
+      }
+    });
+  }
+
+  /**
+   * Drop the data key from memory. Reads and writes fail until the next unlock.
+   */
+  lock(): void {
+    this.vault.lock();
+  }
+
+  /**
+   * Protect storage with a new lock PIN, or with a device key when pin is null.
+   * Storage must be unlocked.
+   */
+  setUnlockPin(pin: string | null): Promise<void> {
+    return this.runVaultTask(async () => {
+      const stored: StoredVaultKey | undefined = await this.getSetting(VAULT_KEY_SETTING);
+      if (!stored) throw new Error('Storage has not been unlocked yet');
+      await this.saveSetting(VAULT_KEY_SETTING, await this.vault.rewrap(stored, pin));
+    });
+  }
+
+  private runVaultTask(task: () => Promise<void>): Promise<void> {
+    const run = this.vaultQueue.then(task);
+    this.vaultQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * One-time encryption of rows written before storage was encrypted.
+   * Pre-migration snapshots hold plaintext copies of the same data, so they are removed.
+   */
+  private async sealPlaintextRows(): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    const [records, attachments, settings] = await Promise.all([
+      this.getAllRows<SealedRecordRow | RecordType>(RECORDS_STORE),
+      this.getAllRows<SealedAttachmentRow | StoredAttachment>(ATTACHMENTS_STORE),
+      this.getAllRows<SealedSettingRow | PlainSettingRow>(SETTINGS_STORE),
+    ]);
+
+    const sealedRecords = await Promise.all(
+      records
+        .filter((row): row is RecordType => !('sealed' in row))
+        .map(async row => (await this.sealRecord(row)).row)
+    );
+    const sealedAttachments = await Promise.all(
+      attachments
+        .filter((row): row is StoredAttachment => !('sealed' in row))
+        .map(row => this.sealAttachment(row.id, row.blob))
+    );
+    const sealedSettings = await Promise.all(
+      settings
+        .filter((row): row is PlainSettingRow => !('sealed' in row) && !PLAIN_SETTINGS.has(row.key))
+        .map(async (row): Promise<SealedSettingRow> => ({ key: row.key, sealed: await this.vault.sealJson(row.value) }))
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = this.db!.transaction([RECORDS_STORE, ATTACHMENTS_STORE, SETTINGS_STORE], 'readwrite');
+      sealedRecords.forEach(row => transaction.objectStore(RECORDS_STORE).put(row));
+      sealedAttachments.forEach(row => transaction.objectStore(ATTACHMENTS_STORE).put(row));
+      sealedSettings.forEach(row => transaction.objectStore(SETTINGS_STORE).put(row));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
+
+    await deleteMigrationSnapshots(indexedDB, DB_NAME);
+    console.log(`Encrypted ${sealedRecords.length} records, ${sealedAttachments.length} attachments and ${sealedSettings.length} settings`);
+  }
+
+  private async getAllRows<T>(storeName: string): Promise<T[]> {
+    if (!this.db) await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const request = this.db!.transaction([storeName], 'readonly').objectStore(storeName).getAll();
+      request.onsuccess = () => resolve(request.result as T[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Encrypt a record for storage, moving any inline attachments out into their own rows
+   */
+  private async sealRecord(record: RecordType): Promise<{ row: SealedRecordRow; attachments: SealedAttachmentRow[] }> {
+    const { record: reference, blobs } = extractInlineAttachments(record);
+    return {
+      row: { id: reference.id, sealed: await this.vault.sealJson(reference) },
+      attachments: await Promise.all(blobs.map(({ id, blob }) => this.sealAttachment(id, blob))),
+    };
+  }
+
+  private async sealAttachment(id: string, blob: Blob): Promise<SealedAttachmentRow> {
+    return { id, type: blob.type, sealed: await this.vault.seal(await blob.arrayBuffer()) };
+  }
+
+  /**
+   * Read a record row, whether encrypted or written before encryption
+   */
+  private async openRecord(row: SealedRecordRow | RecordType): Promise<RecordType> {
+    return 'sealed' in row ? this.vault.openJson<RecordType>(row.sealed) : row;
+  }
+
+  /**
+   * Write a sealed record and its attachments in one transaction
+   */
+  private putRecord(
+    transaction: IDBTransaction,
+    sealed: { row: SealedRecordRow; attachments: SealedAttachmentRow[] },
+    mode: 'add' | 'put'
+  ): IDBRequest {
+    const attachmentsStore = transaction.objectStore(ATTACHMENTS_STORE);
+    sealed.attachments.forEach(attachment => attachmentsStore.put(attachment));
+
+    const recordsStore = transaction.objectStore(RECORDS_STORE);
+    return mode === 'add' ? recordsStore.add(sealed.row) : recordsStore.put(sealed.row);
   }
 
   /**
@@ -67,17 +355,18 @@ export class IndexedDBStorage {
    */
   async saveRecords(records: RecordType[]): Promise<void> {
     if (!this.db) await this.initialize();
+    const sealedRecords = await Promise.all(records.map(record => this.sealRecord(record)));
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([RECORDS_STORE], 'readwrite');
+      const transaction = this.db!.transaction([RECORDS_STORE, ATTACHMENTS_STORE], 'readwrite');
       const store = transaction.objectStore(RECORDS_STORE);
 
       // Clear existing records
       store.clear();
 
       // Add all records
-      records.forEach(record => {
-        store.add(record);
+      sealedRecords.forEach(sealed => {
+        this.putRecord(transaction, sealed, 'add');
       });
 
       transaction.oncomplete = () => {
@@ -96,24 +385,10 @@ export class IndexedDBStorage {
    * Get all records
    */
   async getRecords(): Promise<RecordType[]> {
-    if (!this.db) await this.initialize();
-
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([RECORDS_STORE], 'readonly');
-      const store = transaction.objectStore(RECORDS_STORE);
-      const request = store.getAll();
-
-      request.onsuccess = () => {
-        const records = request.result as RecordType[];
-        console.log(`Retrieved ${records.length} records from IndexedDB`);
-        resolve(records);
-      };
-
-      request.onerror = () => {
-        console.error('Failed to get records:', request.error);
-        reject(request.error);
-      };
-    });
+    const rows = await this.getAllRows<SealedRecordRow | RecordType>(RECORDS_STORE);
+    const records = await Promise.all(rows.map(row => this.openRecord(row)));
+    console.log(`Retrieved ${records.length} records from IndexedDB`);
+    return records;
   }
 
   /**
@@ -121,11 +396,11 @@ export class IndexedDBStorage {
    */
   async addRecord(record: RecordType): Promise<void> {
     if (!this.db) await this.initialize();
+    const sealed = await this.sealRecord(record);
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([RECORDS_STORE], 'readwrite');
-      const store = transaction.objectStore(RECORDS_STORE);
-      const request = store.add(record);
+      const transaction = this.db!.transaction([RECORDS_STORE, ATTACHMENTS_STORE], 'readwrite');
+      const request = this.putRecord(transaction, sealed, 'add');
 
       request.onsuccess = () => {
         console.log('Record added to IndexedDB:', record.id);
@@ -144,11 +419,11 @@ export class IndexedDBStorage {
    */
   async updateRecord(record: RecordType): Promise<void> {
     if (!this.db) await this.initialize();
+    const sealed = await this.sealRecord(record);
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([RECORDS_STORE], 'readwrite');
-      const store = transaction.objectStore(RECORDS_STORE);
-      const request = store.put(record);
+      const transaction = this.db!.transaction([RECORDS_STORE, ATTACHMENTS_STORE], 'readwrite');
+      const request = this.putRecord(transaction, sealed, 'put');
 
       request.onsuccess = () => {
         console.log('Record updated in IndexedDB:', record.id);
@@ -186,38 +461,111 @@ export class IndexedDBStorage {
   }
 
   /**
-   * Clear all records
+   * Clear all records and their attachments
    */
   async clearRecords(): Promise<void> {
     if (!this.db) await this.initialize();
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([RECORDS_STORE], 'readwrite');
-      const store = transaction.objectStore(RECORDS_STORE);
-      const request = store.clear();
+      const transaction = this.db!.transaction([RECORDS_STORE, ATTACHMENTS_STORE], 'readwrite');
+      transaction.objectStore(RECORDS_STORE).clear();
+      transaction.objectStore(ATTACHMENTS_STORE).clear();
 
-      request.onsuccess = () => {
+      transaction.oncomplete = () => {
         console.log('All records cleared from IndexedDB');
         resolve();
       };
 
+      transaction.onerror = () => {
+        console.error('Failed to clear records:', transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * Store an attachment's binary content
+   */
+  async saveAttachment(id: string, blob: Blob): Promise<void> {
+    if (!this.db) await this.initialize();
+    const row = await this.sealAttachment(id, blob);
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([ATTACHMENTS_STORE], 'readwrite');
+      const store = transaction.objectStore(ATTACHMENTS_STORE);
+      const request = store.put(row);
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
       request.onerror = () => {
-        console.error('Failed to clear records:', request.error);
+        console.error('Failed to save attachment:', request.error);
         reject(request.error);
       };
     });
   }
 
   /**
-   * Save a setting
+   * Load an attachment's binary content
+   */
+  async getAttachment(id: string): Promise<Blob | null> {
+    if (!this.db) await this.initialize();
+
+    const row = await new Promise<SealedAttachmentRow | StoredAttachment | undefined>((resolve, reject) => {
+      const transaction = this.db!.transaction([ATTACHMENTS_STORE], 'readonly');
+      const store = transaction.objectStore(ATTACHMENTS_STORE);
+      const request = store.get(id);
+
+      request.onsuccess = () => {
+        resolve(request.result);
+      };
+
+      request.onerror = () => {
+        console.error('Failed to get attachment:', request.error);
+        reject(request.error);
+      };
+    });
+
+    if (!row) return null;
+    if ('blob' in row) return row.blob;
+    return new Blob([await this.vault.open(row.sealed)], { type: row.type });
+  }
+
+  /**
+   * Delete attachments by id
+   */
+  async deleteAttachments(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    if (!this.db) await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([ATTACHMENTS_STORE], 'readwrite');
+      const store = transaction.objectStore(ATTACHMENTS_STORE);
+      ids.forEach(id => store.delete(id));
+
+      transaction.oncomplete = () => {
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        console.error('Failed to delete attachments:', transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * Save a setting. Settings read before unlock are stored as they are; all others are encrypted.
    */
   async saveSetting(key: string, value: any): Promise<void> {
     if (!this.db) await this.initialize();
+    const row = PLAIN_SETTINGS.has(key) ? { key, value } : { key, sealed: await this.vault.sealJson(value) };
 
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([SETTINGS_STORE], 'readwrite');
       const store = transaction.objectStore(SETTINGS_STORE);
-      const request = store.put({ key, value });
+      const request = store.put(row);
 
       request.onsuccess = () => {
         resolve();
@@ -236,13 +584,13 @@ export class IndexedDBStorage {
   async getSetting(key: string): Promise<any> {
     if (!this.db) await this.initialize();
 
-    return new Promise((resolve, reject) => {
+    const row = await new Promise<SealedSettingRow | PlainSettingRow | undefined>((resolve, reject) => {
       const transaction = this.db!.transaction([SETTINGS_STORE], 'readonly');
       const store = transaction.objectStore(SETTINGS_STORE);
       const request = store.get(key);
 
       request.onsuccess = () => {
-        resolve(request.result?.value);
+        resolve(request.result);
       };
 
       request.onerror = () => {
@@ -250,6 +598,28 @@ export class IndexedDBStorage {
         reject(request.error);
       };
     });
+
+    if (!row) return undefined;
+    return 'sealed' in row ? this.vault.openJson(row.sealed) : row.value;
+  }
+
+  /**
+   * Delete the database and its migration snapshots. The instance can be initialized again afterwards.
+   */
+  async destroy(): Promise<void> {
+    this.vault.lock();
+    this.db?.close();
+    this.db = null;
+    this.initPromise = null;
+
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(DB_NAME);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('Deleting IndexedDB is waiting for another tab');
+    });
+    await deleteMigrationSnapshots(indexedDB, DB_NAME);
+    console.log('IndexedDB deleted');
   }
 
   /**
@@ -267,18 +637,30 @@ export class IndexedDBStorage {
   }
 
   /**
-   * Migrate data from localStorage to IndexedDB
+   * Migrate data from localStorage to IndexedDB.
+   * Runs once: records already in IndexedDB are never overwritten, and
+   * completion is recorded so later loads skip the import entirely.
    */
   async migrateFromLocalStorage(): Promise<void> {
+    if ((await this.getSetting(LOCAL_STORAGE_MIGRATED_KEY)) === 'true') {
+      // Imported records are encrypted now, so no plaintext copy may linger
+      localStorage.removeItem(LOCAL_STORAGE_RECORDS_KEY);
+      return;
+    }
+
     console.log('Starting migration from localStorage to IndexedDB...');
 
     try {
-      // Migrate records
-      const savedRecords = localStorage.getItem('recordKeeper_records');
+      // Migrate records that are not already stored
+      const savedRecords = localStorage.getItem(LOCAL_STORAGE_RECORDS_KEY);
       if (savedRecords) {
         const records = JSON.parse(savedRecords) as RecordType[];
-        await this.saveRecords(records);
-        console.log(`Migrated ${records.length} records from localStorage`);
+        const existingIds = new Set((await this.getRecords()).map(record => record.id));
+        const missing = records.filter(record => !existingIds.has(record.id));
+        for (const record of missing) {
+          await this.addRecord(record);
+        }
+        console.log(`Migrated ${missing.length} of ${records.length} records from localStorage`);
       }
 
       // Migrate settings
@@ -292,16 +674,17 @@ export class IndexedDBStorage {
 
       for (const key of settingsToMigrate) {
         const value = localStorage.getItem(key);
-        if (value !== null) {
+        if (value !== null && (await this.getSetting(key)) === undefined) {
           await this.saveSetting(key, value);
         }
       }
 
+      await this.saveSetting(LOCAL_STORAGE_MIGRATED_KEY, 'true');
       console.log('Migration from localStorage completed successfully');
 
-      // Optional: Clear localStorage after successful migration
-      // Uncomment the lines below to remove old data after migration
-      // localStorage.removeItem('recordKeeper_records');
+      localStorage.removeItem(LOCAL_STORAGE_RECORDS_KEY);
+
+      // Optional: Clear migrated settings from localStorage as well
       // settingsToMigrate.forEach(key => localStorage.removeItem(key));
 
     } catch (error) {
@@ -0,0 +1,48 @@
+/**
+ * Inline Attachments
+ * Helpers for moving legacy base64 data URL attachments out of records
+ * and into Blobs. Everything here is synchronous so it can run inside
+ * an IndexedDB upgrade transaction, which cannot await fetch.
+ */
+
+import { RecordType, AttachmentType } from '../../App';
+
+export interface StoredAttachment {
+  id: string;
+  blob: Blob;
+}
+
+/**
+ * Decode a base64 data URL into a Blob synchronously
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64] = dataUrl.split(',', 2);
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(base64 || '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * Move any inline data URL attachments out of a record.
+ * Returns the record holding only attachment references, plus the extracted blobs.
+ */
+export function extractInlineAttachments(record: RecordType): { record: RecordType; blobs: StoredAttachment[] } {
+  if (!record.files || !record.files.some(file => file.url?.startsWith('data:'))) {
+    return { record, blobs: [] };
+  }
+
+  const blobs: StoredAttachment[] = [];
+  const files: AttachmentType[] = record.files.map(file => {
+    if (!file.url?.startsWith('data:')) return file;
+    const blob = dataUrlToBlob(file.url);
+    blobs.push({ id: file.id, blob });
+    const { url: _url, ...reference } = file;
+    return { ...reference, mimeType: blob.type, size: blob.size };
+  });
+
+  return { record: { ...record, files }, blobs };
+}
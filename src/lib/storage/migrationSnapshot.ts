@@ -0,0 +1,177 @@
+/**
+ * Migration Snapshots
+ * Before a schema upgrade runs, every object store of the existing database
+ * is copied into a separate snapshot database. If a migration turns out to
+ * transform data incorrectly, the pre-upgrade evidence can still be recovered.
+ */
+
+const SNAPSHOT_STORE = 'snapshots';
+const MAX_SNAPSHOTS = 3;
+
+export interface MigrationSnapshot {
+  id: string;
+  fromVersion: number;
+  toVersion: number;
+  createdAt: string;
+  /** Every value of every object store, keyed by store name */
+  stores: Record<string, unknown[]>;
+}
+
+function snapshotDatabaseName(dbName: string): string {
+  return `${dbName}_snapshots`;
+}
+
+/**
+ * Read a database's current version without creating or upgrading it.
+ * Resolves 0 when the database does not exist yet.
+ */
+export function getDatabaseVersion(factory: IDBFactory, dbName: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(dbName);
+
+    // An upgrade on a versionless open means the database is new; abort so it is not created
+    request.onupgradeneeded = () => {
+      request.transaction!.abort();
+    };
+
+    request.onsuccess = () => {
+      const version = request.result.version;
+      request.result.close();
+      resolve(version);
+    };
+
+    request.onerror = () => {
+      if (request.error?.name === 'AbortError') {
+        resolve(0);
+      } else {
+        reject(request.error);
+      }
+    };
+  });
+}
+
+function openSnapshotDatabase(factory: IDBFactory, dbName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(snapshotDatabaseName(dbName), 1);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Copy every store of the database, at its current version, into memory
+ */
+function readAllStores(factory: IDBFactory, dbName: string): Promise<Record<string, unknown[]>> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(dbName);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const storeNames = Array.from(db.objectStoreNames);
+      const stores: Record<string, unknown[]> = {};
+
+      if (storeNames.length === 0) {
+        db.close();
+        resolve(stores);
+        return;
+      }
+
+      const transaction = db.transaction(storeNames, 'readonly');
+      storeNames.forEach(name => {
+        const getAll = transaction.objectStore(name).getAll();
+        getAll.onsuccess = () => {
+          stores[name] = getAll.result;
+        };
+      });
+
+      transaction.oncomplete = () => {
+        db.close();
+        resolve(stores);
+      };
+      transaction.onerror = () => {
+        db.close();
+        reject(transaction.error);
+      };
+    };
+  });
+}
+
+/**
+ * Snapshot the database before upgrading it from one schema version to another.
+ * Only the most recent snapshots are kept.
+ */
+export async function createMigrationSnapshot(
+  factory: IDBFactory,
+  dbName: string,
+  fromVersion: number,
+  toVersion: number
+): Promise<MigrationSnapshot> {
+  const createdAt = new Date().toISOString();
+  const snapshot: MigrationSnapshot = {
+    id: `v${fromVersion}-v${toVersion}-${createdAt}`,
+    fromVersion,
+    toVersion,
+    createdAt,
+    stores: await readAllStores(factory, dbName),
+  };
+
+  const snapshotDb = await openSnapshotDatabase(factory, dbName);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = snapshotDb.transaction([SNAPSHOT_STORE], 'readwrite');
+      const store = transaction.objectStore(SNAPSHOT_STORE);
+      store.put(snapshot);
+
+      // Prune the oldest snapshots beyond the retention limit
+      const keysRequest = store.getAllKeys();
+      keysRequest.onsuccess = () => {
+        const keys = (keysRequest.result as string[]).filter(key => key !== snapshot.id).sort();
+        keys.slice(0, Math.max(0, keys.length - (MAX_SNAPSHOTS - 1))).forEach(key => store.delete(key));
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    snapshotDb.close();
+  }
+
+  console.log(`Created pre-migration snapshot ${snapshot.id}`);
+  return snapshot;
+}
+
+/**
+ * List stored snapshots, newest first
+ */
+export async function listMigrationSnapshots(factory: IDBFactory, dbName: string): Promise<MigrationSnapshot[]> {
+  const snapshotDb = await openSnapshotDatabase(factory, dbName);
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = snapshotDb.transaction([SNAPSHOT_STORE], 'readonly').objectStore(SNAPSHOT_STORE).getAll();
+      request.onsuccess = () => {
+        const snapshots = request.result as MigrationSnapshot[];
+        resolve(snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    snapshotDb.close();
+  }
+}
+
+/**
+ * Delete every stored snapshot
+ */
+export function deleteMigrationSnapshots(factory: IDBFactory, dbName: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = factory.deleteDatabase(snapshotDatabaseName(dbName));
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('Deleting migration snapshots is waiting for another tab');
+  });
+}
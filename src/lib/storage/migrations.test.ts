@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { RecordType } from '../../App';
+import { Migration, MIGRATIONS, RECORDS_STORE, ATTACHMENTS_STORE, runMigrations } from './migrations';
+import { createMigrationSnapshot, getDatabaseVersion, listMigrationSnapshots } from './migrationSnapshot';
+
+const DB_NAME = 'MigrationTestDB';
+
+const legacyRecord: RecordType = {
+  id: 'r1',
+  dateTime: '2024-01-01T09:00',
+  description: 'Photo of the note left on the door',
+  tags: ['Evidence'],
+  createdAt: '2024-01-01T09:05:00.000Z',
+  files: [{ id: 'f1', name: 'note.txt', type: 'document', source: 'files', url: `data:text/plain;base64,${btoa('hello')}` }],
+};
+
+/**
+ * Open the database at a version, running the given migrations on upgrade.
+ * Resolves the versions applied, or rejects if the upgrade failed.
+ */
+function upgrade(factory: IDBFactory, version: number, migrations: Migration[] = MIGRATIONS): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    let applied: number[] = [];
+    const request = factory.open(DB_NAME, version);
+    request.onupgradeneeded = (event) => {
+      applied = runMigrations(request.result, request.transaction!, event.oldVersion, version, migrations);
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve(applied);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function readStore<T>(factory: IDBFactory, storeName: string): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(DB_NAME);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const getAll = db.transaction([storeName], 'readonly').objectStore(storeName).getAll();
+      getAll.onsuccess = () => {
+        db.close();
+        resolve(getAll.result as T[]);
+      };
+      getAll.onerror = () => {
+        db.close();
+        reject(getAll.error);
+      };
+    };
+  });
+}
+
+/** A v1 database holding one record with an inline attachment */
+async function createV1Database(factory: IDBFactory): Promise<void> {
+  await upgrade(factory, 1);
+  await new Promise<void>((resolve, reject) => {
+    const request = factory.open(DB_NAME, 1);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const transaction = db.transaction([RECORDS_STORE], 'readwrite');
+      transaction.objectStore(RECORDS_STORE).put(legacyRecord);
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    };
+  });
+}
+
+describe('schema migrations', () => {
+  it('upgrades v1 to v2 by moving inline attachments into the attachments store', async () => {
+    const factory = new IDBFactory();
+    await createV1Database(factory);
+
+    expect(await upgrade(factory, 2)).toEqual([2]);
+    expect(await getDatabaseVersion(factory, DB_NAME)).toBe(2);
+
+    const [record] = await readStore<RecordType>(factory, RECORDS_STORE);
+    expect(record.files![0].url).toBeUndefined();
+    expect(record.files![0]).toMatchObject({ id: 'f1', mimeType: 'text/plain', size: 5 });
+
+    const [attachment] = await readStore<{ id: string; blob: Blob }>(factory, ATTACHMENTS_STORE);
+    expect(attachment.id).toBe('f1');
+    expect(await attachment.blob.text()).toBe('hello');
+  });
+
+  it('leaves the data as it was in the snapshot when a migration fails', async () => {
+    const factory = new IDBFactory();
+    await createV1Database(factory);
+    const snapshot = await createMigrationSnapshot(factory, DB_NAME, 1, 2);
+
+    const failing: Migration[] = [
+      MIGRATIONS[0],
+      {
+        version: 2,
+        description: 'Broken migration',
+        migrate: (_db, transaction) => {
+          transaction.objectStore(RECORDS_STORE).clear();
+          throw new Error('Migration bug');
+        },
+      },
+    ];
+    await expect(upgrade(factory, 2, failing)).rejects.toBeTruthy();
+
+    expect(await getDatabaseVersion(factory, DB_NAME)).toBe(1);
+    expect(await readStore(factory, RECORDS_STORE)).toEqual(snapshot.stores[RECORDS_STORE]);
+
+    const [stored] = await listMigrationSnapshots(factory, DB_NAME);
+    expect(stored.stores[RECORDS_STORE]).toEqual([legacyRecord]);
+  });
+
+  it('does nothing when run again at the current version', async () => {
+    const factory = new IDBFactory();
+    await createV1Database(factory);
+    await upgrade(factory, 2);
+    const before = await readStore(factory, RECORDS_STORE);
+
+    expect(await upgrade(factory, 2)).toEqual([]);
+    expect(await readStore(factory, RECORDS_STORE)).toEqual(before);
+    expect(await readStore(factory, ATTACHMENTS_STORE)).toHaveLength(1);
+  });
+});
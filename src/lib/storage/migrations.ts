@@ -0,0 +1,105 @@
+/**
+ * IndexedDB Schema Migrations
+ * Ordered, numbered migrations for the HerLawDB schema. Each migration
+ * receives the database and the versionchange transaction, so it can be
+ * run against any IDBFactory implementation, including a fake one in tests.
+ *
+ * To change the schema, append a new migration with the next version number.
+ * Never edit or reorder a migration that has already shipped.
+ */
+
+import { RecordType } from '../../App';
+import { extractInlineAttachments } from './inlineAttachments';
+
+export const RECORDS_STORE = 'records';
+export const SETTINGS_STORE = 'settings';
+export const ATTACHMENTS_STORE = 'attachments';
+
+export interface Migration {
+  version: number;
+  description: string;
+  /** Runs inside the upgrade transaction; must only schedule requests on it */
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create records and settings stores',
+    migrate: (db) => {
+      if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+        const recordsStore = db.createObjectStore(RECORDS_STORE, { keyPath: 'id' });
+        recordsStore.createIndex('dateTime', 'dateTime', { unique: false });
+        recordsStore.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Move attachments out of records into a Blob store',
+    migrate: (db, transaction) => {
+      if (!db.objectStoreNames.contains(ATTACHMENTS_STORE)) {
+        db.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'id' });
+      }
+
+      const recordsStore = transaction.objectStore(RECORDS_STORE);
+      const attachmentsStore = transaction.objectStore(ATTACHMENTS_STORE);
+      let migrated = 0;
+
+      recordsStore.openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) {
+          console.log(`Extracted attachments from ${migrated} records`);
+          return;
+        }
+
+        const { record, blobs } = extractInlineAttachments(cursor.value as RecordType);
+        if (blobs.length > 0) {
+          blobs.forEach(attachment => attachmentsStore.put(attachment));
+          cursor.update(record);
+          migrated++;
+        }
+        cursor.continue();
+      };
+    },
+  },
+];
+
+/**
+ * Check that migrations are numbered 1..n with no gaps or duplicates
+ */
+export function validateMigrations(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Migration ${index + 1} is numbered ${migration.version}; versions must be sequential`);
+    }
+  });
+}
+
+validateMigrations(MIGRATIONS);
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Apply every migration newer than oldVersion, up to and including newVersion, in order.
+ * Returns the versions that were applied.
+ */
+export function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number = SCHEMA_VERSION,
+  migrations: Migration[] = MIGRATIONS
+): number[] {
+  const pending = migrations.filter(m => m.version > oldVersion && m.version <= newVersion);
+
+  pending.forEach(migration => {
+    console.log(`Applying schema migration v${migration.version}: ${migration.description}`);
+    migration.migrate(db, transaction);
+  });
+
+  return pending.map(m => m.version);
+}
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RecordType } from '../../App';
+
+const storage = vi.hoisted(() => ({
+  records: new Map<string, unknown>(),
+  failOn: null as string | null,
+}));
+
+vi.mock('./recordStorage', () => ({
+  recordStorage: {
+    addRecord: async (record: { id: string }) => {
+      if (record.id === storage.failOn) throw new Error('Disk full');
+      storage.records.set(record.id, record);
+    },
+    updateRecord: async (record: { id: string }) => {
+      storage.records.set(record.id, record);
+    },
+    deleteRecord: async (id: string) => {
+      storage.records.delete(id);
+    },
+    deleteAttachments: async () => undefined,
+  },
+}));
+
+const { RecordChangeTracker } = await import('./recordChangeTracker');
+
+function record(id: string): RecordType {
+  return { id, dateTime: '2024-01-01T09:00', description: id, createdAt: '2024-01-01T09:00:00.000Z' } as RecordType;
+}
+
+describe('RecordChangeTracker', () => {
+  beforeEach(() => {
+    storage.records.clear();
+    storage.failOn = null;
+  });
+
+  it('reports the changes written before a write failed', async () => {
+    const tracker = new RecordChangeTracker();
+    tracker.prime([]);
+    storage.failOn = 'r2';
+
+    const records = [record('r1'), record('r2'), record('r3')];
+    const { written, error } = await tracker.flush(records);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(written.added.map(r => r.id)).toEqual(['r1']);
+    expect(Array.from(storage.records.keys())).toEqual(['r1']);
+  });
+
+  it('writes the failed changes on the next flush without repeating the saved ones', async () => {
+    const tracker = new RecordChangeTracker();
+    tracker.prime([]);
+    storage.failOn = 'r2';
+    const records = [record('r1'), record('r2'), record('r3')];
+    await tracker.flush(records);
+
+    storage.failOn = null;
+    const { written, error } = await tracker.flush(records);
+
+    expect(error).toBeUndefined();
+    expect(written.added.map(r => r.id)).toEqual(['r2', 'r3']);
+    expect(Array.from(storage.records.keys()).sort()).toEqual(['r1', 'r2', 'r3']);
+  });
+
+  it('writes nothing before it is primed', async () => {
+    const tracker = new RecordChangeTracker();
+    const { written } = await tracker.flush([record('r1')]);
+
+    expect(written.added).toEqual([]);
+    expect(storage.records.size).toBe(0);
+  });
+});
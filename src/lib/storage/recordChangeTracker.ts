@@ -0,0 +1,135 @@
+/**
+ * Record Change Tracker
+ * Persists the in-memory record list incrementally. Each flush diffs the
+ * current records against the last persisted snapshot and writes only the
+ * records that were added, updated or deleted, one at a time. The store is
+ * never cleared, so an interrupted save can lose at most the change in flight.
+ *
+ * A failed write stops the flush but does not hide what was already written:
+ * the flush reports those changes along with the error, and the rest stay
+ * pending for the next flush.
+ */
+
+import { RecordType } from '../../App';
+import { recordStorage } from './recordStorage';
+
+export interface RecordChanges {
+  added: RecordType[];
+  updated: { before: RecordType; after: RecordType }[];
+  deleted: RecordType[];
+}
+
+export interface FlushResult {
+  /** Changes now in storage */
+  written: RecordChanges;
+  /** Set when a write failed; that change and any after it are still unsaved */
+  error?: unknown;
+}
+
+export class RecordChangeTracker {
+  private persisted = new Map<string, RecordType>();
+  private primed = false;
+  private pending: Promise<void> = Promise.resolve();
+
+  /**
+   * Record what is already in storage. Flushes are ignored until this is called,
+   * so an empty list before the initial load can never delete anything.
+   */
+  prime(records: RecordType[]): void {
+    this.persisted = new Map(records.map(record => [record.id, record]));
+    this.primed = true;
+  }
+
+  isPrimed(): boolean {
+    return this.primed;
+  }
+
+  /**
+   * Wait for queued flushes to finish, then forget the snapshot so nothing
+   * is written until the next prime. Used when the app locks.
+   */
+  async reset(): Promise<void> {
+    await this.pending;
+    this.persisted = new Map();
+    this.primed = false;
+  }
+
+  /**
+   * Compare a record list against the persisted snapshot.
+   * Records are treated as immutable, so a new object reference means an update.
+   */
+  diff(records: RecordType[]): RecordChanges {
+    const changes: RecordChanges = { added: [], updated: [], deleted: [] };
+    const currentIds = new Set<string>();
+
+    records.forEach(record => {
+      currentIds.add(record.id);
+      const before = this.persisted.get(record.id);
+      if (!before) {
+        changes.added.push(record);
+      } else if (before !== record) {
+        changes.updated.push({ before, after: record });
+      }
+    });
+
+    this.persisted.forEach((record, id) => {
+      if (!currentIds.has(id)) {
+        changes.deleted.push(record);
+      }
+    });
+
+    return changes;
+  }
+
+  /**
+   * Persist everything that changed since the last flush, resolving with what was written.
+   * Flushes run strictly one after another in the order they were requested.
+   */
+  flush(records: RecordType[]): Promise<FlushResult> {
+    const run = this.pending.then(() => this.persist(records));
+    // Keep the queue alive even if a flush fails unexpectedly
+    this.pending = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  private async persist(records: RecordType[]): Promise<FlushResult> {
+    const changes = this.primed ? this.diff(records) : { added: [], updated: [], deleted: [] };
+    const { added, updated, deleted } = changes;
+    const written: RecordChanges = { added: [], updated: [], deleted: [] };
+    if (added.length === 0 && updated.length === 0 && deleted.length === 0) return { written };
+
+    // The snapshot only advances after each write succeeds, so failed writes are retried next flush
+    try {
+      for (const record of added) {
+        await recordStorage.addRecord(record);
+        this.persisted.set(record.id, record);
+        written.added.push(record);
+      }
+
+      for (const change of updated) {
+        const { before, after } = change;
+        await recordStorage.updateRecord(after);
+        this.persisted.set(after.id, after);
+        written.updated.push(change);
+
+        const keptIds = new Set((after.files ?? []).map(f => f.id));
+        const removedIds = (before.files ?? []).map(f => f.id).filter(id => !keptIds.has(id));
+        await recordStorage.deleteAttachments(removedIds);
+      }
+
+      for (const record of deleted) {
+        await recordStorage.deleteRecord(record.id);
+        this.persisted.delete(record.id);
+        written.deleted.push(record);
+        await recordStorage.deleteAttachments((record.files ?? []).map(f => f.id));
+      }
+    } catch (error) {
+      return { written, error };
+    }
+
+    console.log(`Persisted record changes: ${added.length} added, ${updated.length} updated, ${deleted.length} deleted`);
+    return { written };
+  }
+}
+
+export const recordChangeTracker = new RecordChangeTracker();
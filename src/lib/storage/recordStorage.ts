@@ -0,0 +1,125 @@
+/**
+ * Record Storage
+ * The store the app reads and writes records and attachments through.
+ * On iOS and Android that is the SQLCipher database; on the web it is
+ * IndexedDB. Settings stay in IndexedDB on every platform.
+ */
+
+import { Capacitor } from '@capacitor/core';
+import { RecordType, AttachmentType } from '../../App';
+import { indexedDBStorage } from './indexedDBStorage';
+import { encryptedStorage } from '../security/encryptedStorage';
+
+export interface RecordStorage {
+  initialize(): Promise<void>;
+  /** Replace every stored record */
+  saveRecords(records: RecordType[]): Promise<void>;
+  getRecords(): Promise<RecordType[]>;
+  /** Rejects if a record with the same id is already stored */
+  addRecord(record: RecordType): Promise<void>;
+  updateRecord(record: RecordType): Promise<void>;
+  /** Attachments are left in place; callers delete them separately */
+  deleteRecord(id: string): Promise<void>;
+  /** Remove every record and attachment */
+  clearRecords(): Promise<void>;
+  saveAttachment(id: string, blob: Blob): Promise<void>;
+  getAttachment(id: string): Promise<Blob | null>;
+  deleteAttachments(ids: string[]): Promise<void>;
+}
+
+const ENCRYPTED_STORAGE_MIGRATED_KEY = 'recordKeeper_encryptedStorageMigrated';
+
+export const recordStorage: RecordStorage = Capacitor.isNativePlatform() ? encryptedStorage : indexedDBStorage;
+
+/**
+ * Resolve attachment references to object URLs for display or export.
+ * Attachments that still carry an inline URL are returned unchanged.
+ * Callers should revoke the URLs with releaseAttachmentUrls when done.
+ */
+export async function resolveAttachmentUrls(files: AttachmentType[]): Promise<AttachmentType[]> {
+  return Promise.all(files.map(async (file) => {
+    if (file.url) return file;
+    const blob = await recordStorage.getAttachment(file.id);
+    return blob ? { ...file, url: URL.createObjectURL(blob) } : file;
+  }));
+}
+
+/**
+ * Revoke object URLs created by resolveAttachmentUrls
+ */
+export function releaseAttachmentUrls(files: AttachmentType[]): void {
+  files.forEach(file => {
+    if (file.url?.startsWith('blob:')) {
+      URL.revokeObjectURL(file.url);
+    }
+  });
+}
+
+/**
+ * Move records and attachments saved in IndexedDB by earlier versions
+ * into the encrypted database, then delete the plaintext copies.
+ * Runs once on native platforms and does nothing on the web. Records
+ * already in the encrypted database are never overwritten.
+ */
+export async function migrateToEncryptedStorage(): Promise<void> {
+  if (recordStorage === indexedDBStorage) return;
+  if ((await indexedDBStorage.getSetting(ENCRYPTED_STORAGE_MIGRATED_KEY)) === 'true') return;
+
+  console.log('Starting migration from IndexedDB to encrypted storage...');
+
+  try {
+    const records = await indexedDBStorage.getRecords();
+    const existingIds = new Set((await recordStorage.getRecords()).map(record => record.id));
+
+    let migrated = 0;
+    for (const record of records) {
+      if (existingIds.has(record.id)) continue;
+      // Attachments first so a record never references content that was not copied
+      for (const file of record.files ?? []) {
+        const blob = await indexedDBStorage.getAttachment(file.id);
+        if (blob) await recordStorage.saveAttachment(file.id, blob);
+      }
+      await recordStorage.addRecord(record);
+      migrated++;
+    }
+
+    await indexedDBStorage.saveSetting(ENCRYPTED_STORAGE_MIGRATED_KEY, 'true');
+    await indexedDBStorage.clearRecords();
+    console.log(`Migrated ${migrated} of ${records.length} records to encrypted storage`);
+  } catch (error) {
+    console.error('Migration to encrypted storage failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Close the record store and forget the storage key until the next unlock
+ */
+export async function lockStorage(): Promise<void> {
+  if (recordStorage !== indexedDBStorage) {
+    await encryptedStorage.forgetKey();
+  }
+  indexedDBStorage.lock();
+}
+
+/**
+ * Erase every record, attachment and setting on this device, including
+ * data left in localStorage by earlier versions. Backup files and cloud
+ * copies are not touched.
+ */
+export async function wipeAllData(): Promise<void> {
+  if (recordStorage !== indexedDBStorage) {
+    try {
+      await recordStorage.clearRecords();
+      await encryptedStorage.deleteSecret();
+    } catch (error) {
+      // Storage is locked; erasing the key below leaves the database unreadable
+      console.warn('Encrypted database could not be opened to clear it:', error);
+    }
+    await encryptedStorage.forgetKey();
+  }
+  await indexedDBStorage.destroy();
+  Object.keys(localStorage)
+    .filter(key => key.startsWith('recordKeeper_'))
+    .forEach(key => localStorage.removeItem(key));
+}
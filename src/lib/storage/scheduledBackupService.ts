@@ -0,0 +1,353 @@
+/**
+ * Scheduled Backup Service
+ * Writes an encrypted full backup daily or weekly and keeps only the newest
+ * few. On native the files go to Documents/RecordKeeper Backups, where the
+ * user's own file tools can copy them off the device. On the web they go to
+ * the origin private file system, falling back to a download where that is
+ * unavailable.
+ *
+ * The backup password is never stored: turning the schedule on derives a
+ * non-extractable wrapping key from it, and only that key is kept.
+ */
+
+import { App as CapacitorApp } from '@capacitor/app';
+import { Capacitor, type PluginListenerHandle } from '@capacitor/core';
+import { Directory, Encoding, Filesystem } from '@capacitor/filesystem';
+import { indexedDBStorage } from './indexedDBStorage';
+import { recordStorage } from './recordStorage';
+import { encryptedBackup, BackupKey } from './encryptedBackup';
+
+export type BackupFrequency = 'daily' | 'weekly';
+
+export interface BackupScheduleConfig {
+  frequency: BackupFrequency;
+  /** How many scheduled backups to keep */
+  keep: number;
+}
+
+export type BackupDestination = 'device' | 'browser' | 'download';
+
+export interface ScheduledBackupStatus {
+  enabled: boolean;
+  config?: BackupScheduleConfig;
+  destination: BackupDestination;
+  running: boolean;
+  lastSuccessAt?: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+export interface StoredBackupFile {
+  name: string;
+  size: number;
+}
+
+interface StoredSchedule extends BackupScheduleConfig {
+  backupKey: BackupKey;
+}
+
+interface PersistedStatus {
+  lastSuccessAt?: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Where scheduled backups are written. Files are named so that sorting by
+ * name sorts by age.
+ */
+interface BackupFolder {
+  write(name: string, contents: string): Promise<void>;
+  list(): Promise<StoredBackupFile[]>;
+  read(name: string): Promise<string>;
+  remove(name: string): Promise<void>;
+}
+
+const SCHEDULE_KEY = 'recordKeeper_backupSchedule';
+const STATUS_KEY = 'recordKeeper_backupScheduleStatus';
+const FOLDER = 'RecordKeeper Backups';
+const FILE_PREFIX = 'herlaw-auto-backup-';
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+/** After a failure, wait this long before trying again */
+const RETRY_MS = 60 * 60 * 1000;
+const FREQUENCY_MS: Record<BackupFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+const deviceFolder: BackupFolder = {
+  async write(name, contents) {
+    await Filesystem.writeFile({
+      path: `${FOLDER}/${name}`,
+      directory: Directory.Documents,
+      data: contents,
+      encoding: Encoding.UTF8,
+      recursive: true,
+    });
+  },
+  async list() {
+    try {
+      const { files } = await Filesystem.readdir({ path: FOLDER, directory: Directory.Documents });
+      return files.map(file => ({ name: file.name, size: file.size }));
+    } catch {
+      return []; // Folder not created yet
+    }
+  },
+  async read(name) {
+    const { data } = await Filesystem.readFile({
+      path: `${FOLDER}/${name}`,
+      directory: Directory.Documents,
+      encoding: Encoding.UTF8,
+    });
+    return typeof data === 'string' ? data : await data.text();
+  },
+  async remove(name) {
+    await Filesystem.deleteFile({ path: `${FOLDER}/${name}`, directory: Directory.Documents });
+  },
+};
+
+/** The DOM typings in use here do not declare directory iteration yet */
+type IterableDirectoryHandle = FileSystemDirectoryHandle & { values(): AsyncIterable<FileSystemHandle> };
+
+async function browserDirectory(): Promise<IterableDirectoryHandle> {
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(FOLDER, { create: true }) as Promise<IterableDirectoryHandle>;
+}
+
+const browserFolder: BackupFolder = {
+  async write(name, contents) {
+    const handle = await (await browserDirectory()).getFileHandle(name, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(contents);
+    await writable.close();
+  },
+  async list() {
+    const directory = await browserDirectory();
+    const files: StoredBackupFile[] = [];
+    for await (const handle of directory.values()) {
+      if (handle.kind !== 'file') continue;
+      const file = await (handle as FileSystemFileHandle).getFile();
+      files.push({ name: handle.name, size: file.size });
+    }
+    return files;
+  },
+  async read(name) {
+    const handle = await (await browserDirectory()).getFileHandle(name);
+    return (await handle.getFile()).text();
+  },
+  async remove(name) {
+    await (await browserDirectory()).removeEntry(name);
+  },
+};
+
+function backupFileName(date: Date): string {
+  return `${FILE_PREFIX}${date.toISOString().slice(0, 19).replace(/:/g, '-')}.encrypted`;
+}
+
+class ScheduledBackupService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private appStateListener: PluginListenerHandle | null = null;
+  /** Bumped by stop(), so a start() still awaiting when it runs gives up */
+  private generation = 0;
+  private inFlight: Promise<void> | null = null;
+  private listeners = new Set<(status: ScheduledBackupStatus) => void>();
+
+  /**
+   * Where backups go on this platform
+   */
+  getDestination(): BackupDestination {
+    if (Capacitor.isNativePlatform()) return 'device';
+    return typeof navigator.storage?.getDirectory === 'function' ? 'browser' : 'download';
+  }
+
+  private getFolder(): BackupFolder | null {
+    const destination = this.getDestination();
+    return destination === 'device' ? deviceFolder : destination === 'browser' ? browserFolder : null;
+  }
+
+  /**
+   * Check the schedule now, whenever the app resumes, and hourly while it is open
+   */
+  async start(): Promise<void> {
+    this.stop();
+    const generation = this.generation;
+    this.timer = setInterval(() => this.runIfDue(), CHECK_INTERVAL_MS);
+    const appStateListener = await CapacitorApp.addListener('appStateChange', ({ isActive }) => {
+      if (isActive) this.runIfDue();
+    });
+    if (generation !== this.generation) {
+      appStateListener.remove();
+      return;
+    }
+    this.appStateListener = appStateListener;
+    this.runIfDue();
+  }
+
+  stop(): void {
+    this.generation++;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.appStateListener?.remove();
+    this.appStateListener = null;
+  }
+
+  async getStatus(): Promise<ScheduledBackupStatus> {
+    const schedule: StoredSchedule | null = await indexedDBStorage.getSetting(SCHEDULE_KEY);
+    const persisted: PersistedStatus = (await indexedDBStorage.getSetting(STATUS_KEY)) ?? {};
+    return {
+      ...persisted,
+      enabled: !!schedule,
+      config: schedule ? { frequency: schedule.frequency, keep: schedule.keep } : undefined,
+      destination: this.getDestination(),
+      running: !!this.inFlight,
+    };
+  }
+
+  /**
+   * Subscribe to status changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: (status: ScheduledBackupStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify(): Promise<void> {
+    const status = await this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  /**
+   * Turn scheduled backups on, or change their password, and take one straight away
+   */
+  async enable(password: string, config: BackupScheduleConfig): Promise<void> {
+    const backupKey = await encryptedBackup.createBackupKey(password);
+    await indexedDBStorage.saveSetting(SCHEDULE_KEY, { ...config, backupKey } satisfies StoredSchedule);
+    await this.runNow();
+  }
+
+  /**
+   * Change how often backups run and how many are kept, keeping the password
+   */
+  async updateSchedule(config: BackupScheduleConfig): Promise<void> {
+    const schedule: StoredSchedule | null = await indexedDBStorage.getSetting(SCHEDULE_KEY);
+    if (!schedule) throw new Error('Scheduled backups are not turned on');
+    await indexedDBStorage.saveSetting(SCHEDULE_KEY, { ...schedule, ...config });
+    await this.rotate(config.keep);
+    await this.notify();
+  }
+
+  /**
+   * Stop scheduled backups and forget the backup key. Existing files are kept.
+   */
+  async disable(): Promise<void> {
+    await indexedDBStorage.saveSetting(SCHEDULE_KEY, null);
+    await this.notify();
+  }
+
+  private async isDue(): Promise<boolean> {
+    const schedule: StoredSchedule | null = await indexedDBStorage.getSetting(SCHEDULE_KEY);
+    if (!schedule) return false;
+
+    const { lastSuccessAt, lastAttemptAt, lastError }: PersistedStatus = (await indexedDBStorage.getSetting(STATUS_KEY)) ?? {};
+    const now = Date.now();
+    if (lastError && lastAttemptAt && now - new Date(lastAttemptAt).getTime() < RETRY_MS) return false;
+    return !lastSuccessAt || now - new Date(lastSuccessAt).getTime() >= FREQUENCY_MS[schedule.frequency];
+  }
+
+  /**
+   * Back up if the schedule says one is due. Never throws.
+   */
+  async runIfDue(): Promise<void> {
+    try {
+      if (this.inFlight || !(await this.isDue())) return;
+      await this.runNow();
+    } catch (error) {
+      console.error('Scheduled backup failed:', error);
+    }
+  }
+
+  /**
+   * Take a scheduled backup now. Failures are recorded in the status and rethrown.
+   */
+  async runNow(): Promise<void> {
+    if (this.inFlight) return this.inFlight;
+    this.inFlight = this.backup().finally(() => {
+      this.inFlight = null;
+      this.notify();
+    });
+    this.notify();
+    return this.inFlight;
+  }
+
+  private async backup(): Promise<void> {
+    const schedule: StoredSchedule | null = await indexedDBStorage.getSetting(SCHEDULE_KEY);
+    if (!schedule) throw new Error('Scheduled backups are not turned on');
+
+    const attemptedAt = new Date();
+    const previous: PersistedStatus = (await indexedDBStorage.getSetting(STATUS_KEY)) ?? {};
+    try {
+      const records = await recordStorage.getRecords();
+      const backup = await encryptedBackup.createBackupWithKey(schedule.backupKey, records);
+      const name = backupFileName(attemptedAt);
+
+      const folder = this.getFolder();
+      if (folder) {
+        await folder.write(name, JSON.stringify(backup, null, 2));
+        await this.rotate(schedule.keep);
+      } else {
+        encryptedBackup.saveBackupFile(backup, name);
+      }
+
+      await indexedDBStorage.saveSetting(STATUS_KEY, {
+        lastSuccessAt: attemptedAt.toISOString(),
+        lastAttemptAt: attemptedAt.toISOString(),
+      } satisfies PersistedStatus);
+    } catch (error) {
+      await indexedDBStorage.saveSetting(STATUS_KEY, {
+        ...previous,
+        lastAttemptAt: attemptedAt.toISOString(),
+        lastError: error instanceof Error ? error.message : 'Backup failed',
+      } satisfies PersistedStatus);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all but the newest scheduled backups
+   */
+  private async rotate(keep: number): Promise<void> {
+    const folder = this.getFolder();
+    if (!folder) return;
+
+    const files = (await folder.list())
+      .filter(file => file.name.startsWith(FILE_PREFIX))
+      .sort((a, b) => b.name.localeCompare(a.name));
+    for (const file of files.slice(keep)) {
+      await folder.remove(file.name);
+    }
+  }
+
+  /**
+   * Scheduled backups currently kept, newest first
+   */
+  async listBackups(): Promise<StoredBackupFile[]> {
+    const folder = this.getFolder();
+    if (!folder) return [];
+    return (await folder.list())
+      .filter(file => file.name.startsWith(FILE_PREFIX))
+      .sort((a, b) => b.name.localeCompare(a.name));
+  }
+
+  /**
+   * Download a copy of a kept backup, e.g. to move it off a browser's private storage
+   */
+  async exportBackup(name: string): Promise<void> {
+    const folder = this.getFolder();
+    if (!folder) return;
+    encryptedBackup.saveBackupFile(JSON.parse(await folder.read(name)), name);
+  }
+}
+
+export const scheduledBackupService = new ScheduledBackupService();
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { SealedValue, StorageVault, StoredVaultKey } from './storageVault';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (bytes: ArrayBuffer) => new TextDecoder().decode(bytes);
+
+/** A vault created with the given PIN, and a value sealed with it */
+async function createVault(pin: string | null) {
+  const vault = new StorageVault();
+  const stored = await vault.create(pin);
+  const sealed = await vault.seal(encode('evidence'));
+  return { vault, stored, sealed };
+}
+
+/** Unlock a fresh vault, as after a restart, and read the sealed value back */
+async function reopen(stored: StoredVaultKey, sealed: SealedValue, pin?: string) {
+  const vault = new StorageVault();
+  await vault.unlock(stored, pin);
+  return decode(await vault.open(sealed));
+}
+
+describe('StorageVault', () => {
+  it('wraps the data key under the PIN and opens again only with it', async () => {
+    const { stored, sealed } = await createVault('2580');
+
+    expect(stored.protection).toBe('pin');
+    expect(stored.deviceKey).toBeUndefined();
+    expect(await reopen(stored, sealed, '2580')).toBe('evidence');
+    await expect(reopen(stored, sealed, '0000')).rejects.toThrow('Incorrect PIN');
+    await expect(reopen(stored, sealed)).rejects.toThrow('A PIN is required to unlock storage');
+  });
+
+  it('wraps the data key under a device key while no PIN is set', async () => {
+    const { stored, sealed } = await createVault(null);
+
+    expect(stored.protection).toBe('device');
+    expect(stored.deviceKey?.extractable).toBe(false);
+    expect(await reopen(stored, sealed)).toBe('evidence');
+  });
+
+  it('rewraps the same data key under a new PIN', async () => {
+    const { vault, stored, sealed } = await createVault('2580');
+    const rewrapped = await vault.rewrap(stored, '1397');
+
+    expect(await reopen(rewrapped, sealed, '1397')).toBe('evidence');
+    await expect(reopen(rewrapped, sealed, '2580')).rejects.toThrow('Incorrect PIN');
+  });
+
+  it('rewraps between PIN and device protection', async () => {
+    const { vault, stored, sealed } = await createVault(null);
+
+    const withPin = await vault.rewrap(stored, '2580');
+    expect(withPin.protection).toBe('pin');
+    expect(await reopen(withPin, sealed, '2580')).toBe('evidence');
+
+    const withoutPin = await vault.rewrap(withPin, null);
+    expect(withoutPin.protection).toBe('device');
+    expect(await reopen(withoutPin, sealed)).toBe('evidence');
+  });
+
+  it('rewraps after unlocking without asking for the old PIN again', async () => {
+    const { stored, sealed } = await createVault('2580');
+    const vault = new StorageVault();
+    await vault.unlock(stored, '2580');
+
+    expect(await reopen(await vault.rewrap(stored, '1397'), sealed, '1397')).toBe('evidence');
+  });
+
+  it('refuses to seal, open or rewrap once locked', async () => {
+    const { vault, stored, sealed } = await createVault('2580');
+    vault.lock();
+
+    expect(vault.isUnlocked()).toBe(false);
+    await expect(vault.seal(encode('more'))).rejects.toThrow('Storage is locked');
+    await expect(vault.open(sealed)).rejects.toThrow('Storage is locked');
+    await expect(vault.rewrap(stored, '1397')).rejects.toThrow('Storage is locked');
+  });
+
+  it('seals JSON values and carries the CryptoKeys inside them', async () => {
+    const { vault } = await createVault(null);
+    const backupKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt']);
+
+    const sealed = await vault.sealJson({ schedule: 'daily', key: backupKey });
+    expect(sealed.cryptoKeys).toEqual([backupKey]);
+    expect(await vault.openJson(sealed)).toEqual({ schedule: 'daily', key: backupKey });
+  });
+});
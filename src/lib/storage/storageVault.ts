@@ -0,0 +1,175 @@
+/**
+ * Storage Vault
+ * Encrypts the records, attachments and settings IndexedDBStorage writes.
+ * A random AES-GCM data key seals every value and is only ever stored
+ * wrapped: by a key derived from the lock PIN, or, while no PIN lock is
+ * set, by a non-extractable device key kept next to it. Unlocking holds a
+ * non-extractable copy of the data key in memory until lock().
+ */
+
+export type VaultProtection = 'device' | 'pin';
+
+export interface StoredVaultKey {
+  protection: VaultProtection;
+  /** The data key, wrapped with AES-GCM */
+  wrappedKey: ArrayBuffer;
+  iv: ArrayBuffer;
+  /** Wrapping key when protection is 'device' */
+  deviceKey?: CryptoKey;
+  /** PIN key derivation when protection is 'pin' */
+  kdf?: { salt: ArrayBuffer; iterations: number };
+}
+
+export interface SealedValue {
+  iv: ArrayBuffer;
+  data: ArrayBuffer;
+  /**
+   * Non-extractable keys found in the value, such as the scheduled backup key.
+   * They cannot be serialized, and their material is unreadable anyway.
+   */
+  cryptoKeys?: CryptoKey[];
+}
+
+export const VAULT_KDF_ITERATIONS = 600000;
+const CRYPTO_KEY_REF = '$vaultCryptoKey';
+
+function randomBuffer(length: number): ArrayBuffer {
+  return crypto.getRandomValues(new Uint8Array(length)).buffer;
+}
+
+async function derivePinKey(pin: string, salt: ArrayBuffer, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+export class StorageVault {
+  private dataKey: CryptoKey | null = null;
+  /** What the stored data key is wrapped with, so the PIN can change without asking for it again */
+  private wrappingKey: CryptoKey | null = null;
+
+  isUnlocked(): boolean {
+    return this.dataKey !== null;
+  }
+
+  /**
+   * Forget the keys held in memory
+   */
+  lock(): void {
+    this.dataKey = null;
+    this.wrappingKey = null;
+  }
+
+  /**
+   * Generate a new data key and unlock with it. Returns the wrapped key to store.
+   */
+  async create(pin: string | null): Promise<StoredVaultKey> {
+    const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const stored = await this.wrap(dataKey, pin);
+    this.dataKey = await this.unwrap(stored, this.wrappingKey!, false);
+    return stored;
+  }
+
+  /**
+   * Unwrap the stored data key. A PIN is required when the key is PIN-protected.
+   */
+  async unlock(stored: StoredVaultKey, pin?: string): Promise<void> {
+    let wrappingKey: CryptoKey;
+    if (stored.protection === 'pin') {
+      if (!pin) throw new Error('A PIN is required to unlock storage');
+      wrappingKey = await derivePinKey(pin, stored.kdf!.salt, stored.kdf!.iterations);
+    } else {
+      wrappingKey = stored.deviceKey!;
+    }
+
+    try {
+      this.dataKey = await this.unwrap(stored, wrappingKey, false);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'OperationError') {
+        throw new Error('Incorrect PIN');
+      }
+      throw error;
+    }
+    this.wrappingKey = wrappingKey;
+  }
+
+  /**
+   * Wrap the data key under a new PIN, or under a device key when pin is null.
+   * The vault must be unlocked. Returns the wrapped key to store.
+   */
+  async rewrap(stored: StoredVaultKey, pin: string | null): Promise<StoredVaultKey> {
+    if (!this.wrappingKey) throw new Error('Storage is locked');
+    const exportable = await this.unwrap(stored, this.wrappingKey, true);
+    return this.wrap(exportable, pin);
+  }
+
+  private async wrap(dataKey: CryptoKey, pin: string | null): Promise<StoredVaultKey> {
+    const iv = randomBuffer(12);
+    if (pin) {
+      const salt = randomBuffer(16);
+      const wrappingKey = await derivePinKey(pin, salt, VAULT_KDF_ITERATIONS);
+      const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+      this.wrappingKey = wrappingKey;
+      return { protection: 'pin', wrappedKey, iv, kdf: { salt, iterations: VAULT_KDF_ITERATIONS } };
+    }
+
+    const deviceKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['wrapKey', 'unwrapKey']);
+    const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, deviceKey, { name: 'AES-GCM', iv });
+    this.wrappingKey = deviceKey;
+    return { protection: 'device', wrappedKey, iv, deviceKey };
+  }
+
+  private unwrap(stored: StoredVaultKey, wrappingKey: CryptoKey, extractable: boolean): Promise<CryptoKey> {
+    return crypto.subtle.unwrapKey(
+      'raw',
+      stored.wrappedKey,
+      wrappingKey,
+      { name: 'AES-GCM', iv: stored.iv },
+      { name: 'AES-GCM' },
+      extractable,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  private requireKey(): CryptoKey {
+    if (!this.dataKey) throw new Error('Storage is locked');
+    return this.dataKey;
+  }
+
+  /**
+   * Encrypt bytes with the data key
+   */
+  async seal(data: BufferSource): Promise<SealedValue> {
+    const key = this.requireKey();
+    const iv = randomBuffer(12);
+    return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data) };
+  }
+
+  async open(sealed: SealedValue): Promise<ArrayBuffer> {
+    return crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, this.requireKey(), sealed.data);
+  }
+
+  /**
+   * Encrypt any JSON value, carrying CryptoKeys alongside it
+   */
+  async sealJson(value: unknown): Promise<SealedValue> {
+    const cryptoKeys: CryptoKey[] = [];
+    const json = JSON.stringify(value, (_key, item) =>
+      item instanceof CryptoKey ? { [CRYPTO_KEY_REF]: cryptoKeys.push(item) - 1 } : item
+    ) ?? 'null';
+    const sealed = await this.seal(new TextEncoder().encode(json));
+    return cryptoKeys.length > 0 ? { ...sealed, cryptoKeys } : sealed;
+  }
+
+  async openJson<T = any>(sealed: SealedValue): Promise<T> {
+    const json = new TextDecoder().decode(await this.open(sealed));
+    return JSON.parse(json, (_key, item) =>
+      item && typeof item === 'object' && CRYPTO_KEY_REF in item ? sealed.cryptoKeys![item[CRYPTO_KEY_REF]] : item
+    );
+  }
+}